@@ -0,0 +1,38 @@
+import {
+  elapsedSeconds,
+  pauseAtLastMove,
+  pauseClock,
+  recordCommentMove,
+  recordMoveTime,
+  resumeClock,
+  startClock,
+} from './clock.js';
+
+describe('game clock', () => {
+  it('leaves paused time off the clock', () => {
+    const paused = pauseClock(recordMoveTime(startClock(0), false, 10_000), 20_000);
+    expect(elapsedSeconds(paused, 90_000)).toBe(20);
+    expect(elapsedSeconds(resumeClock(paused, 80_000), 95_000)).toBe(35);
+  });
+
+  it("doesn't count the time away from a game picked up at its last move", () => {
+    const left = recordMoveTime(startClock(0), false, 30_000);
+    const moved = recordMoveTime(resumeClock(pauseAtLastMove(left), 3_600_000), false, 3_600_000);
+    expect(elapsedSeconds(moved, 3_600_000)).toBe(30);
+  });
+
+  it('keeps running between moves played in the comments', () => {
+    const moves = [60_000, 120_000, 180_000].reduce((clock, at) => recordCommentMove(clock, false, at), startClock(0));
+    expect(elapsedSeconds(recordCommentMove(moves, true, 240_000))).toBe(240);
+  });
+
+  it('leaves a pause in the post off the clock when play moves to the comments', () => {
+    const paused = pauseClock(recordCommentMove(startClock(0), false, 30_000), 40_000);
+    expect(elapsedSeconds(recordCommentMove(paused, true, 100_000))).toBe(40);
+  });
+
+  it('stops for good at the move that ends the game', () => {
+    const ended = recordMoveTime(startClock(0), true, 45_000);
+    expect(elapsedSeconds(resumeClock(pauseAtLastMove(ended), 60_000), 120_000)).toBe(45);
+  });
+});
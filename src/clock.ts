@@ -0,0 +1,54 @@
+// Game timing kept as timestamps instead of a ticking counter: the time on the clock
+// can be worked out at any moment, so nothing has to be saved while it runs
+export type GameClock = {
+  startedAt: number;
+  // Set while the game is paused
+  pausedAt: number | null;
+  // Milliseconds spent paused before the current pause
+  pausedFor: number;
+  // When the last move was made, so a game left running can be picked up from there
+  lastMoveAt: number;
+  // Set by the move that won or lost the game
+  endedAt: number | null;
+};
+
+export const startClock = (now = Date.now()): GameClock => ({
+  startedAt: now,
+  pausedAt: null,
+  pausedFor: 0,
+  lastMoveAt: now,
+  endedAt: null,
+});
+
+export const isRunning = (clock: GameClock) => clock.pausedAt === null && clock.endedAt === null;
+
+export const isPaused = (clock: GameClock) => clock.pausedAt !== null && clock.endedAt === null;
+
+export const pauseClock = (clock: GameClock, now = Date.now()): GameClock =>
+  isRunning(clock) ? { ...clock, pausedAt: now } : clock;
+
+export const resumeClock = (clock: GameClock, now = Date.now()): GameClock =>
+  clock.pausedAt !== null && clock.endedAt === null
+    ? { ...clock, pausedAt: null, pausedFor: clock.pausedFor + now - clock.pausedAt, lastMoveAt: now }
+    : clock;
+
+// Note a move on the clock, stopping it for good when the move ended the game
+export const recordMoveTime = (clock: GameClock, ended: boolean, now = Date.now()): GameClock => ({
+  ...clock,
+  lastMoveAt: now,
+  endedAt: ended ? now : clock.endedAt,
+});
+
+// Note a move made in the comments. It picks up a game paused in the post, leaving the pause
+// off the clock; otherwise the clock runs on between comment moves as it does in the post.
+export const recordCommentMove = (clock: GameClock, ended: boolean, now = Date.now()): GameClock =>
+  recordMoveTime(clock.pausedAt !== null ? resumeClock(clock, now) : clock, ended, now);
+
+// A game whose player left while it ran comes back paused at its last move,
+// so the time away from the post doesn't count
+export const pauseAtLastMove = (clock: GameClock): GameClock =>
+  isRunning(clock) ? { ...clock, pausedAt: clock.lastMoveAt } : clock;
+
+// Whole seconds of play: frozen at the final move once the game is over and while paused
+export const elapsedSeconds = (clock: GameClock, now = Date.now()) =>
+  Math.max(0, Math.floor(((clock.endedAt ?? clock.pausedAt ?? now) - clock.startedAt - clock.pausedFor) / 1000));
@@ -0,0 +1,50 @@
+import { CELL_TYPES, createBoard, revealCell } from './engine.js';
+import { addCoopGame, applyCoopMove, contributions, emptyCoopTally, newCoopGame } from './coop.js';
+
+const alice = { id: 't2_a', username: 'alice' };
+const bob = { id: 't2_b', username: 'bob' };
+
+const opened = () => newCoopGame(revealCell(createBoard('MEDIUM', { seed: 'coop' }), 0).board, 0);
+const safeCell = (game: ReturnType<typeof opened>) =>
+  game.board.cells.findIndex(cell => !cell.revealed && cell.type !== CELL_TYPES.BOMB);
+
+describe('co-op games', () => {
+  it('credit each opened cell to whoever opened it', () => {
+    const start = opened();
+    const first = applyCoopMove(start, alice, 'reveal', safeCell(start), 1000).game;
+    const { game } = applyCoopMove(first, bob, 'flag', first.board.cells.findIndex(cell => !cell.revealed), 2000);
+    const credits = contributions(game);
+
+    expect(credits.map(({ userId }) => userId)).toEqual(['t2_a', 't2_b']);
+    expect(credits[0].cells).toBeGreaterThan(0);
+    // Flags aren't opened cells
+    expect(credits[1].cells).toBe(0);
+    expect(game.moveCount).toBe(2);
+  });
+
+  it('leave the game as it was for a move that changes nothing', () => {
+    const game = opened();
+    expect(applyCoopMove(game, alice, 'reveal', game.board.cells.findIndex(cell => cell.revealed)).game).toBe(game);
+  });
+
+  it('blame the bomb on the player who hit it and stop the clock', () => {
+    const game = opened();
+    const mine = game.board.cells.findIndex(cell => cell.type === CELL_TYPES.BOMB);
+    const { game: lost, result } = applyCoopMove(game, bob, 'reveal', mine, 5000);
+    expect(result.outcome).toBe('lost');
+    expect(lost.lostBy).toBe('t2_b');
+    expect(lost.clock.endedAt).toBe(5000);
+    expect(Object.values(lost.openedBy)).not.toContain('t2_b');
+  });
+
+  it('add finished boards to the post record', () => {
+    const won = { openedBy: { 1: 't2_a', 2: 't2_a', 3: 't2_b' }, players: { t2_a: 'alice', t2_b: 'bob' }, lostBy: null };
+    const lost = { openedBy: { 4: 't2_b' }, players: { t2_b: 'bob' }, lostBy: 't2_b' };
+    expect(addCoopGame(addCoopGame(emptyCoopTally(), won), lost)).toEqual({
+      played: 2,
+      won: 1,
+      cells: { t2_a: 2, t2_b: 2 },
+      bombs: { t2_b: 1 },
+    });
+  });
+});
@@ -0,0 +1,90 @@
+// Co-op games: everyone who joined a post plays one shared board, with each opened cell
+// credited to whoever opened it. Moves are played on the board as stored, so two players
+// tapping at once each play on the other's move instead of overwriting it.
+import { recordMoveTime, startClock } from './clock.js';
+import { Board, CELL_TYPES, CellAction, MoveResult, actOnCell } from './engine.js';
+import type { GameSession } from './schema.js';
+
+export type CoopGame = GameSession & {
+  // Who opened each revealed cell: user id by cell index
+  openedBy: Record<string, string>;
+  // Everyone who has moved on the board: username by user id
+  players: Record<string, string>;
+  // The player whose move hit a bomb
+  lostBy: string | null;
+};
+
+// A post's co-op record: boards finished, boards cleared, and each player's cells and bombs hit
+export type CoopTally = {
+  played: number;
+  won: number;
+  cells: Record<string, number>;
+  bombs: Record<string, number>;
+};
+
+// A player's share of a co-op board
+export type Contribution = {
+  userId: string;
+  username: string;
+  cells: number;
+};
+
+export const newCoopGame = (board: Board, now = Date.now()): CoopGame => ({
+  board,
+  moveCount: 0,
+  clock: startClock(now),
+  openedBy: {},
+  players: {},
+  lostBy: null,
+});
+
+export const emptyCoopTally = (): CoopTally => ({ played: 0, won: 0, cells: {}, bombs: {} });
+
+// Play a player's move on the shared board. The move that ends the game stops the shared clock.
+export const applyCoopMove = (
+  game: CoopGame,
+  player: { id: string; username: string },
+  action: CellAction,
+  index: number,
+  now = Date.now()
+): { game: CoopGame; result: MoveResult } => {
+  const result = actOnCell(game.board, action, index);
+  if (!result.changed) return { game, result };
+  // The bomb that ends a game isn't a cell anyone gets credit for
+  const opened = result.revealed.filter(cell => result.board.cells[cell].type !== CELL_TYPES.BOMB);
+
+  return {
+    result,
+    game: {
+      board: result.board,
+      moveCount: game.moveCount + 1,
+      clock: recordMoveTime(game.clock, result.outcome !== 'playing', now),
+      openedBy: { ...game.openedBy, ...Object.fromEntries(opened.map(cell => [cell, player.id])) },
+      players: { ...game.players, [player.id]: player.username },
+      lostBy: result.outcome === 'lost' ? player.id : null,
+    },
+  };
+};
+
+// Cells opened per player, most first; players who only placed flags are listed with none
+export const contributions = (game: Pick<CoopGame, 'openedBy' | 'players'>): Contribution[] => {
+  const cells: Record<string, number> = {};
+  for (const userId of Object.values(game.openedBy)) cells[userId] = (cells[userId] ?? 0) + 1;
+
+  return Object.entries(game.players)
+    .map(([userId, username]) => ({ userId, username, cells: cells[userId] ?? 0 }))
+    .sort((a, b) => b.cells - a.cells);
+};
+
+// Count a finished co-op board towards the post's co-op record
+export const addCoopGame = (tally: CoopTally, game: Pick<CoopGame, 'openedBy' | 'players' | 'lostBy'>): CoopTally => {
+  const cells = { ...tally.cells };
+  for (const { userId, cells: opened } of contributions(game)) cells[userId] = (cells[userId] ?? 0) + opened;
+
+  return {
+    played: tally.played + 1,
+    won: tally.won + (game.lostBy === null ? 1 : 0),
+    cells,
+    bombs: game.lostBy === null ? tally.bombs : { ...tally.bombs, [game.lostBy]: (tally.bombs[game.lostBy] ?? 0) + 1 },
+  };
+};
@@ -0,0 +1,63 @@
+import { CELL_TYPES } from './engine.js';
+import {
+  DailyResult,
+  applyDailyMove,
+  createDailyBoard,
+  currentDailyStreak,
+  dailyResult,
+  emptyDailyStreak,
+  rankDailyResults,
+  startDailyAttempt,
+  updateDailyStreak,
+} from './daily.js';
+
+const result = (userId: string, outcome: DailyResult['outcome'], time: number, moves: number): DailyResult => ({
+  userId,
+  username: userId,
+  outcome,
+  time,
+  moves,
+});
+
+describe('daily challenge', () => {
+  it('deals everyone the same opened board for a day', () => {
+    const board = createDailyBoard('2026-10-14');
+    expect(createDailyBoard('2026-10-14')).toEqual(board);
+    expect(board.cells.some(cell => cell.revealed)).toBe(true);
+    expect(createDailyBoard('2026-10-15').cells).not.toEqual(board.cells);
+  });
+
+  it('times an attempt from the first look to the move that ends it', () => {
+    const attempt = startDailyAttempt('2026-10-14', 't2_a', 'alice', 0);
+    const mine = attempt.board.cells.findIndex(cell => cell.type === CELL_TYPES.BOMB);
+    const lost = applyDailyMove(attempt, { board: attempt.board, outcome: 'lost', revealed: [mine], changed: true }, 1, 42_500);
+    expect(dailyResult(lost)).toEqual({ userId: 't2_a', username: 'alice', outcome: 'lost', time: 42, moves: 1 });
+  });
+
+  it('ranks cleared boards fastest first, with fewer moves breaking ties', () => {
+    const ranked = rankDailyResults([
+      result('a', 'won', 60, 30),
+      result('b', 'lost', 10, 5),
+      result('c', 'won', 60, 20),
+      result('d', 'won', 50, 40),
+    ]);
+    expect(ranked.map(({ userId }) => userId)).toEqual(['d', 'c', 'a']);
+  });
+
+  it('keeps a streak going on consecutive days and ends it with a loss', () => {
+    // Winning the same day twice doesn't count twice
+    const won = ['2026-10-12', '2026-10-13', '2026-10-13'].reduce(
+      (streak, date) => updateDailyStreak(streak, date, true),
+      emptyDailyStreak()
+    );
+    expect(won).toEqual({ current: 2, best: 2, lastWon: '2026-10-13' });
+    expect(updateDailyStreak(won, '2026-10-14', false)).toMatchObject({ current: 0, best: 2 });
+    expect(updateDailyStreak(won, '2026-10-15', true)).toMatchObject({ current: 1, best: 2 });
+  });
+
+  it('lets a streak lapse once a whole day goes by without a win', () => {
+    const streak = { current: 3, best: 3, lastWon: '2026-10-13' };
+    expect(currentDailyStreak(streak, '2026-10-14')).toBe(3);
+    expect(currentDailyStreak(streak, '2026-10-15')).toBe(0);
+  });
+});
@@ -0,0 +1,103 @@
+// Daily Challenge: one board per UTC day, the same for everyone in the subreddit
+import { Board, Difficulty, MoveResult, Outcome, createBoard, revealCell } from './engine.js';
+
+export const DAILY_DIFFICULTY: Difficulty = 'MEDIUM';
+export const DAILY_SIZE = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A player's single attempt at a day's board
+export type DailyAttempt = {
+  date: string;
+  userId: string;
+  username: string;
+  board: Board;
+  moves: number;
+  outcome: Outcome;
+  startedAt: number;
+  finishedAt: number | null;
+};
+
+// A finished attempt as listed on the daily leaderboard
+export type DailyResult = {
+  userId: string;
+  username: string;
+  outcome: Outcome;
+  // Seconds from the first look at the board to the last move
+  time: number;
+  moves: number;
+};
+
+// Consecutive days with a cleared daily board
+export type DailyStreak = {
+  current: number;
+  best: number;
+  lastWon: string | null;
+};
+
+export const emptyDailyStreak = (): DailyStreak => ({ current: 0, best: 0, lastWon: null });
+
+// Today's challenge date in UTC, e.g. "2024-05-01"
+export const dailyDate = (now = Date.now()) => new Date(now).toISOString().slice(0, 10);
+
+const previousDate = (date: string) => dailyDate(Date.parse(`${date}T00:00:00Z`) - DAY_MS);
+
+export const dailySeed = (date: string) => `daily-${date}`;
+
+// Mines are placed around a fixed first reveal in the centre, so every player
+// starts from exactly the same opened board instead of their own first click
+export const createDailyBoard = (date: string): Board => {
+  const board = createBoard(DAILY_DIFFICULTY, {
+    width: DAILY_SIZE,
+    height: DAILY_SIZE,
+    seed: dailySeed(date),
+    noGuess: true,
+  });
+  const centre = Math.floor(board.height / 2) * board.width + Math.floor(board.width / 2);
+  return revealCell(board, centre).board;
+};
+
+export const startDailyAttempt = (date: string, userId: string, username: string, now = Date.now()): DailyAttempt => ({
+  date,
+  userId,
+  username,
+  board: createDailyBoard(date),
+  moves: 0,
+  outcome: 'playing',
+  startedAt: now,
+  finishedAt: null,
+});
+
+// Record a move on an attempt, stopping the clock once the board is won or lost
+export const applyDailyMove = (attempt: DailyAttempt, result: MoveResult, moves = 1, now = Date.now()): DailyAttempt => ({
+  ...attempt,
+  board: result.board,
+  moves: attempt.moves + moves,
+  outcome: result.outcome,
+  finishedAt: result.outcome === 'playing' ? null : now,
+});
+
+export const dailyResult = (attempt: DailyAttempt): DailyResult => ({
+  userId: attempt.userId,
+  username: attempt.username,
+  outcome: attempt.outcome,
+  time: Math.floor(((attempt.finishedAt ?? Date.now()) - attempt.startedAt) / 1000),
+  moves: attempt.moves,
+});
+
+// Cleared boards only, fastest first and fewest moves breaking ties
+export const rankDailyResults = (results: DailyResult[]) =>
+  results.filter(result => result.outcome === 'won').sort((a, b) => a.time - b.time || a.moves - b.moves);
+
+// Extend the streak for a win that follows yesterday's, start over otherwise; a loss ends it
+export const updateDailyStreak = (streak: DailyStreak, date: string, won: boolean): DailyStreak => {
+  if (!won) return { ...streak, current: 0 };
+  if (streak.lastWon === date) return streak;
+
+  const current = streak.lastWon === previousDate(date) ? streak.current + 1 : 1;
+  return { current, best: Math.max(streak.best, current), lastWon: date };
+};
+
+// The streak as it stands today: it lapses once a whole day goes by without a win
+export const currentDailyStreak = (streak: DailyStreak, today: string) =>
+  streak.lastWon === today || streak.lastWon === previousDate(today) ? streak.current : 0;
@@ -0,0 +1,104 @@
+import { CELL_TYPES, checkOutcome, chordCell, createBoard, neighbours, revealCell, toggleFlag } from './engine.js';
+
+const mineIndices = (board: ReturnType<typeof createBoard>) =>
+  board.cells.flatMap((cell, index) => (cell.type === CELL_TYPES.BOMB ? [index] : []));
+
+describe('first click', () => {
+  it('places no mines until the first reveal', () => {
+    const board = createBoard('HARD', { seed: 'lazy' });
+    expect(board.minesPlaced).toBe(false);
+    expect(mineIndices(board)).toEqual([]);
+  });
+
+  it('is never a mine, wherever it lands', () => {
+    for (let index = 0; index < 100; index++) {
+      const { board, outcome } = revealCell(createBoard('HARD', { seed: `click-${index}` }), index);
+      expect(board.cells[index].type).not.toBe(CELL_TYPES.BOMB);
+      expect(outcome).not.toBe('lost');
+      expect(mineIndices(board)).toHaveLength(board.bombCount);
+    }
+  });
+
+  it('keeps the clicked cell and its neighbours clear with an opening', () => {
+    const { board } = revealCell(createBoard('HARD', { seed: 'opening', opening: true }), 44);
+    for (const index of [44, ...neighbours(board, 44)]) {
+      expect(board.cells[index].type).not.toBe(CELL_TYPES.BOMB);
+    }
+  });
+
+  it('falls back to a single safe cell when an opening leaves no room for the mines', () => {
+    const { board } = revealCell(createBoard('EASY', { width: 3, height: 3, mines: 7, seed: 'tight', opening: true }), 4);
+    expect(board.cells[4].type).not.toBe(CELL_TYPES.BOMB);
+    expect(mineIndices(board)).toHaveLength(7);
+  });
+
+  it('leaves at least one safe cell however many mines are asked for', () => {
+    const board = createBoard('EASY', { width: 4, height: 4, mines: 99, seed: 'full' });
+    expect(board.bombCount).toBe(15);
+    expect(revealCell(board, 0).outcome).toBe('won');
+  });
+});
+
+describe('seeds', () => {
+  it('give the same board for the same first click', () => {
+    const first = revealCell(createBoard('MEDIUM', { seed: 'same' }), 12).board;
+    const second = revealCell(createBoard('MEDIUM', { seed: 'same' }), 12).board;
+    expect(second.cells).toEqual(first.cells);
+  });
+
+  it('are case-insensitive and ignore surrounding spaces', () => {
+    const first = revealCell(createBoard('MEDIUM', { seed: 'Shared' }), 12).board;
+    const second = revealCell(createBoard('MEDIUM', { seed: ' shared ' }), 12).board;
+    expect(second.seed).toBe('shared');
+    expect(mineIndices(second)).toEqual(mineIndices(first));
+  });
+
+  it('give different boards for different seeds', () => {
+    const first = revealCell(createBoard('MEDIUM', { seed: 'one' }), 12).board;
+    const second = revealCell(createBoard('MEDIUM', { seed: 'two' }), 12).board;
+    expect(mineIndices(second)).not.toEqual(mineIndices(first));
+  });
+});
+
+describe('moves', () => {
+  it('reject flagged cells and moves after the game is over', () => {
+    const board = createBoard('MEDIUM', { seed: 'flags' });
+    const flagged = toggleFlag(board, 0).board;
+    expect(revealCell(flagged, 0).changed).toBe(false);
+
+    const { board: started } = revealCell(board, 55);
+    const mine = mineIndices(started)[0];
+    const { board: lost, outcome } = revealCell(started, mine);
+    expect(outcome).toBe('lost');
+    expect(checkOutcome(lost)).toBe('lost');
+    expect(revealCell(lost, 55).changed).toBe(false);
+  });
+
+  it('win once every safe cell is revealed', () => {
+    const { board } = revealCell(createBoard('EASY', { seed: 'win' }), 0);
+    const cleared = board.cells.reduce(
+      (current, cell, index) => (cell.type === CELL_TYPES.BOMB ? current : revealCell(current, index).board),
+      board
+    );
+    expect(checkOutcome(cleared)).toBe('won');
+  });
+
+  it('chord a number once its flags are placed', () => {
+    const { board } = revealCell(createBoard('MEDIUM', { seed: 'chord' }), 0);
+    const number = board.cells.findIndex(
+      (cell, index) =>
+        cell.revealed &&
+        cell.type === CELL_TYPES.NUMBER &&
+        neighbours(board, index).some(n => !board.cells[n].revealed && board.cells[n].type !== CELL_TYPES.BOMB)
+    );
+    expect(number).toBeGreaterThanOrEqual(0);
+    expect(chordCell(board, number).changed).toBe(false);
+
+    const flagged = neighbours(board, number)
+      .filter(n => board.cells[n].type === CELL_TYPES.BOMB)
+      .reduce((current, n) => toggleFlag(current, n).board, board);
+    const { changed, outcome } = chordCell(flagged, number);
+    expect(changed).toBe(true);
+    expect(outcome).not.toBe('lost');
+  });
+});
@@ -0,0 +1,335 @@
+// Headless Crossmines engine shared by the custom post and the comment commands.
+// Every operation is pure: it takes a board and returns a new one, never touching Devvit.
+import {
+  CELL_TYPES,
+  Cell,
+  CellType,
+  TOPOLOGIES,
+  Topology,
+  VARIANTS,
+  Variant,
+  isTopology,
+  isVariant,
+  neighbours,
+} from './grid.js';
+import { createRandom, generateSeed, normalizeSeed } from './random.js';
+import { isNoGuess } from './solver.js';
+
+export { CELL_TYPES, TOPOLOGIES, VARIANTS, isTopology, isVariant, neighbours };
+export type { Cell, CellType, Topology, Variant };
+
+export type Difficulty = 'EASY' | 'MEDIUM' | 'HARD' | 'BEGINNER' | 'INTERMEDIATE' | 'EXPERT';
+
+export type DifficultySettings = {
+  name: string;
+  description: string;
+  // How many rings an empty cell floods out to (Infinity for a full flood fill)
+  depth: number;
+  scoreMultiplier: number;
+  // Either a share of the cells on a board sized on the setup page...
+  bombPercentage?: number;
+  // ...or a fixed classic layout
+  preset?: { width: number; height: number; mines: number };
+};
+
+// Game difficulty levels
+export const DIFFICULTY: Record<Difficulty, DifficultySettings> = {
+  EASY: { name: 'Easy', description: 'Fewer bombs (10%), deeper reveals', bombPercentage: 0.1, depth: 2, scoreMultiplier: 1 },
+  MEDIUM: { name: 'Medium', description: 'Medium bombs (15%)', bombPercentage: 0.15, depth: 1, scoreMultiplier: 1.5 },
+  HARD: { name: 'Hard', description: 'More bombs (20%), challenging!', bombPercentage: 0.2, depth: 1, scoreMultiplier: 2 },
+  BEGINNER: {
+    name: 'Beginner',
+    description: 'Classic 9×9 with 10 bombs',
+    preset: { width: 9, height: 9, mines: 10 },
+    depth: Infinity,
+    scoreMultiplier: 1,
+  },
+  INTERMEDIATE: {
+    name: 'Intermediate',
+    description: 'Classic 16×16 with 40 bombs',
+    preset: { width: 16, height: 16, mines: 40 },
+    depth: Infinity,
+    scoreMultiplier: 1.5,
+  },
+  EXPERT: {
+    name: 'Expert',
+    description: 'Classic 30×16 with 99 bombs',
+    preset: { width: 30, height: 16, mines: 99 },
+    depth: Infinity,
+    scoreMultiplier: 2,
+  },
+};
+
+export type Board = {
+  // Seed the mines were placed from; the same seed and settings give the same board
+  seed: string;
+  width: number;
+  height: number;
+  // How cells connect: the classic square grid, a wrap-around torus or hexagons
+  topology: Topology;
+  // Which cells the numbers count and whether they tell the truth
+  variant: Variant;
+  difficulty: Difficulty;
+  bombCount: number;
+  // Keep every neighbour of the first click clear, not just the clicked cell
+  opening: boolean;
+  // Regenerate until the board can be cleared by logic alone from the first click.
+  // Cleared again if no such board turns up within NO_GUESS_ATTEMPTS.
+  noGuess: boolean;
+  // Mines are only placed on the first reveal so the first click is always safe
+  minesPlaced: boolean;
+  cells: Cell[];
+};
+
+export type BoardOptions = {
+  // Board size and mine count; presets fix these, otherwise size defaults to 10x10
+  // and mines to the difficulty's share of the cells
+  width?: number;
+  height?: number;
+  mines?: number;
+  topology?: Topology;
+  variant?: Variant;
+  seed?: string;
+  opening?: boolean;
+  noGuess?: boolean;
+};
+
+// How many candidate layouts a no-guess board may try before settling for a regular one
+export const NO_GUESS_ATTEMPTS = 50;
+
+export type Outcome = 'playing' | 'won' | 'lost';
+
+export type MoveResult = {
+  board: Board;
+  outcome: Outcome;
+  // Indices opened by this move, in reveal order
+  revealed: number[];
+  // False when the move was rejected (already revealed, flagged, game over...)
+  changed: boolean;
+};
+
+export const isDifficulty = (value: string): value is Difficulty =>
+  Object.prototype.hasOwnProperty.call(DIFFICULTY, value);
+
+export const bombCountFor = (width: number, height: number, difficulty: Difficulty) =>
+  DIFFICULTY[difficulty].preset?.mines ?? Math.floor(width * height * (DIFFICULTY[difficulty].bombPercentage ?? 0));
+
+// Create an empty board; mines are placed lazily by the first revealCell
+export const createBoard = (
+  difficulty: Difficulty,
+  {
+    width,
+    height,
+    mines,
+    topology = 'square',
+    variant = 'classic',
+    seed = generateSeed(),
+    opening = false,
+    noGuess = false,
+  }: BoardOptions = {}
+): Board => {
+  const preset = DIFFICULTY[difficulty].preset;
+  const boardWidth = preset?.width ?? width ?? 10;
+  const boardHeight = preset?.height ?? height ?? 10;
+  const totalCells = boardWidth * boardHeight;
+
+  // Leave at least one safe cell for the first click
+  const bombCount = Math.max(0, Math.min(mines ?? bombCountFor(boardWidth, boardHeight, difficulty), totalCells - 1));
+
+  return {
+    seed: normalizeSeed(seed),
+    width: boardWidth,
+    height: boardHeight,
+    topology,
+    // Hex cells have no diagonals or knight moves, so only the liar rule changes them
+    variant: topology === 'hex' && VARIANTS[variant].ring !== VARIANTS.classic.ring ? 'classic' : variant,
+    difficulty,
+    bombCount,
+    // A no-guess board needs an opening to have anything to deduce from
+    opening: opening || noGuess,
+    noGuess,
+    minesPlaced: false,
+    cells: Array.from({ length: totalCells }, () => ({
+      type: CELL_TYPES.EMPTY,
+      value: 0,
+      revealed: false,
+      flagged: false,
+    })),
+  };
+};
+
+// Place the mines around a first click and compute the numbers.
+// The seed fixes a shuffled order of cells and mines fill that order, skipping the safe zone,
+// so replaying a seed gives the same board apart from the area around the first click.
+// Later attempts (for no-guess boards) derive their own sequence from the same seed.
+export const placeMines = (board: Board, safeIndex: number, attempt = 0): Board => {
+  const { bombCount } = board;
+  const totalCells = board.width * board.height;
+  const random = createRandom(attempt === 0 ? board.seed : `${board.seed}#${attempt}`);
+
+  // Fall back to a single safe cell when an opening would leave no room for the mines
+  const opening = [safeIndex, ...neighbours(board, safeIndex)];
+  const safeZone = board.opening && totalCells - opening.length >= bombCount ? opening : [safeIndex];
+
+  // Fisher-Yates shuffle of every cell index
+  const order = Array.from({ length: totalCells }, (_, i) => i);
+  for (let i = totalCells - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+
+  const cells = board.cells.map(cell => ({ ...cell, type: CELL_TYPES.EMPTY as CellType, value: 0 }));
+  order
+    .filter(index => !safeZone.includes(index))
+    .slice(0, bombCount)
+    .forEach(index => {
+      cells[index].type = CELL_TYPES.BOMB;
+    });
+
+  // Calculate numbers for adjacent bombs
+  const { lies } = VARIANTS[board.variant];
+  for (let i = 0; i < totalCells; i++) {
+    if (cells[i].type === CELL_TYPES.BOMB) continue;
+
+    const around = neighbours(board, i);
+    const adjacentBombs = around.filter(n => cells[n].type === CELL_TYPES.BOMB).length;
+    if (lies) {
+      // Shift every count by one, staying within what the cell could really touch.
+      // Even a shown 0 is a number here: flooding from it would give away the truth.
+      const shift = adjacentBombs === 0 ? 1 : adjacentBombs === around.length ? -1 : random() < 0.5 ? -1 : 1;
+      cells[i].type = CELL_TYPES.NUMBER;
+      cells[i].value = adjacentBombs + shift;
+    } else if (adjacentBombs > 0) {
+      cells[i].type = CELL_TYPES.NUMBER;
+      cells[i].value = adjacentBombs;
+    }
+  }
+
+  return { ...board, minesPlaced: true, cells };
+};
+
+// Try seeded layouts until the solver clears one without guessing,
+// falling back to the first layout (with noGuess cleared) when the budget runs out
+const placeNoGuessMines = (board: Board, safeIndex: number): Board => {
+  for (let attempt = 0; attempt < NO_GUESS_ATTEMPTS; attempt++) {
+    const candidate = placeMines(board, safeIndex, attempt);
+    if (isNoGuess(candidate, safeIndex)) return candidate;
+  }
+  return { ...placeMines(board, safeIndex), noGuess: false };
+};
+
+const placeMinesFor = (board: Board, safeIndex: number) =>
+  board.noGuess ? placeNoGuessMines(board, safeIndex) : placeMines(board, safeIndex);
+
+// True when a no-guess board had to fall back to a regular layout on this move
+export const lostNoGuess = (before: Board, after: Board) =>
+  !before.minesPlaced && after.minesPlaced && before.noGuess && !after.noGuess;
+
+export const countRevealed = (board: Board) =>
+  board.cells.filter(cell => cell.revealed && cell.type !== CELL_TYPES.BOMB).length;
+
+export const countFlags = (board: Board) => board.cells.filter(cell => cell.flagged).length;
+
+export const safeCellCount = (board: Board) => board.cells.length - board.bombCount;
+
+export const checkOutcome = (board: Board): Outcome => {
+  if (board.cells.some(cell => cell.revealed && cell.type === CELL_TYPES.BOMB)) return 'lost';
+  return countRevealed(board) === safeCellCount(board) ? 'won' : 'playing';
+};
+
+const copyCells = (board: Board) => board.cells.map(cell => ({ ...cell }));
+
+const unchanged = (board: Board): MoveResult => ({
+  board,
+  outcome: checkOutcome(board),
+  revealed: [],
+  changed: false,
+});
+
+// Open a set of cells at once, flooding out from empty cells up to the difficulty's depth
+const openCells = (board: Board, indices: number[]): MoveResult => {
+  const cells = copyCells(board);
+  const depth = DIFFICULTY[board.difficulty].depth;
+  const revealed: number[] = [];
+  const queue = indices.map(index => ({ index, level: 0 }));
+
+  while (queue.length > 0) {
+    const { index, level } = queue.shift()!;
+    const cell = cells[index];
+    if (cell.revealed || cell.flagged) continue;
+
+    cell.revealed = true;
+    revealed.push(index);
+
+    if (cell.type === CELL_TYPES.EMPTY && level < depth) {
+      neighbours(board, index).forEach(n => queue.push({ index: n, level: level + 1 }));
+    }
+  }
+
+  // Reveal all bombs once one goes off
+  const exploded = revealed.some(index => cells[index].type === CELL_TYPES.BOMB);
+  if (exploded) {
+    cells.forEach(cell => {
+      if (cell.type === CELL_TYPES.BOMB) cell.revealed = true;
+    });
+  }
+
+  const next = { ...board, cells };
+  return { board: next, outcome: checkOutcome(next), revealed, changed: revealed.length > 0 };
+};
+
+export const revealCell = (board: Board, index: number): MoveResult => {
+  const cell = board.cells[index];
+  if (!cell || cell.revealed || cell.flagged || checkOutcome(board) !== 'playing') {
+    return unchanged(board);
+  }
+  return openCells(board.minesPlaced ? board : placeMinesFor(board, index), [index]);
+};
+
+export const toggleFlag = (board: Board, index: number): MoveResult => {
+  const cell = board.cells[index];
+  if (!cell || cell.revealed || checkOutcome(board) !== 'playing') {
+    return unchanged(board);
+  }
+
+  const cells = copyCells(board);
+  cells[index].flagged = !cells[index].flagged;
+
+  const next = { ...board, cells };
+  return { board: next, outcome: checkOutcome(next), revealed: [], changed: true };
+};
+
+// Open every unflagged neighbour of a revealed number whose flags are all placed.
+// Liar numbers never match their flags, so they can't be chorded.
+export const chordCell = (board: Board, index: number): MoveResult => {
+  const cell = board.cells[index];
+  if (!cell || !cell.revealed || cell.type !== CELL_TYPES.NUMBER || checkOutcome(board) !== 'playing') {
+    return unchanged(board);
+  }
+  if (VARIANTS[board.variant].lies) return unchanged(board);
+
+  const around = neighbours(board, index);
+  const flags = around.filter(n => board.cells[n].flagged).length;
+  if (flags !== cell.value) return unchanged(board);
+
+  const targets = around.filter(n => !board.cells[n].revealed && !board.cells[n].flagged);
+  if (targets.length === 0) return unchanged(board);
+
+  return openCells(board, targets);
+};
+
+// A tap on a cell, as the player meant it when they made it
+export type CellAction = 'reveal' | 'flag' | 'chord';
+
+// Play a tap on a board that may have changed since the player saw it, e.g. a shared one.
+// A cell revealed meanwhile isn't chorded by a tap meant to reveal it.
+export const actOnCell = (board: Board, action: CellAction, index: number): MoveResult => {
+  if (action === 'flag') return toggleFlag(board, index);
+  if (action === 'chord') return chordCell(board, index);
+  return revealCell(board, index);
+};
+
+export const calculateScore = (board: Board, seconds: number) => {
+  const multiplier = DIFFICULTY[board.difficulty].scoreMultiplier;
+  return Math.floor((safeCellCount(board) * 10 * multiplier) / (seconds / 60 + 1));
+};
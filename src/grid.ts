@@ -0,0 +1,115 @@
+// Cell primitives and grid adjacency shared by the engine and the solver
+
+// Cell types
+export const CELL_TYPES = {
+  EMPTY: 0,
+  BOMB: 1,
+  NUMBER: 2,
+} as const;
+
+export type CellType = typeof CELL_TYPES[keyof typeof CELL_TYPES];
+
+export type Cell = {
+  type: CellType;
+  value: number;
+  revealed: boolean;
+  flagged: boolean;
+};
+
+export type Topology = 'square' | 'torus' | 'hex';
+
+export type Variant = 'classic' | 'cross' | 'knight' | 'liar';
+
+// Dimensions of a board; cells are stored row by row
+export type GridShape = {
+  width: number;
+  height: number;
+  topology?: Topology;
+  variant?: Variant;
+};
+
+type TopologySettings = {
+  name: string;
+  description: string;
+  // Row/column offsets of the neighbours of a cell in the given row,
+  // given the square-cell neighbourhood of the rule variant
+  offsets: (row: number, ring: [number, number][]) => [number, number][];
+  // Whether offsets that fall off one edge come back in on the opposite one
+  wraps: boolean;
+};
+
+const RING: [number, number][] = [
+  [-1, -1], [-1, 0], [-1, 1],
+  [0, -1], [0, 1],
+  [1, -1], [1, 0], [1, 1],
+];
+
+const CROSS: [number, number][] = [[-1, 0], [0, -1], [0, 1], [1, 0]];
+
+const KNIGHT: [number, number][] = [
+  [-2, -1], [-2, 1], [-1, -2], [-1, 2],
+  [1, -2], [1, 2], [2, -1], [2, 1],
+];
+
+// Hex cells use "odd-r" offset coordinates: odd rows sit half a cell to the right
+const HEX_EVEN_ROW: [number, number][] = [[-1, -1], [-1, 0], [0, -1], [0, 1], [1, -1], [1, 0]];
+const HEX_ODD_ROW: [number, number][] = [[-1, 0], [-1, 1], [0, -1], [0, 1], [1, 0], [1, 1]];
+
+// Board topologies
+export const TOPOLOGIES: Record<Topology, TopologySettings> = {
+  square: { name: 'Square', description: 'Classic grid, 8 neighbours', offsets: (_, ring) => ring, wraps: false },
+  torus: { name: 'Torus', description: 'Edges wrap around to the other side', offsets: (_, ring) => ring, wraps: true },
+  hex: {
+    name: 'Hex',
+    description: 'Hexagonal cells with 6 neighbours',
+    offsets: row => (row % 2 === 0 ? HEX_EVEN_ROW : HEX_ODD_ROW),
+    wraps: false,
+  },
+};
+
+export const isTopology = (value: string): value is Topology =>
+  Object.prototype.hasOwnProperty.call(TOPOLOGIES, value);
+
+type VariantSettings = {
+  name: string;
+  description: string;
+  // Which cells a number counts on square cells; hex boards always count their six neighbours
+  ring: [number, number][];
+  // Every number is shown exactly one more or one less than the real count
+  lies: boolean;
+};
+
+// Rule variants: how numbers are counted and shown
+export const VARIANTS: Record<Variant, VariantSettings> = {
+  classic: { name: 'Classic', description: 'Numbers count all 8 surrounding cells', ring: RING, lies: false },
+  cross: { name: 'Cross', description: 'Numbers only count the 4 cells in line with them', ring: CROSS, lies: false },
+  knight: { name: 'Knight', description: "Numbers count the cells a chess knight's move away", ring: KNIGHT, lies: false },
+  liar: { name: 'Liar', description: 'Every number is off by exactly one', ring: RING, lies: true },
+};
+
+export const isVariant = (value: string): value is Variant =>
+  Object.prototype.hasOwnProperty.call(VARIANTS, value);
+
+// Indices of the cells around index under the board's topology and rule variant
+export const neighbours = ({ width, height, topology = 'square', variant = 'classic' }: GridShape, index: number) => {
+  const { offsets, wraps } = TOPOLOGIES[topology];
+  const row = Math.floor(index / width);
+  const col = index % width;
+  const result = new Set<number>();
+
+  offsets(row, VARIANTS[variant].ring).forEach(([r, c]) => {
+    let newRow = row + r;
+    let newCol = col + c;
+    if (wraps) {
+      newRow = (newRow + height) % height;
+      newCol = (newCol + width) % width;
+    }
+
+    if (newRow >= 0 && newRow < height && newCol >= 0 && newCol < width) {
+      const neighbour = newRow * width + newCol;
+      // Tiny wrapped boards can reach a cell twice, or loop back to themselves
+      if (neighbour !== index) result.add(neighbour);
+    }
+  });
+  return [...result];
+};
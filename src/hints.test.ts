@@ -0,0 +1,30 @@
+import { CELL_TYPES, createBoard, revealCell, toggleFlag } from './engine.js';
+import { findHint } from './hints.js';
+
+describe('hints', () => {
+  it('start in the centre before the first reveal', () => {
+    const hint = findHint(createBoard('EASY', { width: 9, height: 9, seed: 'start' }));
+    expect(hint).toMatchObject({ index: 40, action: 'reveal', forced: true });
+  });
+
+  it('start next to the centre when it is flagged', () => {
+    const board = toggleFlag(createBoard('EASY', { width: 9, height: 9, seed: 'start' }), 40).board;
+    const hint = findHint(board);
+    expect(hint?.index).not.toBe(40);
+    expect([31, 39, 41, 49]).toContain(hint?.index);
+  });
+
+  it('only force moves that are true of the board, and explain them', () => {
+    const { board } = revealCell(createBoard('MEDIUM', { seed: 'hint', opening: true }), 55);
+    const hint = findHint(board);
+    expect(hint?.forced).toBe(true);
+    expect(board.cells[hint!.index].type === CELL_TYPES.BOMB).toBe(hint?.action === 'flag');
+    expect(hint?.explanation).toMatch(/^[A-Z].*\.$/);
+  });
+
+  it('give none once the game is over', () => {
+    const { board } = revealCell(createBoard('EASY', { seed: 'over' }), 0);
+    const mine = board.cells.findIndex(cell => cell.type === CELL_TYPES.BOMB);
+    expect(findHint(revealCell(board, mine).board)).toBeNull();
+  });
+});
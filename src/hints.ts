@@ -0,0 +1,123 @@
+// Hints that point at the next logical move and explain why it's forced
+import { CELL_TYPES, VARIANTS, neighbours } from './grid.js';
+import { Deduction, estimateMineChances, findDeductions } from './solver.js';
+import { Board, checkOutcome } from './engine.js';
+
+export type Hint = {
+  index: number;
+  action: 'reveal' | 'flag';
+  // False when nothing can be deduced and the hint is only the least risky guess
+  forced: boolean;
+  explanation: string;
+};
+
+const NUMBER_WORDS = ['no', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight'];
+
+const sentence = (text: string) => `${text.charAt(0).toUpperCase()}${text.slice(1)}.`;
+
+const count = (n: number, noun: string) =>
+  `${NUMBER_WORDS[n] ?? n} ${noun}${n === 1 ? '' : 's'}`;
+
+// 1-based (row,col), matching the comment commands
+export const cellLabel = (board: Board, index: number) =>
+  `(${Math.floor(index / board.width) + 1},${(index % board.width) + 1})`;
+
+const numberAt = (board: Board, index: number) => {
+  const cell = board.cells[index];
+  return cell.type === CELL_TYPES.NUMBER
+    ? `the ${cell.value} at ${cellLabel(board, index)}`
+    : `the empty cell at ${cellLabel(board, index)}`;
+};
+
+// What a liar number can really mean, e.g. "one or three bombs"
+const liarReadings = (board: Board, index: number) => {
+  const shown = board.cells[index].value;
+  const around = neighbours(board, index).length;
+  const [first, second] = [shown - 1, shown + 1].filter(n => n >= 0 && n <= around);
+  return second === undefined
+    ? `exactly ${count(first, 'bomb')}`
+    : `${first === 0 ? 'zero' : NUMBER_WORDS[first] ?? first} or ${count(second, 'bomb')}`;
+};
+
+const explain = (board: Board, deduction: Deduction, flags: ReadonlySet<number>) => {
+  const { index, mine, rule, source, other } = deduction;
+  const target = cellLabel(board, index);
+  const verdict = mine ? `${target} must be a bomb` : `${target} is safe`;
+
+  if (VARIANTS[board.variant].lies && source !== undefined) {
+    const reading = `${numberAt(board, source)} really means ${liarReadings(board, source)}`;
+    return other === undefined
+      ? `${reading}, and either way ${verdict}`
+      : `${reading} and ${numberAt(board, other)} means ${liarReadings(board, other)}; either way ${verdict}`;
+  }
+
+  if (rule === 'single' && source !== undefined) {
+    const around = neighbours(board, source);
+    const flagged = around.filter(n => flags.has(n)).length;
+    const hidden = around.filter(n => !board.cells[n].revealed && !flags.has(n)).length;
+    const needed = board.cells[source].value - flagged;
+
+    if (!mine && flagged === 0) return `${numberAt(board, source)} has no bombs around it, so ${verdict}`;
+    if (!mine) return `${numberAt(board, source)} already touches ${count(flagged, 'flag')}, so ${verdict}`;
+    return `${numberAt(board, source)} still needs ${count(needed, 'bomb')} and has only ${count(hidden, 'hidden cell')} left, so ${verdict}`;
+  }
+
+  if (rule === 'subset' && source !== undefined && other !== undefined) {
+    const shared = `the cells it shares with ${numberAt(board, other)}`;
+    return mine
+      ? `${numberAt(board, source)} needs more bombs than ${shared} can hold, so ${verdict}`
+      : `every bomb ${numberAt(board, source)} still needs is among ${shared}, so ${verdict}`;
+  }
+
+  return mine
+    ? `the hidden cells left exactly match the bombs left, so ${verdict}`
+    : `every bomb is already flagged, so ${verdict}`;
+};
+
+// The cell among the given ones closest to a row and column
+const nearest = (board: Board, cells: number[], row: number, col: number) => {
+  const distance = (index: number) => (Math.floor(index / board.width) - row) ** 2 + ((index % board.width) - col) ** 2;
+  return cells.reduce((best, index) => (distance(index) < distance(best) ? index : best));
+};
+
+// The next move a player can justify from the numbers and their flags, or the least risky guess
+export const findHint = (board: Board): Hint | null => {
+  const hidden = board.cells.map((_, index) => index).filter(index => !board.cells[index].revealed && !board.cells[index].flagged);
+  if (hidden.length === 0 || checkOutcome(board) !== 'playing') return null;
+
+  // Before the first reveal there is nothing to deduce, but the first tap is always safe.
+  // The centre is suggested, or the unflagged cell nearest it.
+  if (!board.minesPlaced) {
+    const start = nearest(board, hidden, Math.floor(board.height / 2), Math.floor(board.width / 2));
+    return {
+      index: start,
+      action: 'reveal',
+      forced: true,
+      explanation: sentence(`your first reveal is always safe, so start anywhere - ${cellLabel(board, start)} is a good spot`),
+    };
+  }
+
+  const flags = new Set(board.cells.map((_, index) => index).filter(index => board.cells[index].flagged));
+  const deductions = findDeductions(board, flags).filter(d => !board.cells[d.index].flagged);
+  const deduction = deductions.find(d => !d.mine) || deductions[0];
+  if (deduction) {
+    return {
+      index: deduction.index,
+      action: deduction.mine ? 'flag' : 'reveal',
+      forced: true,
+      explanation: sentence(explain(board, deduction, flags)),
+    };
+  }
+
+  // No deduction: suggest the hidden cell least likely to be a bomb
+  const chances = estimateMineChances(board, flags);
+  const [index, chance] = [...chances.entries()]
+    .filter(([i]) => !board.cells[i].flagged)
+    .sort((a, b) => a[1] - b[1])[0] ?? [hidden[0], 0];
+  return {
+    index,
+    action: 'reveal',
+    forced: false,
+    explanation: sentence(`nothing can be deduced from the numbers right now. ${cellLabel(board, index)} looks least risky, with roughly a ${Math.round(chance * 100)}% chance of a bomb`),
+  };
+};
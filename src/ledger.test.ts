@@ -0,0 +1,131 @@
+import { GameEvent, GameOutcomeEvent, replayLedger } from './ledger.js';
+import { seasonPeriod, standingsPeriod } from './standings.js';
+import { GameRecord } from './stats.js';
+
+const NOW = Date.parse('2026-10-14T12:00:00Z');
+const DAY = 24 * 60 * 60 * 1000;
+const season = { number: 3, startedAt: NOW - 10 * DAY };
+
+const record = (result: GameRecord['result'], time: number, finishedAt = NOW): GameRecord => ({
+  finishedAt,
+  result,
+  difficulty: 'EASY',
+  variant: 'classic',
+  topology: 'square',
+  width: 10,
+  height: 10,
+  time,
+  moves: 12,
+  revealed: 90,
+  flags: 2,
+  correctFlags: 2,
+});
+
+const outcome = (result: GameRecord['result'], time: number, at: number, username: string | null = 'alice'): GameOutcomeEvent => ({
+  type: result,
+  gameId: `post:t2_a:${at}`,
+  at,
+  postId: 'post',
+  userId: 't2_a',
+  username,
+  season: season.number,
+  points: result === 'won' && username !== null ? 100 : 0,
+  record: record(result, time, at),
+});
+
+describe('ledger replay', () => {
+  it('adds up post counters, stats, best times and standings from outcomes', () => {
+    const events: GameEvent[] = [
+      { type: 'started', gameId: 'post:t2_a:1', at: NOW - 20 * DAY, postId: 'post', userId: 't2_a' },
+      { ...outcome('won', 40, NOW - 20 * DAY), season: 2 },
+      outcome('lost', 10, NOW - DAY),
+      outcome('won', 30, NOW),
+    ];
+    const { posts, players, standings } = replayLedger(events, season, NOW);
+
+    expect(posts.post.players.t2_a).toMatchObject({ played: 3, won: 2, scores: { classic: 200 } });
+    expect(posts.post.best.EASY).toEqual({ time: 30, revealed: 90, username: 'alice' });
+    expect(players.t2_a.stats).toMatchObject({ games: 3, wins: 2, currentStreak: 1, longestStreak: 1 });
+    expect(players.t2_a.history.map(game => game.time)).toEqual([30, 10, 40]);
+    expect(standings.all.scores.classic).toEqual({ t2_a: 200 });
+    // The first win was in an earlier week and season
+    expect(standings[standingsPeriod('week', NOW)].wins.classic).toEqual({ t2_a: 1 });
+    expect(standings[seasonPeriod(season.number)].wins.classic).toEqual({ t2_a: 1 });
+  });
+
+  it("keeps games of players who didn't join the post out of its counters", () => {
+    const { posts, players } = replayLedger([outcome('won', 30, NOW, null)], season, NOW);
+    expect(posts.post.players).toEqual({});
+    expect(posts.post.best.EASY).toEqual({ time: 30, revealed: 90 });
+    expect(players.t2_a.stats.wins).toBe(1);
+  });
+
+  it('counts daily attempts in stats and the daily streak', () => {
+    const daily = (date: string, result: 'won' | 'lost'): GameEvent => ({
+      type: 'daily',
+      gameId: `daily:${date}:t2_a`,
+      at: Date.parse(`${date}T12:00:00Z`),
+      postId: 'post',
+      userId: 't2_a',
+      date,
+      record: record(result, 60),
+    });
+    const { players, dailyStreaks, posts } = replayLedger(
+      [daily('2026-10-11', 'won'), daily('2026-10-12', 'won'), daily('2026-10-13', 'lost'), daily('2026-10-14', 'won')],
+      season,
+      NOW
+    );
+    expect(players.t2_a.stats).toMatchObject({ games: 4, wins: 3 });
+    expect(players.t2_a.history).toHaveLength(4);
+    expect(dailyStreaks.t2_a).toEqual({ current: 1, best: 2, lastWon: '2026-10-14' });
+    expect(posts).toEqual({});
+  });
+
+  it('counts races, hot potato games and tournament matches as matches', () => {
+    const alice = { userId: 't2_a', username: 'alice' };
+    const bob = { userId: 't2_b', username: 'bob' };
+    const carol = { userId: 't2_c', username: 'carol' };
+    const { players } = replayLedger(
+      [
+        { type: 'race', gameId: 'race', at: NOW, postId: 'post', players: [alice, bob], winner: 't2_b' },
+        { type: 'potato', gameId: 'potato', at: NOW, postId: 'post', players: [alice, bob, carol], winner: 't2_a' },
+        {
+          type: 'tournament',
+          gameId: 'tournament',
+          at: NOW,
+          postId: 'post',
+          round: 1,
+          matches: [
+            { players: ['t2_c'], winner: 't2_c' },
+            { players: ['t2_a', 't2_b'], winner: 't2_a' },
+          ],
+        },
+      ],
+      season,
+      NOW
+    );
+    expect(players.t2_a.stats).toMatchObject({ matches: 3, matchesWon: 2, games: 0 });
+    expect(players.t2_b.stats).toMatchObject({ matches: 3, matchesWon: 1 });
+    // A bye isn't a match
+    expect(players.t2_c.stats).toMatchObject({ matches: 1, matchesWon: 0 });
+  });
+
+  it('carries imported post counters over', () => {
+    const { posts } = replayLedger(
+      [
+        {
+          type: 'imported',
+          at: 0,
+          postId: 'post',
+          players: [{ userId: 't2_a', username: 'alice', played: 5, won: 2, scores: { classic: 50, liar: 20 } }],
+          bestScore: { HARD: { time: 99, revealed: 80 } },
+        },
+        outcome('won', 30, NOW),
+      ],
+      season,
+      NOW
+    );
+    expect(posts.post.players.t2_a).toMatchObject({ played: 6, won: 3, scores: { classic: 150, liar: 20 } });
+    expect(posts.post.best).toMatchObject({ HARD: { time: 99, revealed: 80 }, EASY: { time: 30 } });
+  });
+});
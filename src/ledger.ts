@@ -0,0 +1,269 @@
+// The game ledger: every game's start and outcome, written once as an immutable event.
+// Post counters, best times, player stats, streaks and standings are projections of it,
+// so an outcome reported twice only counts once and all of them can be rebuilt by replaying it.
+import { CoopTally, addCoopGame, emptyCoopTally } from './coop.js';
+import { DailyStreak, emptyDailyStreak, updateDailyStreak } from './daily.js';
+import { Variant } from './engine.js';
+import { PotatoPlayer } from './potato.js';
+import { RaceEntrant } from './race.js';
+import { BestScore, bestScoreKey } from './schema.js';
+import { Season, seasonPeriod, standingsPeriod } from './standings.js';
+import { GameRecord, GameResult, HISTORY_SIZE, PlayerStats, addGameRecord, addMatch, emptyStats } from './stats.js';
+import { TournamentMatch } from './tournament.js';
+
+// Written as a game is first saved. Nothing is counted from it: a game counts once it ends.
+export type GameStartedEvent = {
+  type: 'started';
+  gameId: string;
+  at: number;
+  postId: string;
+  userId: string;
+};
+
+export type GameOutcomeEvent = {
+  type: GameResult;
+  gameId: string;
+  at: number;
+  postId: string;
+  userId: string;
+  // The player's name in the post when they had joined it; only joined players score points
+  username: string | null;
+  // The leaderboard season the game ended in
+  season: number;
+  // Points for a win by a joined player, otherwise 0
+  points: number;
+  record: GameRecord;
+};
+
+// A post's counters from before the ledger, carried over when the post was upgraded to it
+export type PostImportedEvent = {
+  type: 'imported';
+  at: number;
+  postId: string;
+  players: PostTally[];
+  bestScore: Record<string, BestScore>;
+};
+
+// A finished co-op board; it counts towards the post's co-op record rather than anyone's own stats
+export type CoopOutcomeEvent = {
+  type: 'coop';
+  gameId: string;
+  at: number;
+  postId: string;
+  openedBy: Record<string, string>;
+  players: Record<string, string>;
+  lostBy: string | null;
+  record: GameRecord;
+};
+
+// A finished versus race, counted as a match for both players; winner is null for a draw
+export type RaceOutcomeEvent = {
+  type: 'race';
+  gameId: string;
+  at: number;
+  postId: string;
+  players: RaceEntrant[];
+  winner: string | null;
+};
+
+// A finished Daily Challenge attempt; it counts towards the player's stats and their daily streak
+export type DailyOutcomeEvent = {
+  type: 'daily';
+  gameId: string;
+  at: number;
+  postId: string;
+  userId: string;
+  date: string;
+  record: GameRecord;
+};
+
+// A hot potato game that was played out, counted as a match for everyone who signed up;
+// the last one standing wins it
+export type PotatoOutcomeEvent = {
+  type: 'potato';
+  gameId: string;
+  at: number;
+  postId: string;
+  players: PotatoPlayer[];
+  winner: string | null;
+};
+
+// A closed tournament round, each of its matches counted for both players; byes don't count
+export type TournamentRoundEvent = {
+  type: 'tournament';
+  gameId: string;
+  at: number;
+  postId: string;
+  round: number;
+  matches: TournamentMatch[];
+};
+
+export type GameEvent =
+  | GameStartedEvent
+  | GameOutcomeEvent
+  | PostImportedEvent
+  | CoopOutcomeEvent
+  | RaceOutcomeEvent
+  | DailyOutcomeEvent
+  | PotatoOutcomeEvent
+  | TournamentRoundEvent;
+
+// Events that count as matches between players rather than as games of their own
+export type MatchEvent = RaceOutcomeEvent | PotatoOutcomeEvent | TournamentRoundEvent;
+
+// A joined player's counters in one post
+export type PostTally = {
+  userId: string;
+  username: string;
+  played: number;
+  won: number;
+  scores: Partial<Record<Variant, number>>;
+};
+
+// A game is known by its post, player and start time, so the post and comments agree on it
+export const gameId = (postId: string, userId: string, startedAt: number) => `${postId}:${userId}:${startedAt}`;
+
+export const coopGameId = (postId: string, startedAt: number) => `${postId}:coop:${startedAt}`;
+
+export const dailyGameId = (date: string, userId: string) => `daily:${date}:${userId}`;
+
+export const potatoGameId = (postId: string, createdAt: number) => `${postId}:potato:${createdAt}`;
+
+export const tournamentRoundId = (postId: string, tournamentId: string, round: number) =>
+  `${postId}:tournament:${tournamentId}:${round}`;
+
+export const isOutcome = (event: GameEvent): event is GameOutcomeEvent =>
+  event.type === 'won' || event.type === 'lost' || event.type === 'abandoned';
+
+// Each player's result in the matches an event counts
+export const matchResults = (event: MatchEvent): { userId: string; won: boolean }[] =>
+  event.type === 'tournament'
+    ? event.matches
+        .filter(match => match.players.length > 1)
+        .flatMap(match => match.players.map(userId => ({ userId, won: match.winner === userId })))
+    : event.players.map(({ userId }) => ({ userId, won: event.winner === userId }));
+
+export const isBetterScore = (score: BestScore, best: BestScore | null | undefined) =>
+  !best ||
+  best.time === null ||
+  (score.time !== null && (score.time < best.time || (score.time === best.time && score.revealed > best.revealed)));
+
+// The best score a won game sets, credited to its player when they had joined the post
+export const outcomeBestScore = ({ record, username }: GameOutcomeEvent): BestScore => ({
+  time: record.time,
+  revealed: record.revealed,
+  ...(username !== null && { username }),
+});
+
+export const outcomeBestKey = ({ record }: GameOutcomeEvent) => bestScoreKey(record.difficulty, record.variant);
+
+// Everything the ledger's events add up to
+export type LedgerProjection = {
+  posts: Record<string, { players: Record<string, PostTally>; best: Record<string, BestScore>; coop: CoopTally | null }>;
+  players: Record<string, { stats: PlayerStats; history: GameRecord[] }>;
+  dailyStreaks: Record<string, DailyStreak>;
+  // Keyed by standings period, as in standingsPeriod and seasonPeriod
+  standings: Record<string, StandingsTally>;
+  usernames: Record<string, string>;
+};
+
+export type StandingsTally = {
+  scores: Partial<Record<Variant, Record<string, number>>>;
+  wins: Partial<Record<Variant, Record<string, number>>>;
+  best: Record<string, BestScore>;
+};
+
+const emptyStandings = (): StandingsTally => ({ scores: {}, wins: {}, best: {} });
+
+const keepBest = (best: Record<string, BestScore>, key: string, score: BestScore) => {
+  if (isBetterScore(score, best[key])) best[key] = score;
+};
+
+const add = (counts: Partial<Record<Variant, Record<string, number>>>, variant: Variant, userId: string, amount: number) => {
+  const byUser = (counts[variant] ??= {});
+  byUser[userId] = (byUser[userId] ?? 0) + amount;
+};
+
+// Replay events, oldest first, into the projections they add up to. Weekly and season standings
+// only cover the week and season in progress; closed seasons keep their archive.
+export const replayLedger = (events: GameEvent[], season: Season, now = Date.now()): LedgerProjection => {
+  const projection: LedgerProjection = { posts: {}, players: {}, dailyStreaks: {}, standings: {}, usernames: {} };
+  const week = standingsPeriod('week', now);
+  const post = (postId: string) => (projection.posts[postId] ??= { players: {}, best: {}, coop: null });
+  const tally = (postId: string, userId: string, username: string) =>
+    (post(postId).players[userId] ??= { userId, username, played: 0, won: 0, scores: {} });
+
+  const player = (userId: string) => (projection.players[userId] ??= { stats: emptyStats(), history: [] });
+  const addRecord = (userId: string, record: GameRecord) => {
+    const played = player(userId);
+    played.stats = addGameRecord(played.stats, record);
+    played.history = [record, ...played.history].slice(0, HISTORY_SIZE);
+  };
+
+  for (const event of events) {
+    if (event.type === 'started') continue;
+
+    if (event.type === 'imported') {
+      for (const imported of event.players) {
+        const counts = tally(event.postId, imported.userId, imported.username);
+        counts.played += imported.played;
+        counts.won += imported.won;
+        for (const [variant, score] of Object.entries(imported.scores) as [Variant, number][]) {
+          counts.scores[variant] = (counts.scores[variant] ?? 0) + score;
+        }
+      }
+      for (const [key, score] of Object.entries(event.bestScore)) keepBest(post(event.postId).best, key, score);
+      continue;
+    }
+
+    if (event.type === 'coop') {
+      const counts = post(event.postId);
+      counts.coop = addCoopGame(counts.coop ?? emptyCoopTally(), event);
+      continue;
+    }
+
+    if (event.type === 'race' || event.type === 'potato' || event.type === 'tournament') {
+      for (const { userId, won } of matchResults(event)) {
+        player(userId).stats = addMatch(player(userId).stats, won);
+      }
+      continue;
+    }
+
+    if (event.type === 'daily') {
+      const { userId, date, record } = event;
+      addRecord(userId, record);
+      projection.dailyStreaks[userId] = updateDailyStreak(
+        projection.dailyStreaks[userId] ?? emptyDailyStreak(),
+        date,
+        record.result === 'won'
+      );
+      continue;
+    }
+
+    const { record, userId, username } = event;
+    const won = event.type === 'won';
+    addRecord(userId, record);
+
+    if (won) keepBest(post(event.postId).best, outcomeBestKey(event), outcomeBestScore(event));
+    if (username === null) continue;
+
+    const counts = tally(event.postId, userId, username);
+    counts.played += 1;
+    if (!won) continue;
+
+    counts.won += 1;
+    counts.scores[record.variant] = (counts.scores[record.variant] ?? 0) + event.points;
+    projection.usernames[userId] = username;
+
+    const periods = ['all'];
+    if (standingsPeriod('week', event.at) === week) periods.push(week);
+    if (event.season === season.number) periods.push(seasonPeriod(season.number));
+    for (const period of periods) {
+      const standings = (projection.standings[period] ??= emptyStandings());
+      add(standings.scores, record.variant, userId, event.points);
+      add(standings.wins, record.variant, userId, 1);
+      keepBest(standings.best, outcomeBestKey(event), outcomeBestScore(event));
+    }
+  }
+  return projection;
+};
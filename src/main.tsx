@@ -1,8 +1,207 @@
 // Interactive BombSweeper Game for Reddit Devvit
-import {Devvit, useState, useEffect, useInterval} from '@devvit/public-api'
-
-// Game states
-type Page = 'home' | 'setup' | 'game' | 'win' | 'lose' | 'leaderboard';
+import {Devvit, useState, useEffect, useInterval, useChannel} from '@devvit/public-api'
+import type { JobContext } from '@devvit/public-api';
+import {
+  CELL_TYPES,
+  DIFFICULTY,
+  Board,
+  CellAction,
+  Difficulty,
+  MoveResult,
+  TOPOLOGIES,
+  Topology,
+  VARIANTS,
+  Variant,
+  chordCell as chordBoardCell,
+  checkOutcome,
+  countFlags,
+  countRevealed,
+  createBoard,
+  isDifficulty,
+  isTopology,
+  isVariant,
+  lostNoGuess,
+  neighbours,
+  revealCell as revealBoardCell,
+  safeCellCount,
+  toggleFlag as toggleBoardFlag,
+} from './engine.js';
+import {
+  DailyAttempt,
+  DailyResult,
+  DailyStreak,
+  applyDailyMove,
+  currentDailyStreak,
+  dailyDate,
+  dailyResult,
+  emptyDailyStreak,
+  rankDailyResults,
+  startDailyAttempt,
+} from './daily.js';
+import {
+  GameClock,
+  elapsedSeconds,
+  isPaused,
+  isRunning,
+  pauseAtLastMove,
+  pauseClock,
+  recordCommentMove,
+  recordMoveTime,
+  resumeClock,
+  startClock,
+} from './clock.js';
+import { Hint, cellLabel, findHint } from './hints.js';
+import { CoopGame, CoopTally, contributions, emptyCoopTally, newCoopGame } from './coop.js';
+import {
+  POTATO_MIN_PLAYERS,
+  POTATO_SIGNUP_MINUTES,
+  POTATO_TURN_MINUTES,
+  PotatoGame,
+  isInPotatoThread,
+  newPotatoGame,
+  potatoPlayer,
+  potatoStanding,
+} from './potato.js';
+import {
+  RACE_ACCEPT_MINUTES,
+  RACE_MINUTES,
+  Race,
+  RaceEntrant,
+  RaceSettings,
+  isEntrant,
+  newRace,
+  raceDeadline,
+  raceEntrants,
+  raceRival,
+  raceSettings,
+  runTime,
+} from './race.js';
+import {
+  GameRecord,
+  GameResult,
+  PlayerStats,
+  averageWinTime,
+  emptyStats,
+  flagAccuracy,
+  winRate,
+} from './stats.js';
+import { isValidSeed } from './random.js';
+import {
+  CommunityGame,
+  DEFAULT_VOTE_ROUND_MINUTES,
+  VoteMove,
+  communityOutcome,
+  isVoteAction,
+  newCommunityGame,
+  tallyVotes,
+} from './vote.js';
+import {
+  DEFAULT_REGISTRATION_MINUTES,
+  DEFAULT_TOURNAMENT_ROUND_MINUTES,
+  TOURNAMENT_MIN_ENTRANTS,
+  Tournament,
+  TournamentMatch,
+  TournamentRound,
+  canStartRun,
+  currentRound,
+  eliminatedIn,
+  isRegistered,
+  isTournamentSeed,
+  newTournament,
+  roundMatch,
+  tournamentEntrant,
+  tournamentPlacings,
+} from './tournament.js';
+import {
+  BestScore,
+  GameSession,
+  Page,
+  Player,
+  PostSession,
+  PostState,
+  SCHEMA_VERSION,
+  bestScoreKey,
+  emptyPostState,
+  isUnfinished,
+  parseCoopGame,
+  parseCoopTally,
+  parseRace,
+  serializeCoopGame,
+} from './schema.js';
+import {
+  PotatoChange,
+  RaceMove,
+  TournamentChange,
+  abandonGame,
+  acceptRace,
+  addPlayer,
+  cancelRace,
+  closeCommunityRound,
+  closeSeason,
+  createRace,
+  createTournament,
+  expirePotatoDeadline,
+  expireRace,
+  expireTournamentDeadline,
+  forfeitRace,
+  hostPotatoGame,
+  joinPotatoGame,
+  loadCommunityGame,
+  loadCoopGame,
+  loadCoopTally,
+  loadDailyAttempt,
+  loadDailyResults,
+  loadDailyStreak,
+  loadGame,
+  loadPlayer,
+  loadPlayerStats,
+  loadPlayers,
+  loadPostSession,
+  loadLatestPost,
+  loadPostState,
+  loadPotatoGame,
+  loadRace,
+  loadRaceRun,
+  loadSeason,
+  loadSeasonArchive,
+  loadStandings,
+  loadStandingsBest,
+  loadTournament,
+  loadTournamentRun,
+  migratePost,
+  notePotatoComments,
+  openDailyAttempt,
+  pinCommunityComment,
+  playCoopMove,
+  playPotatoTurn,
+  playRaceMove,
+  playTournamentMove,
+  preparePost,
+  rebuildFromLedger,
+  registerForTournament,
+  recordOutcome,
+  rememberLatestPost,
+  saveDailyMove,
+  saveGame,
+  saveGameMove,
+  saveNewGame,
+  savePostSession,
+  startCommunityGame,
+  startCoopGame,
+  startPotatoGame,
+  startTournamentRun,
+  voteOnCommunityGame,
+} from './store.js';
+import {
+  DEFAULT_SEASON_DAYS,
+  STANDINGS_SCOPES,
+  SeasonArchive,
+  Standing,
+  StandingsScope,
+  isStandingsScope,
+  seasonPeriod,
+  standingsPeriod,
+} from './standings.js';
 
 // Updated Theme Constants with Enhanced Visual Design
 const THEME = {
@@ -53,26 +252,39 @@ const ThemeUtils = {
 
 export { THEME, ThemeUtils };
 
-// Game difficulty levels
-const DIFFICULTY = {
-  EASY: { name: 'Easy', bombPercentage: 0.1, depth: 2 },
-  MEDIUM: { name: 'Medium', bombPercentage: 0.15, depth: 1 },
-  HARD: { name: 'Hard', bombPercentage: 0.2, depth: 1 },
-}
-
-// Cell types
-const CELL_TYPES = {
-  EMPTY: 0,
-  BOMB: 1,
-  NUMBER: 2,
-}
-
 // Configure Devvit with Redis support
 Devvit.configure({
   redditAPI: true,
   redis: true,
+  realtime: true,
 });
 
+// Moderators choose how long a leaderboard season lasts, and how long community vote rounds run
+Devvit.addSettings([
+  {
+    type: 'number',
+    name: 'season-days',
+    label: 'Leaderboard season length in days',
+    defaultValue: DEFAULT_SEASON_DAYS,
+    onValidate: ({ value }) => {
+      if (value === undefined || !Number.isInteger(value) || value < 1 || value > 365) {
+        return 'Seasons must last from 1 to 365 whole days';
+      }
+    },
+  },
+  {
+    type: 'number',
+    name: 'vote-round-minutes',
+    label: 'Community vote round length in minutes',
+    defaultValue: DEFAULT_VOTE_ROUND_MINUTES,
+    onValidate: ({ value }) => {
+      if (value === undefined || !Number.isInteger(value) || value < 1 || value > 1440) {
+        return 'Vote rounds must last from 1 to 1440 whole minutes';
+      }
+    },
+  },
+]);
+
 // Custom button component
 const ThemedButton = ({
   children,
@@ -128,37 +340,222 @@ const Section = ({
   </vstack>
 );
 
+// One row of a ranking: a place and a player, and what put them there
+const RankingRow = ({
+  rank,
+  name,
+  detail,
+  highlight = false
+}: {
+  rank: number;
+  name: string;
+  detail: string;
+  highlight?: boolean;
+}) => (
+  <hstack 
+    padding="small" 
+    cornerRadius="medium" 
+    backgroundColor={highlight ? "rgba(3, 218, 198, 0.15)" : "rgba(187, 134, 252, 0.1)"}
+    alignment="middle"
+    width="100%"
+  >
+    <text weight="bold" color={THEME.accent}>
+      #{rank} {name}
+    </text>
+    <spacer grow />
+    <text weight="bold" color={THEME.textPrimary}>
+      {detail}
+    </text>
+  </hstack>
+);
+
 const formatTime = (seconds: number) => {
   const mins = Math.floor(seconds / 60);
   const secs = seconds % 60;
   return `${mins}:${secs.toString().padStart(2, '0')}`;
 };
+// A best-score slot for every difficulty and variant, including ones added after a post was created
+const emptyBestScores = () => Object.fromEntries(
+  (Object.keys(DIFFICULTY) as Difficulty[]).flatMap(diff =>
+    (Object.keys(VARIANTS) as Variant[]).map(variant => [bestScoreKey(diff, variant), {time: null, revealed: 0}])
+  )
+) as Record<string, BestScore>;
+
+// Leaderboard points for one rule variant; classic points stay in score
+const scoreFor = (player: Player, variant: Variant): number =>
+  variant === 'classic' ? player.score : player.variantScores[variant] || 0;
+
+const RESULT_LABELS: Record<GameResult, string> = {
+  won: '✅ Won',
+  lost: '💥 Lost',
+  abandoned: '🏳️ Abandoned',
+};
+
+const formatPercent = (value: number | null) => (value === null ? '-' : `${value}%`);
+
+// One line of a player's recent games, e.g. "✅ Won Easy 10×10 in 1:05, 23 moves"
+const describeGameRecord = (record: GameRecord) =>
+  `${RESULT_LABELS[record.result]} ${DIFFICULTY[record.difficulty].name} ${record.width}×${record.height}` +
+  `${record.topology !== 'square' ? ` ${TOPOLOGIES[record.topology].name}` : ''}` +
+  `${record.variant !== 'classic' ? ` ${VARIANTS[record.variant].name}` : ''}` +
+  ` in ${formatTime(record.time)}, ${record.moves} moves`;
+
+// A player's stats as shown on the stats page
+type StatsView = { username: string; stats: PlayerStats; history: GameRecord[] };
+
+// The season shown on the leaderboard, and the latest one it can page through to
+type SeasonView = { number: number; latest: number; endedAt: number | null };
+
+// Who played what on the co-op board on screen; the board itself is shown like any other game
+type CoopCredits = Pick<CoopGame, 'openedBy' | 'players' | 'lostBy'>;
+
+// A co-op move as broadcast to everyone watching the board: the board as it's stored in Redis,
+// the cells the move opened, and the post's co-op record once the board is finished
+type CoopMessage = { game: string; revealed: number[]; tally: string | null };
+
+const contributorsText = (credits: CoopCredits) =>
+  contributions(credits).map(({ username, cells }) => `${username} ${cells}`).join(' • ');
+
+// A race as broadcast to both entrants: the race as it's stored, or a challenge that was withdrawn or declined
+type RaceMessage = { race: string; cancelled: boolean };
+
+// The board a race is played on, e.g. "Hard 16×16 Torus"
+const describeRaceBoard = (settings: RaceSettings) =>
+  `${DIFFICULTY[settings.difficulty].name} ${settings.width}×${settings.height}` +
+  `${settings.topology !== 'square' ? ` ${TOPOLOGIES[settings.topology].name}` : ''}` +
+  `${settings.variant !== 'classic' ? ` ${VARIANTS[settings.variant].name}` : ''}`;
+
+// One player's run in a started race, e.g. "alice 🏁 cleared the board in 1:05"
+const describeRaceRun = (race: Race, { userId, username }: RaceEntrant) => {
+  const { revealed, outcome } = race.progress[userId];
+  const time = formatTime(runTime(race, userId));
+  if (outcome === 'won') return `${username} 🏁 cleared the board in ${time}`;
+  if (outcome === 'lost') return `${username} 💥 out after ${time} with ${revealed} cells revealed`;
+  return `${username} ⏱️ racing, ${revealed} cells revealed`;
+};
+
+// The bot's summary of a finished race
+const raceSummaryText = (race: Race) => {
+  const winner = raceEntrants(race).find(entrant => entrant.userId === race.winner);
+  const runs = raceEntrants(race).map(entrant => `- ${describeRaceRun(race, entrant)}`).join('\n');
+  
+  return `# ⚔️ ${winner ? `${winner.username} wins the race!` : 'The race is a draw!'}\n\n${race.challenger.username} vs ${race.opponent.username} on a ${describeRaceBoard(race.settings)} board, seed ${race.settings.seed}\n\n${runs}\n\nUse \`/challenge u/name [difficulty]\` or ⚔️ Versus in the post to race someone.`;
+};
+
 // Main game component
 Devvit.addCustomPostType({
   name: 'Crossmines',
   height: "tall",
   render: context => {
     // Game state management
-    const [gameState, setGameState] = useState(null);
+    const [gameState, setGameState] = useState<PostState | null>(null);
     const [isLoading, setIsLoading] = useState(true);
     const [currentPage, setCurrentPage] = useState<Page>('home');
     const [gridSize, setGridSize] = useState(10); // 10x10 grid by default
-    const [grid, setGrid] = useState<Array<{ type: number, value: number, revealed: boolean, flagged: boolean, animating?: boolean }>>([]);
-    const [revealedCount, setRevealedCount] = useState(0);
+    const [board, setBoard] = useState<Board | null>(null);
+    const [highlighted, setHighlighted] = useState<number[]>([]); // Cells opened by the last move
+    const [hint, setHint] = useState<Hint | null>(null);
     const [gameOver, setGameOver] = useState(false);
     const [moveCount, setMoveCount] = useState(0);
+    // Time on the clock as last shown; the clock's timestamps are what count
     const [timeElapsed, setTimeElapsed] = useState(0);
-    const [gameStartTime, setGameStartTime] = useState(0);
-    const [bombCount, setBombCount] = useState(0);
-    const [flagCount, setFlagCount] = useState(0);
+    const [clock, setClock] = useState<GameClock | null>(null);
     const [flagMode, setFlagMode] = useState(false);
-    const [difficulty, setDifficulty] = useState('MEDIUM');
+    const [difficulty, setDifficulty] = useState<Difficulty>('MEDIUM');
+    const [opening, setOpening] = useState(false); // Keep every neighbour of the first tap clear
+    const [noGuess, setNoGuess] = useState(false); // Only deal boards solvable without guessing
+    const [topology, setTopology] = useState<Topology>('square');
+    const [variant, setVariant] = useState<Variant>('classic');
+    const [leaderboardVariant, setLeaderboardVariant] = useState<Variant>('classic');
+    const [leaderboardScope, setLeaderboardScope] = useState<StandingsScope>('post');
+    const [standings, setStandings] = useState<Standing[]>([]);
+    const [standingsBest, setStandingsBest] = useState<Record<string, BestScore>>(emptyBestScores());
+    const [seasonView, setSeasonView] = useState<SeasonView | null>(null);
+    const [statsView, setStatsView] = useState<StatsView | null>(null);
+    // Whether the board on screen is a free game, today's Daily Challenge, the post's co-op board,
+    // or the viewer's board in a versus race or a tournament round
+    const [mode, setMode] = useState<'free' | 'daily' | 'coop' | 'race' | 'tournament'>('free');
+    const [coopCredits, setCoopCredits] = useState<CoopCredits | null>(null);
+    // The viewer's latest race in the post, from challenge to result
+    const [race, setRace] = useState<Race | null>(null);
+    // The post's tournament, and the round the tournament board on screen belongs to
+    const [tournament, setTournament] = useState<Tournament | null>(null);
+    const [tournamentRound, setTournamentRound] = useState(0);
+    const [coopTally, setCoopTally] = useState<CoopTally>(emptyCoopTally());
+    const [dailyAttempt, setDailyAttempt] = useState<DailyAttempt | null>(null);
+    const [dailyResults, setDailyResults] = useState<DailyResult[]>([]);
+    const [dailyStreak, setDailyStreak] = useState<DailyStreak>(emptyDailyStreak());
     const [streakCount, setStreakCount] = useState(0);
-    const [bestScore, setBestScore] = useState<Record<string, {time: number, revealed: number}>>({
-      'EASY': {time: Infinity, revealed: 0},
-      'MEDIUM': {time: Infinity, revealed: 0},
-      'HARD': {time: Infinity, revealed: 0},
-    });
+    const [bestScore, setBestScore] = useState<Record<string, BestScore>>(emptyBestScores());
+    
+    // This viewer's settings and game in the post; logged-out viewers get a practice board that is never saved
+    const saveSession = async (updates: Partial<PostSession>) => {
+      if (!context.userId || !context.postId) return;
+      
+      const session: PostSession = {
+        schemaVersion: SCHEMA_VERSION,
+        gridSize,
+        difficulty,
+        opening,
+        noGuess,
+        topology,
+        variant,
+        ...updates,
+      };
+      await savePostSession(context.redis, context.postId, context.userId, session);
+    };
+    
+    // The same game is played through comment commands, so it's saved apart from the settings.
+    // A move is only saved on the game it was played on; if the comments have replaced or abandoned
+    // that game meanwhile, what's stored now is put on screen instead. Returns whether it was saved.
+    const persistGame = async (game: GameSession) => {
+      if (!context.userId || !context.postId) return true;
+      if (await saveGameMove(context.redis, context.postId, context.userId, game)) return true;
+      
+      const current = await loadGame(context.redis, context.postId, context.userId);
+      if (current) {
+        showGame(current);
+        setCurrentPage('game');
+      } else {
+        clearGame();
+        setCurrentPage('home');
+      }
+      context.ui.showToast('This game was replaced or abandoned in the comments');
+      return false;
+    };
+    
+    // Put a stored game on screen
+    const showGame = (game: GameSession) => {
+      setMode('free');
+      setBoard(game.board);
+      setMoveCount(game.moveCount);
+      setClock(game.clock);
+      setTimeElapsed(elapsedSeconds(game.clock));
+      setGameOver(!isUnfinished(game));
+      setHighlighted([]);
+      setHint(null);
+    };
+    
+    const clearGame = () => {
+      setBoard(null);
+      setClock(null);
+      setMoveCount(0);
+      setTimeElapsed(0);
+      setGameOver(false);
+      setHighlighted([]);
+      setHint(null);
+    };
+    
+    // An unfinished free game, offered on the home page to continue or abandon
+    const hasUnfinishedGame = mode === 'free' && board !== null && !gameOver;
+    
+    // Co-op boards, races and tournament rounds don't set best scores or count towards the win streak
+    const isOwnGame = mode === 'free' || mode === 'daily';
+    
+    // Counters derived from the current board
+    const revealedCount = board ? countRevealed(board) : 0;
+    const flagCount = board ? countFlags(board) : 0;
+    const bombCount = board ? board.bombCount : 0;
     
       // Sync with Redis storage
       useInterval(async () => {   
@@ -167,52 +564,53 @@ Devvit.addCustomPostType({
           
           // First time load or when no state exists yet
           if (isLoading) {
-            const storedState = await context.redis.get(`bombsweeper_${context.postId}`);
-            if (storedState) {
-              const parsedState = JSON.parse(storedState);
-              // Update local state with stored state
-              setGameState(parsedState);
-              setCurrentPage(parsedState.currentPage || 'home');
-              setGrid(parsedState.grid || []);
-              setGridSize(parsedState.gridSize || 10);
-              setDifficulty(parsedState.difficulty || 'MEDIUM');
-              setBombCount(parsedState.bombCount || 0);
-              setFlagCount(parsedState.flagCount || 0);
-              setRevealedCount(parsedState.revealedCount || 0);
-              setGameOver(parsedState.gameOver || false);
-              setMoveCount(parsedState.moveCount || 0);
-              setTimeElapsed(parsedState.timeElapsed || 0);
-              setGameStartTime(parsedState.gameStartTime || 0);
-              setBestScore(parsedState.bestScore || {
-                'EASY': {time: Infinity, revealed: 0},
-                'MEDIUM': {time: Infinity, revealed: 0},
-                'HARD': {time: Infinity, revealed: 0},
-              });
-              setStreakCount(parsedState.streakCount || 0);
-            } else {
-              // Initialize new game state in Redis
-              const initialState = {
-                currentPage: 'home',
-                gridSize: 10,
-                grid: [],
-                difficulty: 'MEDIUM',
-                bombCount: 0,
-                flagCount: 0,
-                revealedCount: 0,
-                gameOver: false,
-                moveCount: 0,
-                timeElapsed: 0,
-                gameStartTime: 0,
-                players: [],
-                bestScore: {
-                  'EASY': {time: Infinity, revealed: 0},
-                  'MEDIUM': {time: Infinity, revealed: 0},
-                  'HARD': {time: Infinity, revealed: 0},
-                },
-                streakCount: 0,
-              };
-              await context.redis.set(`bombsweeper_${context.postId}`, JSON.stringify(initialState));
-              setGameState(initialState);
+            // Shared post data: players and best scores, moved out of the old single blob on first load
+            try {
+              await preparePost(context.redis, context.postId);
+              const postState = await loadPostState(context.redis, context.postId);
+              setGameState(postState);
+              setBestScore({ ...emptyBestScores(), ...postState.bestScore });
+            } catch (error) {
+              // Leave the stored data as it is rather than overwriting it with an empty record
+              console.error("Couldn't read the stored post state:", error);
+              setGameState(emptyPostState());
+            }
+            
+            // This viewer's settings and unfinished game, if they're logged in and have them.
+            // Everyone starts on the home page, which offers to continue the game.
+            if (context.userId) {
+              try {
+                const session = await loadPostSession(context.redis, context.postId, context.userId);
+                if (session) {
+                  setGridSize(session.gridSize);
+                  setDifficulty(session.difficulty);
+                  setOpening(session.opening);
+                  setNoGuess(session.noGuess);
+                  setTopology(session.topology);
+                  setVariant(session.variant);
+                }
+                
+                // The win streak is worked out from the player's games in every post
+                const { stats } = await loadPlayerStats(context.redis, context.userId);
+                setStreakCount(stats.currentStreak);
+                
+                const game = await loadGame(context.redis, context.postId, context.userId);
+                if (game && isUnfinished(game)) {
+                  // A game left running is picked up paused, without the time spent away
+                  showGame({ ...game, clock: pauseAtLastMove(game.clock) });
+                }
+                
+                // A challenge waiting on the viewer is flagged on the home page
+                setRace(await loadRace(context.redis, context.postId, context.userId));
+              } catch (error) {
+                console.error("Couldn't read the stored game session:", error);
+              }
+            }
+            
+            // Today's Daily Challenge status for the home page
+            if (context.userId) {
+              setDailyAttempt(await loadDailyAttempt(context.redis, dailyDate(), context.userId));
+              setDailyStreak(await loadDailyStreak(context.redis, context.userId));
             }
             setIsLoading(false);
           }
@@ -221,557 +619,678 @@ Devvit.addCustomPostType({
         }
       }, 5000).start();
 
-      // Update timer state every second
+      // Tick the clock on screen; nothing is saved, the time is worked out from the clock's timestamps
       useInterval(() => {
-        if (currentPage === 'game' && !gameOver && gameStartTime > 0) {
-          const elapsed = Math.floor((Date.now() - gameStartTime) / 1000);
-          setTimeElapsed(elapsed);
-          
-          // Also update Redis state with new time
-          if (gameState) {
-            const updatedState = {
-              ...gameState,
-              timeElapsed: elapsed
-            };
-            context.redis.set(`bombsweeper_${context.postId}`, JSON.stringify(updatedState));
-          }
+        if (currentPage === 'game' && clock && isRunning(clock)) {
+          setTimeElapsed(elapsedSeconds(clock));
         }
       }, 1000).start();    
-    const startGame = async () => {
-      // Get difficulty settings
-      const difficultySettings = DIFFICULTY[difficulty];
-      const bombPercentage = difficultySettings.bombPercentage;
-      
-      const totalCells = gridSize * gridSize;
-      const bombsToPlace = Math.floor(totalCells * bombPercentage);
-      
-      // Create empty grid
-      const newGrid = Array(totalCells).fill(null).map(() => ({
-        type: CELL_TYPES.EMPTY,
-        value: 0,
-        revealed: false,
-        flagged: false,
-        animating: false
-      }));
-      
-      // Place bombs randomly
-      let bombsPlaced = 0;
-      while (bombsPlaced < bombsToPlace) {
-        const randomIndex = Math.floor(Math.random() * totalCells);
-        if (newGrid[randomIndex].type !== CELL_TYPES.BOMB) {
-          newGrid[randomIndex].type = CELL_TYPES.BOMB;
-          bombsPlaced++;
-        }
-      }
-      
-      // Calculate numbers for adjacent bombs
-      for (let i = 0; i < totalCells; i++) {
-        if (newGrid[i].type === CELL_TYPES.BOMB) continue;
-        
-        // Get row and column
-        const row = Math.floor(i / gridSize);
-        const col = i % gridSize;
-        
-        // Check all 8 adjacent cells for bombs
-        let adjacentBombs = 0;
-        for (let r = -1; r <= 1; r++) {
-          for (let c = -1; c <= 1; c++) {
-            if (r === 0 && c === 0) continue;
-            
-            const newRow = row + r;
-            const newCol = col + c;
-            
-            // Check if the adjacent cell is valid
-            if (newRow >= 0 && newRow < gridSize && newCol >= 0 && newCol < gridSize) {
-              const adjacentIndex = newRow * gridSize + newCol;
-              if (newGrid[adjacentIndex].type === CELL_TYPES.BOMB) {
-                adjacentBombs++;
-              }
-            }
-          }
-        }
-        
-        if (adjacentBombs > 0) {
-          newGrid[i].type = CELL_TYPES.NUMBER;
-          newGrid[i].value = adjacentBombs;
-        }
-      }
-      
-      // Set the game start time to current time
-      const startTime = Date.now();
-      
-      // Set all state in a batch
-      setBombCount(bombsToPlace);
-      setFlagCount(0);
-      setGrid(newGrid);
-      setRevealedCount(0);
-      setGameOver(false);
-      setMoveCount(0);
-      setTimeElapsed(0);
-      setFlagMode(false);
-      setGameStartTime(startTime);
-      setCurrentPage('game');
-      
-      // Create updated game state
-      const updatedGameState = {
-        ...gameState,
-        currentPage: 'game', // Explicit page setting here
-        gridSize,
-        grid: newGrid,
-        difficulty,
-        bombCount: bombsToPlace,
-        flagCount: 0,
-        revealedCount: 0,
-        gameOver: false,
-        moveCount: 0,
-        timeElapsed: 0,
-        gameStartTime: startTime,
-        players: gameState?.players || [],
-        bestScore,
-        streakCount,
-      };
-      
-      // Update Redux-stored state immediately
-      setGameState(updatedGameState);
+    const startGame = async (seed?: string) => {
+      // Set up the board for the selected settings, from a fresh seed unless replaying one.
+      // Mines are placed on the first reveal so the first tap is always safe.
+      const newBoard = createBoard(difficulty, { width: gridSize, height: gridSize, topology, variant, seed, opening, noGuess });
+      const game: GameSession = { board: newBoard, moveCount: 0, clock: startClock() };
       
-      // Then persist to Redis
       try {
-        await context.redis.set(`bombsweeper_${context.postId}`, JSON.stringify(updatedGameState));
+        // A new game replaces an unfinished one, which counts as abandoned
+        await abandonCurrentGame();
+        await saveSession({});
+        if (context.userId && context.postId) await saveNewGame(context.redis, context.postId, context.userId, game);
       } catch (error) {
         console.error("Error saving game state to Redis:", error);
       }
+      
+      showGame(game);
+      setFlagMode(false);
+      setCurrentPage('game');
     };
-
-    // Handle cell reveal
-    const revealCell = async (index) => {
-      if (gameOver || grid[index].revealed || grid[index].flagged) {
-        return;
+    
+    // Continue the unfinished game, as it was last played here or through comments
+    const continueGame = async () => {
+      let game: GameSession | null = board && clock ? { board, moveCount, clock } : null;
+      if (context.userId && context.postId) {
+        game = await loadGame(context.redis, context.postId, context.userId);
+        if (!game || !isUnfinished(game)) {
+          clearGame();
+          context.ui.showToast('That game was finished or abandoned elsewhere');
+          return;
+        }
       }
+      if (!game) return;
       
-      const newGrid = [...grid];
+      // Time away since the last move doesn't count
+      const resumed = { ...game, clock: resumeClock(pauseAtLastMove(game.clock)) };
+      if (!(await persistGame(resumed))) return;
+      showGame(resumed);
+      setCurrentPage('game');
+    };
+    
+    // Put the co-op board on screen, lighting up the cells the last move opened
+    const showCoopGame = (game: CoopGame, revealed: number[] = []) => {
+      showGame(game);
+      setMode('coop');
+      setHighlighted(revealed);
+      setCoopCredits({ openedBy: game.openedBy, players: game.players, lostBy: game.lostBy });
+    };
+    
+    const isJoined = !!gameState?.players.some(p => p.id === context.userId);
+    
+    // Open the co-op board being played, or the setup page to start one
+    const openCoopGame = async () => {
+      if (!context.postId) return;
       
-      // If in flag mode, toggle flag
-      if (flagMode) {
-        toggleFlag(index);
+      const [game, tally] = await Promise.all([
+        loadCoopGame(context.redis, context.postId),
+        loadCoopTally(context.redis, context.postId),
+      ]);
+      setCoopTally(tally);
+      if (!game || !isUnfinished(game)) {
+        context.ui.showToast('No co-op game in progress - pick the settings and start one');
+        setCurrentPage('setup');
         return;
       }
       
-      // If it's a bomb, game over
-      if (newGrid[index].type === CELL_TYPES.BOMB) {
-        // Reveal all bombs
-        for (let i = 0; i < newGrid.length; i++) {
-          if (newGrid[i].type === CELL_TYPES.BOMB) {
-            newGrid[i].revealed = true;
-          }
-        }
-        setGrid(newGrid);
-        setGameOver(true);
-        setCurrentPage('lose');
-        
-        // Update Redis state
-        const updatedGameState = {
-          ...gameState,
-          currentPage: 'lose',
-          grid: newGrid,
-          gameOver: true,
-        };
-        await context.redis.set(`bombsweeper_${context.postId}`, JSON.stringify(updatedGameState));
-        setGameState(updatedGameState);
+      showCoopGame(game);
+      setFlagMode(false);
+      setCurrentPage('game');
+    };
+    
+    // Start a co-op board for everyone who joined. If someone else started one first, that's the one played.
+    const startCoop = async (seed?: string) => {
+      if (!context.postId || !isJoined) {
+        context.ui.showToast('Join the game to play co-op');
         return;
       }
       
-      // Increase move count on the first move
-      if (revealedCount === 0) {
-        setMoveCount(moveCount + 1);
-      }
+      const newBoard = createBoard(difficulty, { width: gridSize, height: gridSize, topology, variant, seed, opening, noGuess });
+      const fresh = newCoopGame(newBoard);
+      const game = await startCoopGame(context.redis, context.postId, fresh);
+      if (game !== fresh) context.ui.showToast('A co-op game is already in progress - joining it');
       
-      // Reveal the cell
-      newGrid[index].revealed = true;
+      await saveSession({});
+      setCoopTally(await loadCoopTally(context.redis, context.postId));
+      showCoopGame(game);
+      setFlagMode(false);
+      setCurrentPage('game');
+      if (game === fresh) await coopChannel.send({ game: serializeCoopGame(game), revealed: [], tally: null });
+    };
+    
+    // Play a move on the co-op board as it's stored, then show it to everyone watching
+    const playCoopCell = async (action: CellAction, index: number) => {
+      const player = gameState?.players.find(p => p.id === context.userId);
+      if (!context.postId || !player) {
+        context.ui.showToast('Join the game to play on the co-op board');
+        return;
+      }
       
-      // If it's an empty cell, gradually reveal adjacent cells
-      if (newGrid[index].type === CELL_TYPES.EMPTY) {
-        // Apply animation effect
-        newGrid[index].animating = true;
-        setGrid([...newGrid]);
-        
-        // Reveal empty cells more gradually with a depth based on difficulty
-        setTimeout(() => {
-          const gradualGrid = [...newGrid];
-          gradualGrid[index].animating = false;
-          
-          // Use different reveal depths based on difficulty
-          const revealDepth = DIFFICULTY[difficulty].depth;
-          revealAdjacentCells(gradualGrid, index, revealDepth);
-          setGrid(gradualGrid);
-          
-          // Count revealed cells after gradual reveal
-          const revealed = gradualGrid.filter(cell => cell.revealed).length;
-          setRevealedCount(revealed);
-          
-          // Check if the game is won after gradual reveal
-          checkWinCondition(gradualGrid, revealed);
-          
-          // Update Redis state
-          const updatedGameState = {
-            ...gameState,
-            grid: gradualGrid,
-            revealedCount: revealed,
-            moveCount: moveCount + 1,
-          };
-          context.redis.set(`bombsweeper_${context.postId}`, JSON.stringify(updatedGameState));
-          setGameState(updatedGameState);
-        }, 150); // Small delay for gradual effect
+      const played = await playCoopMove(context.redis, context.postId, player, action, index);
+      if (!played) {
+        context.ui.showToast('This co-op game is over');
+        return;
       }
+      if (!played.result.changed) return;
       
-      setGrid(newGrid);
+      showCoopGame(played.game, played.result.revealed);
+      if (played.tally) setCoopTally(played.tally);
+      if (played.result.outcome !== 'playing') setCurrentPage(played.result.outcome === 'won' ? 'win' : 'lose');
       
-      // Count revealed cells, but only if it's not an empty cell
-      // (for empty cells, this happens in the setTimeout)
-      if (newGrid[index].type !== CELL_TYPES.EMPTY) {
-        const revealed = newGrid.filter(cell => cell.revealed).length;
-        setRevealedCount(revealed);
-        
-        // Check win condition
-        checkWinCondition(newGrid, revealed);
-        
-        // Update Redis state
-        const updatedGameState = {
-          ...gameState,
-          grid: newGrid,
-          revealedCount: revealed,
-          moveCount: moveCount + 1,
-        };
-        await context.redis.set(`bombsweeper_${context.postId}`, JSON.stringify(updatedGameState));
-        setGameState(updatedGameState);
-      }
+      await coopChannel.send({
+        game: serializeCoopGame(played.game),
+        revealed: played.result.revealed,
+        tally: played.tally && JSON.stringify(played.tally),
+      });
     };
-    const updatePlayerStats = async (userId, update) => {
-      if (!userId || !gameState) return;
     
-      try {
-        // Find the player in the players array
-        const playerIndex = gameState.players.findIndex(p => p.id === userId);
-        if (playerIndex === -1) return; // Player not found
-        
-        // Create a new game state with updated player stats
-        const updatedGameState = {
-          ...gameState,
-          players: [...gameState.players]
-        };
-        
-        // Apply the updates to the player's stats
-        updatedGameState.players[playerIndex] = {
-          ...updatedGameState.players[playerIndex],
-          ...update
-        };
-        
-        // Update local state
-        setGameState(updatedGameState);
-        
-        // Persist to Redis
-        await context.redis.set(`bombsweeper_${context.postId}`, JSON.stringify(updatedGameState));
-        
-        console.log(`Updated player ${updatedGameState.players[playerIndex].username}'s stats:`, update);
-      } catch (error) {
-        console.error("Error updating player stats:", error);
-      }
-    };    
-
-    // Helper function to check win condition
-    const checkWinCondition = async (grid, revealed) => {
-      const totalSafeCells = grid.length - bombCount;
-      if (revealed === totalSafeCells) {
-        // Game won!
-        setGameOver(true);
-        setStreakCount(streakCount + 1);
-        
-        // Update best score if applicable
-        const finalTime = Math.floor((Date.now() - gameStartTime) / 1000);
-        const currentBest = bestScore[difficulty];
-        
-        let newBestScore = {...bestScore};
-        let isNewBest = false;
-        
-        if (currentBest.time === Infinity || 
-            finalTime < currentBest.time ||
-            (finalTime === currentBest.time && revealed > currentBest.revealed)) {
-          newBestScore[difficulty] = {time: finalTime, revealed};
-          setBestScore(newBestScore);
-          isNewBest = true;
-        }
-        
-        setCurrentPage('win');
-        
-        // If user is logged in, update their stats
-        if (context.userId && gameState?.players) {
-          // Calculate score
-          const difficultyMultiplier = { 'EASY': 1, 'MEDIUM': 1.5, 'HARD': 2 }[difficulty];
-          const score = Math.floor((totalSafeCells * 10 * difficultyMultiplier) / (finalTime / 60 + 1));
-          
-          // Debug before update
-          debugPlayerStats(context.userId, "Before Win Update");
-          
-          // Find player and make a direct update
-          const playerIndex = gameState.players.findIndex(p => p.id === context.userId);
-          if (playerIndex !== -1) {
-            // Create a new state object with updated player stats
-            const updatedGameState = {
-              ...gameState,
-              players: [...gameState.players]
-            };
-            
-            // Update player stats directly
-            updatedGameState.players[playerIndex] = {
-              ...updatedGameState.players[playerIndex],
-              totalGamesPlayed: (updatedGameState.players[playerIndex].totalGamesPlayed || 0) + 1,
-              totalGamesWon: (updatedGameState.players[playerIndex].totalGamesWon || 0) + 1,
-              score: (updatedGameState.players[playerIndex].score || 0) + score
-            };
-            
-            // Update global game state
-            setGameState(updatedGameState);
-            
-            // Debug after update
-            console.log("Player stats updated directly:", updatedGameState.players[playerIndex]);
-            
-            // Persist to Redis immediately
-            await context.redis.set(`bombsweeper_${context.postId}`, JSON.stringify(updatedGameState));
-            
-            // Post a victory comment if possible
-            try {
-              if (context.postId) {
-                await context.reddit.submitComment({
-                  text: `# Victory! 🎉\n\n${updatedGameState.players[playerIndex].username} cleared a ${difficulty} difficulty board!\n\nTime: ${formatTime(finalTime)}\nMoves: ${moveCount}\nScore: +${score}\n\nUse \`/play [difficulty]\` to start a new game.`,
-                  id: context.postId
-                });
-              }
-            } catch (commentError) {
-              console.error("Error posting victory comment:", commentError);
-            }
-          }
-        }
+    // Moves by other players arrive live while the co-op board is open
+    const coopChannel = useChannel<CoopMessage>({
+      name: `coop_${context.postId ?? 'none'}`,
+      onMessage: message => {
+        if (mode !== 'coop') return;
         
-        // Update Redis state with general game state changes
-        const updatedGameState = {
-          ...gameState,
-          currentPage: 'win',
-          gameOver: true,
-          streakCount: streakCount + 1,
-          bestScore: newBestScore,
-        };
+        const game = parseCoopGame(message.game);
+        // Messages can arrive out of order, and the mover gets their own back: older states of the board are skipped
+        if (clock?.startedAt === game.clock.startedAt && game.moveCount <= moveCount) return;
         
-        await context.redis.set(`bombsweeper_${context.postId}`, JSON.stringify(updatedGameState));
-      }
+        showCoopGame(game, message.revealed);
+        if (message.tally) setCoopTally(parseCoopTally(message.tally));
+        if (currentPage === 'game' && !isUnfinished(game)) setCurrentPage(game.lostBy === null ? 'win' : 'lose');
+      },
+    });
+    if (mode === 'coop') {
+      coopChannel.subscribe();
+    } else {
+      coopChannel.unsubscribe();
+    }
+    
+    // Put the viewer's board in a race on screen; it's over for them once the race is, even mid-run
+    const showRaceRun = (current: Race, run: GameSession) => {
+      showGame(run);
+      setMode('race');
+      setRace(current);
+      setGameOver(!isUnfinished(run) || current.status === 'finished');
     };
-
-    const debugPlayerStats = (userId, message) => {
-      if (!gameState || !userId) return;
-      
-      const player = gameState.players.find(p => p.id === userId);
-      if (!player) return;
+    
+    // Open the versus page with the viewer's race as Redis holds it
+    const showVersus = async () => {
+      if (!context.userId || !context.postId) return;
       
-      console.log(`PLAYER STATS [${message}] - ${player.username}:`, {
-        totalGamesPlayed: player.totalGamesPlayed,
-        totalGamesWon: player.totalGamesWon,
-        score: player.score
-      });
+      setRace(await loadRace(context.redis, context.postId, context.userId));
+      setCurrentPage('versus');
     };
-
-    // Modified function to reveal adjacent cells with controlled depth
-    const revealAdjacentCells = (grid, index, maxDepth = 1, currentDepth = 0) => {
-      if (currentDepth >= maxDepth) return;
+    
+    // Challenge another player who joined the post to a race on a board with the viewer's settings
+    const challengePlayer = async (opponent: Player) => {
+      const challenger = gameState?.players.find(p => p.id === context.userId);
+      if (!context.postId || !challenger) {
+        context.ui.showToast('Join the game to race other players');
+        return;
+      }
       
-      const row = Math.floor(index / gridSize);
-      const col = index % gridSize;
+      const challenge = newRace(
+        context.postId,
+        { userId: challenger.id, username: challenger.username },
+        { userId: opponent.id, username: opponent.username },
+        raceSettings(difficulty, { width: gridSize, height: gridSize, topology, variant })
+      );
+      if (!(await createRace(context.redis, challenge))) {
+        context.ui.showToast(`You or ${opponent.username} already have a race going`);
+        setRace(await loadRace(context.redis, context.postId, challenger.id));
+        return;
+      }
       
-      // Check all 8 adjacent cells
-      for (let r = -1; r <= 1; r++) {
-        for (let c = -1; c <= 1; c++) {
-          if (r === 0 && c === 0) continue;
-          
-          const newRow = row + r;
-          const newCol = col + c;
-          
-          // Check if the adjacent cell is valid
-          if (newRow >= 0 && newRow < gridSize && newCol >= 0 && newCol < gridSize) {
-            const adjacentIndex = newRow * gridSize + newCol;
-            
-            // Only process unrevealed and unflagged cells
-            if (!grid[adjacentIndex].revealed && !grid[adjacentIndex].flagged) {
-              grid[adjacentIndex].revealed = true;
-              
-              // If it's also an empty cell and we haven't reached max depth, reveal its adjacent cells
-              if (grid[adjacentIndex].type === CELL_TYPES.EMPTY && currentDepth < maxDepth - 1) {
-                revealAdjacentCells(grid, adjacentIndex, maxDepth, currentDepth + 1);
-              }
-            }
-          }
-        }
+      await saveSession({});
+      setRace(challenge);
+      await scheduleRaceDeadline(context, challenge);
+      await raceChannel.send({ race: JSON.stringify(challenge), cancelled: false });
+      try {
+        await context.reddit.submitComment({
+          text: `u/${opponent.username}, ${challenger.username} challenges you to a race on a ${describeRaceBoard(challenge.settings)} board! Open ⚔️ Versus in the post within ${RACE_ACCEPT_MINUTES} minutes to accept.`,
+          id: context.postId
+        });
+      } catch (commentError) {
+        console.error("Error posting race challenge:", commentError);
       }
     };
     
-    // Toggle flag on a cell
-    const toggleFlag = async (index) => {
-      if (gameOver || grid[index].revealed) {
+    // Open the viewer's board in their running race
+    const openRace = async () => {
+      if (!context.userId || !context.postId) return;
+      
+      const current = await loadRace(context.redis, context.postId, context.userId);
+      const run = current && (await loadRaceRun(context.redis, context.postId, current.id, context.userId));
+      if (!current || !run || current.status !== 'racing') {
+        setRace(current);
+        context.ui.showToast('This race is over');
         return;
       }
       
-      const newGrid = [...grid];
-      newGrid[index].flagged = !newGrid[index].flagged;
+      showRaceRun(current, run);
+      setFlagMode(false);
+      setCurrentPage('game');
+    };
+    
+    // Take up the challenge waiting on the viewer; both boards are dealt and both clocks start now
+    const acceptChallenge = async () => {
+      if (!context.userId || !context.postId) return;
+      
+      const started = await acceptRace(context.redis, context.postId, context.userId);
+      if (!started) {
+        context.ui.showToast('That challenge was withdrawn');
+        setRace(await loadRace(context.redis, context.postId, context.userId));
+        return;
+      }
       
-      // Update flag count
-      const newFlagCount = newGrid.filter(cell => cell.flagged).length;
-      setFlagCount(newFlagCount);
+      await scheduleRaceDeadline(context, started);
+      await raceChannel.send({ race: JSON.stringify(started), cancelled: false });
+      await openRace();
+    };
+    
+    // Withdraw or decline a challenge before the race starts
+    const cancelChallenge = async () => {
+      if (!context.userId || !context.postId) return;
       
-      setGrid(newGrid);
-      setMoveCount(moveCount + 1);
+      const dropped = await cancelRace(context.redis, context.postId, context.userId);
+      if (!dropped) {
+        context.ui.showToast('That race has already started');
+        setRace(await loadRace(context.redis, context.postId, context.userId));
+        return;
+      }
       
-      // Update Redis state
-      const updatedGameState = {
-        ...gameState,
-        grid: newGrid,
-        flagCount: newFlagCount,
-        moveCount: moveCount + 1,
-      };
-      await context.redis.set(`bombsweeper_${context.postId}`, JSON.stringify(updatedGameState));
-      setGameState(updatedGameState);
+      setRace(null);
+      await raceChannel.send({ race: JSON.stringify(dropped), cancelled: true });
     };
     
-    // Toggle flag mode
-    const toggleFlagMode = () => {
-      setFlagMode(!flagMode);
+    // The bot sums up a finished race in the post's comments
+    const announceRace = async (finished: Race) => {
+      try {
+        await context.reddit.submitComment({ text: raceSummaryText(finished), id: finished.postId });
+      } catch (commentError) {
+        console.error("Error posting race summary:", commentError);
+      }
+    };
+    
+    // Show the viewer's board after their move, and the result once their run or the race is over
+    const showRaceMove = ({ race: current, run, result }: RaceMove) => {
+      showRaceRun(current, run);
+      setHighlighted(result.revealed);
+      if (current.status === 'finished') {
+        setCurrentPage(current.winner === context.userId ? 'win' : 'lose');
+      } else if (result.outcome === 'lost') {
+        setCurrentPage('lose');
+      }
+    };
+    
+    // Play a move on the viewer's copy of the race board, then show the rival how far they've got
+    const playRaceCell = async (action: CellAction, index: number) => {
+      if (!context.userId || !context.postId) return;
+      
+      const played = await playRaceMove(context.redis, context.postId, context.userId, action, index);
+      if (!played) {
+        context.ui.showToast('This race is over');
+        await showVersus();
+        return;
+      }
+      if (!played.result.changed) return;
+      
+      showRaceMove(played);
+      await raceChannel.send({ race: JSON.stringify(played.race), cancelled: false });
+      if (played.race.status === 'finished') await announceRace(played.race);
     };
     
-    // Reveal additional cells as a hint
-    const revealHint = async () => {
-      if (gameOver) return;
+    // Give up the running race; the run ends as if it had hit a bomb
+    const forfeit = async () => {
+      if (!context.userId || !context.postId) return;
       
-      const newGrid = [...grid];
-      const unrevealed = newGrid
-        .map((cell, index) => ({ cell, index }))
-        .filter(item => !item.cell.revealed && !item.cell.flagged && item.cell.type !== CELL_TYPES.BOMB);
+      const played = await forfeitRace(context.redis, context.postId, context.userId);
+      if (!played) {
+        setRace(await loadRace(context.redis, context.postId, context.userId));
+        return;
+      }
       
-      if (unrevealed.length > 0) {
-        // Reveal up to 3 random safe cells as a hint
-        const numToReveal = Math.min(3, unrevealed.length);
-        const shuffled = unrevealed.sort(() => 0.5 - Math.random());
+      setRace(played.race);
+      if (mode === 'race') setGameOver(true);
+      await raceChannel.send({ race: JSON.stringify(played.race), cancelled: false });
+      if (played.race.status === 'finished') await announceRace(played.race);
+    };
+    
+    // Challenges and the rival's progress arrive live on the versus page and during a race
+    const raceChannel = useChannel<RaceMessage>({
+      name: `race_${context.postId ?? 'none'}`,
+      onMessage: message => {
+        const update = parseRace(message.race);
+        if (!context.userId || !isEntrant(update, context.userId)) return;
         
-        for (let i = 0; i < numToReveal; i++) {
-          const index = shuffled[i].index;
-          newGrid[index].revealed = true;
-          
-          // Apply animation effect
-          newGrid[index].animating = true;
-          setGrid([...newGrid]);
-          
-          // If it's an empty cell, also reveal only immediate adjacent cells with a delay
-          if (newGrid[index].type === CELL_TYPES.EMPTY) {
-            setTimeout(() => {
-              const gradualGrid = [...newGrid];
-              gradualGrid[index].animating = false;
-              
-              // Use different reveal depths based on difficulty
-              const revealDepth = DIFFICULTY[difficulty].depth;
-              revealAdjacentCells(gradualGrid, index, revealDepth);
-              setGrid(gradualGrid);
-              
-              // Update revealed count
-              const revealed = gradualGrid.filter(cell => cell.revealed).length;
-              setRevealedCount(revealed);
-              
-              // Check win condition
-              checkWinCondition(gradualGrid, revealed);
-              
-              // Update Redis state
-              const updatedGameState = {
-                ...gameState,
-                grid: gradualGrid,
-                revealedCount: revealed,
-                moveCount: moveCount + numToReveal,
-              };
-              context.redis.set(`bombsweeper_${context.postId}`, JSON.stringify(updatedGameState));
-              setGameState(updatedGameState);
-            }, 150); // Small delay for gradual effect
-          }
+        if (message.cancelled) {
+          if (race?.id === update.id) setRace(null);
+          return;
         }
+        // Messages can arrive out of order, but nothing changes once a race is over
+        if (race?.id === update.id && race.status === 'finished') return;
         
-        setGrid(newGrid);
-        setMoveCount(moveCount + numToReveal);
-        
-        // Count revealed cells
-        const revealed = newGrid.filter(cell => cell.revealed).length;
-        setRevealedCount(revealed);
-        
-        // Check if game is won
-        const totalSafeCells = newGrid.length - bombCount;
-        if (revealed === totalSafeCells) {
+        setRace(update);
+        if (mode === 'race' && update.status === 'finished' && ['game', 'win', 'lose'].includes(currentPage)) {
           setGameOver(true);
-          setStreakCount(streakCount + 1);
-          
-          const finalTime = Math.floor((Date.now() - gameStartTime) / 1000);
-          let newBestScore = {...bestScore};
-          
-          // Update best score if applicable
-          if (bestScore[difficulty].time === Infinity || 
-              finalTime < bestScore[difficulty].time) {
-            newBestScore[difficulty] = {time: finalTime, revealed};
-            setBestScore(newBestScore);
-          }
-          
-          setCurrentPage('win');
-          
-          // Update Redis state
-          const updatedGameState = {
-            ...gameState,
-            currentPage: 'win',
-            grid: newGrid,
-            revealedCount: revealed,
-            gameOver: true,
-            moveCount: moveCount + numToReveal,
-            streakCount: streakCount + 1,
-            bestScore: newBestScore,
-          };
-          await context.redis.set(`bombsweeper_${context.postId}`, JSON.stringify(updatedGameState));
-          setGameState(updatedGameState);
-        } else {
-          // Just update Redis state
-          const updatedGameState = {
-            ...gameState,
-            grid: newGrid,
-            revealedCount: revealed,
-            moveCount: moveCount + numToReveal,
-          };
-          await context.redis.set(`bombsweeper_${context.postId}`, JSON.stringify(updatedGameState));
-          setGameState(updatedGameState);
+          setCurrentPage(update.winner === context.userId ? 'win' : 'lose');
         }
-      }
+      },
+    });
+    if (context.userId && (currentPage === 'versus' || mode === 'race')) {
+      raceChannel.subscribe();
+    } else {
+      raceChannel.unsubscribe();
+    }
+    
+    // Open the tournament page with the post's tournament as Redis holds it
+    const showTournament = async () => {
+      if (!context.postId) return;
+      
+      setTournament(await loadTournament(context.redis, context.postId));
+      setCurrentPage('tournament');
     };
     
-    // Handle user joining the game
-    const handleJoinGame = async () => {
-      if (!gameState) return;
+    // Register the viewer for the tournament under the name they joined the post with
+    const registerTournament = async () => {
+      const player = gameState?.players.find(p => p.id === context.userId);
+      if (!context.postId || !player) {
+        context.ui.showToast('Join the game to register for the tournament');
+        return;
+      }
       
-      const user = await context.reddit.getCurrentUser();
-      if (!user) return;
+      const change = await registerForTournament(context.redis, context.postId, { userId: player.id, username: player.username });
+      if (!change) context.ui.showToast('Registration for this tournament is closed');
+      setTournament(change?.game ?? (await loadTournament(context.redis, context.postId)));
+    };
+    
+    // Put the viewer's board in a tournament round on screen
+    const showTournamentRun = (number: number, run: GameSession) => {
+      showGame(run);
+      setMode('tournament');
+      setTournamentRound(number);
+    };
+    
+    // Open the viewer's board in the current round, dealing it and starting their clock the first time
+    const playTournamentRound = async () => {
+      if (!context.userId || !context.postId) return;
       
-      if (gameState.players.find(p => p.id === user.id)) return;
+      const started = await startTournamentRun(context.redis, context.postId, context.userId);
+      const current = started?.tournament ?? (await loadTournament(context.redis, context.postId));
+      const round = current && currentRound(current);
+      const run = started?.run ?? (current && round?.runs[context.userId]?.outcome === 'playing'
+        ? await loadTournamentRun(context.redis, current, round.number, context.userId)
+        : null);
+      setTournament(current);
+      if (!round || !run) {
+        context.ui.showToast('You have no board to play in this round');
+        return;
+      }
       
-      const newPlayer = {
-        id: user.id,
-        username: user.username,
-        moves: 0,
-        score: 0,
-        totalGamesPlayed: 0,
-        totalGamesWon: 0,
-      };
+      showTournamentRun(round.number, run);
+      setFlagMode(false);
+      setCurrentPage('game');
+    };
+    
+    // Play a move on the viewer's board in a tournament round. The move that plays out the round
+    // closes it, and its results are posted.
+    const playTournamentCell = async (action: CellAction, index: number) => {
+      if (!context.userId || !context.postId) return;
       
-      const updatedGameState = {
-        ...gameState,
-        players: [...gameState.players, newPlayer],
-      };
+      const played = await playTournamentMove(context.redis, context.postId, context.userId, tournamentRound, action, index);
+      if (!played) {
+        context.ui.showToast('This round is over');
+        await showTournament();
+        return;
+      }
+      if (!played.result.changed) return;
+      
+      showTournamentRun(tournamentRound, played.run);
+      setHighlighted(played.result.revealed);
+      setTournament(played.game);
+      if (played.result.outcome !== 'playing') setCurrentPage(played.result.outcome === 'won' ? 'win' : 'lose');
+      await reportTournament(context, played);
+    };
+    
+    // Count a finished game once, through the game ledger, and pick up the win streak it leaves.
+    // Practice boards of logged-out viewers only keep a streak on screen.
+    const recordGameEnd = async (game: GameSession | null, result: GameResult) => {
+      if (!context.userId || !context.postId || !game) {
+        setStreakCount(result === 'won' ? streakCount + 1 : 0);
+        return null;
+      }
+      
+      const outcome = await recordOutcome(context.redis, context.postId, context.userId, game, result);
+      if (outcome) setStreakCount(outcome.stats.currentStreak);
+      return outcome;
+    };
+    
+    // Give up the unfinished game; it counts as a loss and ends the win streak
+    const abandonCurrentGame = async () => {
+      if (!context.userId || !context.postId) {
+        if (!hasUnfinishedGame) return;
+        clearGame();
+        setStreakCount(0);
+        return;
+      }
+      
+      const outcome = await abandonGame(context.redis, context.postId, context.userId);
+      if (!outcome) return;
+      
+      clearGame();
+      setStreakCount(outcome.stats.currentStreak);
+      context.ui.showToast('Unfinished game abandoned - it counts as a loss');
+    };
+
+    // Apply an engine move result to local state and Redis
+    const applyMove = async (result: MoveResult, moves = 1) => {
+      if (!result.changed) return;
+      
+      if (board && lostNoGuess(board, result.board)) {
+        context.ui.showToast('No guess-free board found in time - this one may need a guess');
+      }
+      
+      const newMoveCount = moveCount + moves;
+      // The move that ends the game stops the clock, freezing the final time
+      const movedClock = clock && recordMoveTime(clock, result.outcome !== 'playing');
+      setClock(movedClock);
+      if (movedClock) setTimeElapsed(elapsedSeconds(movedClock));
+      setBoard(result.board);
+      setHighlighted(result.revealed);
+      setHint(null);
+      setMoveCount(newMoveCount);
+      
+      if (mode === 'daily') {
+        await recordDailyMove(result, moves);
+        return;
+      }
+      
+      // Save the move on the viewer's game
+      const moved = movedClock && { board: result.board, moveCount: newMoveCount, clock: movedClock };
+      if (moved && !(await persistGame(moved))) return;
+      
+      if (result.outcome === 'won') {
+        await checkWinCondition(result.board, moved);
+        return;
+      }
+      
+      if (result.outcome === 'lost') {
+        setGameOver(true);
+        setCurrentPage('lose');
+        await recordGameEnd(moved, 'lost');
+      }
+    };
+
+    // Save a Daily Challenge move on the player's attempt; a finished attempt
+    // joins the day's results and counts towards the daily streak
+    const recordDailyMove = async (result: MoveResult, moves: number) => {
+      if (!dailyAttempt || !context.postId) return;
+      
+      const attempt = applyDailyMove(dailyAttempt, result, moves);
+      setDailyAttempt(attempt);
+      const saved = await saveDailyMove(context.redis, context.postId, attempt);
+      if (attempt.outcome === 'playing') return;
+      
+      setGameOver(true);
+      if (saved?.streak) setDailyStreak(saved.streak);
+      await showDailyLeaderboard();
+    };
+    
+    // Open today's Daily Challenge results
+    const showDailyLeaderboard = async () => {
+      setDailyResults(await loadDailyResults(context.redis, dailyDate()));
+      setCurrentPage('daily');
+    };
+    
+    // Start today's Daily Challenge, or pick an unfinished attempt back up.
+    // Everyone gets one attempt, so a finished one only shows the results.
+    const playDaily = async () => {
+      if (!context.userId) {
+        context.ui.showToast('Log in to play the Daily Challenge');
+        return;
+      }
+      
+      const today = dailyDate();
+      let attempt = await loadDailyAttempt(context.redis, today, context.userId);
+      
+      if (attempt && attempt.outcome !== 'playing') {
+        setDailyAttempt(attempt);
+        context.ui.showToast("You've already played today's challenge - come back tomorrow!");
+        await showDailyLeaderboard();
+        return;
+      }
+      
+      if (!attempt) {
+        const user = await context.reddit.getCurrentUser();
+        attempt = await openDailyAttempt(context.redis, startDailyAttempt(today, context.userId, user?.username ?? 'unknown'));
+      }
+      
+      setMode('daily');
+      setDailyAttempt(attempt);
+      setBoard(attempt.board);
+      setHighlighted([]);
+      setHint(null);
+      setGameOver(false);
+      setMoveCount(attempt.moves);
+      setFlagMode(false);
+      // Daily attempts run from the first look at the board and can't be paused
+      const dailyClock = startClock(attempt.startedAt);
+      setClock(dailyClock);
+      setTimeElapsed(elapsedSeconds(dailyClock));
+      setCurrentPage('game');
+    };
+    
+    // Handle cell reveal
+    const revealCell = async (index: number) => {
+      if (gameOver || !board) return;
+      
+      // If in flag mode, toggle flag
+      if (flagMode) {
+        await toggleFlag(index);
+        return;
+      }
       
-      await context.redis.set(`bombsweeper_${context.postId}`, JSON.stringify(updatedGameState));
-      setGameState(updatedGameState);
+      // Tapping a revealed number chords it: once its flags are all placed, its other neighbours open
+      if (board.cells[index].revealed) {
+        await playCell('chord', index, () => applyMove(chordBoardCell(board, index)));
+        return;
+      }
+      
+      await playCell('reveal', index, () => applyMove(revealBoardCell(board, index)));
+    };
+    
+    // Co-op, race and tournament moves are played on the board as Redis holds it; other boards move here first
+    const playCell = async (action: CellAction, index: number, playHere: () => Promise<void>) => {
+      if (mode === 'coop') {
+        await playCoopCell(action, index);
+      } else if (mode === 'race') {
+        await playRaceCell(action, index);
+      } else if (mode === 'tournament') {
+        await playTournamentCell(action, index);
+      } else {
+        await playHere();
+      }
+    };
+    // Record a win once the engine reports the board as cleared
+    const checkWinCondition = async (wonBoard: Board, game: GameSession | null) => {
+      if (checkOutcome(wonBoard) !== 'won') return;
+      
+      // Game won!
+      setGameOver(true);
+      setCurrentPage('win');
+      
+      // The ledger counts the win once and keeps whichever best score is faster
+      const outcome = await recordGameEnd(game, 'won');
+      if (!outcome || !context.postId) return;
+      
+      const { event, best } = outcome;
+      if (best) setBestScore({...bestScore, [bestScoreKey(wonBoard.difficulty, wonBoard.variant)]: best});
+      
+      // Joined players score points and get a victory comment
+      if (event.username !== null) {
+        try {
+          await context.reddit.submitComment({
+            text: `# Victory! 🎉\n\n${event.username} cleared a ${wonBoard.difficulty} difficulty board${wonBoard.variant !== 'classic' ? ` with ${VARIANTS[wonBoard.variant].name.toLowerCase()} rules` : ''}!\n\nTime: ${formatTime(event.record.time)}\nMoves: ${event.record.moves}\nScore: +${event.points}\n\nUse \`/play [difficulty]\` to start a new game.`,
+            id: context.postId
+          });
+        } catch (commentError) {
+          console.error("Error posting victory comment:", commentError);
+        }
+      }
+      
+      // Pick up the counters as Redis holds them, including other players' updates
+      setGameState(await loadPostState(context.redis, context.postId));
+    };
+
+    // Toggle flag on a cell
+    const toggleFlag = async (index: number) => {
+      if (gameOver || !board) return;
+      
+      await playCell('flag', index, () => applyMove(toggleBoardFlag(board, index)));
+    };
+    
+    // Toggle flag mode
+    const toggleFlagMode = () => {
+      setFlagMode(!flagMode);
+    };
+    
+    // Stop the clock and hide the board until the player resumes; shared, daily and race clocks keep running
+    const pauseGame = async () => {
+      if (!clock || !board || mode !== 'free') return;
+      
+      const pausedClock = pauseClock(clock);
+      setClock(pausedClock);
+      setTimeElapsed(elapsedSeconds(pausedClock));
+      await persistGame({ board, moveCount, clock: pausedClock });
+    };
+    
+    const resumeGame = async () => {
+      if (!clock || !board) return;
+      
+      const resumedClock = resumeClock(clock);
+      setClock(resumedClock);
+      await persistGame({ board, moveCount, clock: resumedClock });
+    };
+    
+    // Point at the next logical move (or the least risky guess) without playing it
+    const showHint = () => {
+      if (gameOver || !board) return;
+      
+      setHint(findHint(board));
+    };
+    
+    // Switch the leaderboard's scope or variant. The post's own rankings come with the post state;
+    // the subreddit's are read when asked for. Seasons other than the current one come from their archive.
+    const showLeaderboard = async (scope: StandingsScope, rule: Variant, seasonNumber?: number) => {
+      setLeaderboardScope(scope);
+      setLeaderboardVariant(rule);
+      if (scope === 'post') return;
+      
+      if (scope !== 'season') {
+        await showStandings(standingsPeriod(scope), rule);
+        return;
+      }
+      
+      const current = await loadSeason(context.redis);
+      const number = seasonNumber ?? current.number;
+      if (number === current.number) {
+        setSeasonView({number, latest: current.number, endedAt: null});
+        await showStandings(seasonPeriod(number), rule);
+        return;
+      }
+      
+      const archive = await loadSeasonArchive(context.redis, number);
+      setSeasonView({number, latest: current.number, endedAt: archive?.endedAt ?? null});
+      setStandings(archive?.standings[rule] ?? []);
+    };
+    
+    const showStandings = async (period: string, rule: Variant) => {
+      const [rows, best] = await Promise.all([
+        loadStandings(context.redis, period, rule),
+        loadStandingsBest(context.redis, period),
+      ]);
+      setStandings(rows);
+      setStandingsBest({...emptyBestScores(), ...best});
+    };
+    
+    // Open the viewer's own stats, gathered from their games in every post
+    const showStats = async () => {
+      if (!context.userId) return;
+      
+      const [user, { stats, history }] = await Promise.all([
+        context.reddit.getCurrentUser(),
+        loadPlayerStats(context.redis, context.userId),
+      ]);
+      setStatsView({ username: user?.username ?? 'You', stats, history });
+      setCurrentPage('stats');
+    };
+    
+    // Handle user joining the game
+    const handleJoinGame = async () => {
+      if (!gameState) return;
+      
+      const user = await context.reddit.getCurrentUser();
+      if (!user) return;
+      
+      if (!context.postId || !(await addPlayer(context.redis, context.postId, user.id, user.username))) return;
+      setGameState(await loadPostState(context.redis, context.postId));
       
       // Post a welcome comment
       if (context.postId) {
@@ -782,11 +1301,75 @@ Devvit.addCustomPostType({
       }
     };
     
+    // Who played the co-op board, and how the post's co-op boards have gone
+    const renderCoopSummary = () => coopCredits && (
+      <Section title="Co-op">
+        <vstack alignment="middle center" gap="small">
+          <text color={THEME.textPrimary} wrap>👥 {contributorsText(coopCredits)}</text>
+          <text size="small" color={THEME.textSecondary}>
+            This post's co-op boards: {coopTally.won} cleared of {coopTally.played}
+          </text>
+        </vstack>
+      </Section>
+    );
+    
+    // How both runs of the race on screen went
+    const renderRaceSummary = () => race && race.status !== 'pending' && (
+      <Section title={`⚔️ ${race.challenger.username} vs ${race.opponent.username}`}>
+        <vstack alignment="middle center" gap="small">
+          {raceEntrants(race).map(entrant => (
+            <text size="small" color={race.winner === entrant.userId ? THEME.accentSecondary : THEME.textPrimary}>
+              {describeRaceRun(race, entrant)}
+            </text>
+          ))}
+        </vstack>
+      </Section>
+    );
+    
+    // The viewer's match in the tournament round on screen
+    const renderTournamentSummary = () => {
+      const round = tournament?.rounds.find(other => other.number === tournamentRound) ?? null;
+      const match = round && context.userId ? roundMatch(round, context.userId) : null;
+      return tournament && round && match && (
+        <Section title={`🏆 ${tournament.name}: Round ${round.number}`}>
+          <vstack alignment="middle center" gap="small">
+            {match.players.map(userId => (
+              <text size="small" color={match.winner === userId ? THEME.accentSecondary : THEME.textPrimary}>
+                {describeTournamentRun(tournament, round, userId, match.winner !== null)}
+              </text>
+            ))}
+          </vstack>
+        </Section>
+      );
+    };
+    
+    // Races end on the versus page, where the next challenge is made, and tournament rounds on the tournament page
+    const renderEventButtons = () => (
+      <hstack gap="medium">
+        <ThemedButton onPress={() => setCurrentPage('home')}>
+          Home
+        </ThemedButton>
+        {mode === 'race' ? (
+          <ThemedButton primary onPress={showVersus}>
+            ⚔️ Versus
+          </ThemedButton>
+        ) : (
+          <ThemedButton primary onPress={showTournament}>
+            🏆 Tournament
+          </ThemedButton>
+        )}
+      </hstack>
+    );
+    
     // Render the Win page
     const renderWinPage = () => {
-      const finalTime = Math.floor((Date.now() - gameStartTime) / 1000);
-      const isNewBest = bestScore[difficulty].time === finalTime &&
-                        bestScore[difficulty].revealed === revealedCount;
+      const finalTime = clock ? elapsedSeconds(clock) : 0;
+      // The board's own difficulty, as the setup page may be showing another one by now
+      const best = board ? bestScore[bestScoreKey(board.difficulty, board.variant)] : undefined;
+      const isNewBest = isOwnGame &&
+                        !!best &&
+                        best.time === finalTime &&
+                        best.revealed === revealedCount;
       
       return (
         <vstack 
@@ -798,11 +1381,13 @@ Devvit.addCustomPostType({
           backgroundColor={THEME.background}
         >
           <vstack alignment="middle center" gap="medium">
-            <text size="xxlarge" weight="bold" color={THEME.accentSecondary}>You Win!</text>
+            <text size="xxlarge" weight="bold" color={THEME.accentSecondary}>
+              {mode === 'coop' ? 'Cleared Together!' : mode === 'race' ? 'You Won the Race!' : mode === 'tournament' ? 'Round Cleared!' : 'You Win!'}
+            </text>
             <text size="large" color={THEME.textPrimary}>
               ✨ Bomb Free Victory! ✨
             </text>
-            {streakCount > 1 && (
+            {isOwnGame && streakCount > 1 && (
               <text color={THEME.accentSecondary}>
                 🔥 {streakCount} Win Streak!
               </text>
@@ -822,11 +1407,15 @@ Devvit.addCustomPostType({
                 </vstack>
               </hstack>
               <text color={THEME.textSecondary} size="small">
-                {DIFFICULTY[difficulty].name} • {gridSize}×{gridSize}
+                {board ? `${DIFFICULTY[board.difficulty].name} • ${board.width}×${board.height} • ${VARIANTS[board.variant].name}` : '-'} • Seed: {board?.seed ?? "-"}
               </text>
             </vstack>
           </Section>
           
+          {mode === 'coop' && renderCoopSummary()}
+          {mode === 'race' && renderRaceSummary()}
+          {mode === 'tournament' && renderTournamentSummary()}
+          
           {isNewBest && (
             <vstack 
               backgroundColor="rgba(3, 218, 198, 0.15)" 
@@ -838,70 +1427,40 @@ Devvit.addCustomPostType({
             </vstack>
           )}
           
-          <hstack gap="medium">
-            <ThemedButton onPress={() => setCurrentPage('home')}>
-              Home
-            </ThemedButton>
-            <ThemedButton 
-              primary
-              onPress={startGame}
-            >
-              Play Again
-            </ThemedButton>
-          </hstack>
+          {mode === 'race' || mode === 'tournament' ? renderEventButtons() : (
+            <hstack gap="medium">
+              <ThemedButton onPress={() => setCurrentPage('home')}>
+                Home
+              </ThemedButton>
+              <ThemedButton onPress={() => (mode === 'coop' ? startCoop(board?.seed) : startGame(board?.seed))}>
+                Replay Board
+              </ThemedButton>
+              <ThemedButton 
+                primary
+                onPress={() => (mode === 'coop' ? startCoop() : startGame())}
+              >
+                Play Again
+              </ThemedButton>
+            </hstack>
+          )}
         </vstack>
       );
     };
     
     // Render the Lose page
     const renderLosePage = () => {
-      const finalTime = Math.floor((Date.now() - gameStartTime) / 1000);
-  
-      // Reset streak on loss
-      if (streakCount > 0) {
-        setStreakCount(0);
-        
-        // Update Redis state
-        if (gameState) {
-          const updatedGameState = {
-            ...gameState,
-            streakCount: 0
-          };
-          context.redis.set(`bombsweeper_${context.postId}`, JSON.stringify(updatedGameState));
-          setGameState(updatedGameState);
-        }
-      }
+      const finalTime = clock ? elapsedSeconds(clock) : 0;
+      const rival = race && context.userId ? raceRival(race, context.userId) : null;
+      // A race is also lost to a rival who clears the board first
+      const outpaced = mode === 'race' && !!board && checkOutcome(board) !== 'lost';
+      const raceText = !race || !rival
+        ? ''
+        : race.status !== 'finished'
+          ? ` ${rival.username} is still racing...`
+          : race.winner === null
+            ? ' The race is a draw!'
+            : ` ${rival.username} wins the race!`;
       
-      // ADD THIS CODE HERE - Update player stats for loss
-      if (context.userId && gameState?.players) {
-        // Debug before update
-        debugPlayerStats(context.userId, "Before Loss Update");
-        
-        // Find player and make a direct update
-        const playerIndex = gameState.players.findIndex(p => p.id === context.userId);
-        if (playerIndex !== -1) {
-          // Create a new state object with updated player stats
-          const updatedGameState = {
-            ...gameState,
-            players: [...gameState.players]
-          };
-          
-          // Update player stats directly - only increment games played
-          updatedGameState.players[playerIndex] = {
-            ...updatedGameState.players[playerIndex],
-            totalGamesPlayed: (updatedGameState.players[playerIndex].totalGamesPlayed || 0) + 1
-          };
-          
-          // Update global game state
-          setGameState(updatedGameState);
-          
-          // Debug after update
-          console.log("Player stats updated after loss:", updatedGameState.players[playerIndex]);
-          
-          // Persist to Redis immediately
-          context.redis.set(`bombsweeper_${context.postId}`, JSON.stringify(updatedGameState));
-        }
-      }  
       return (
         <vstack 
           width="100%" 
@@ -912,9 +1471,13 @@ Devvit.addCustomPostType({
           backgroundColor={THEME.background}
         >
           <vstack alignment="middle center" gap="medium">
-            <text size="xxlarge" weight="bold" color={THEME.error}>Boom! Game Over</text>
-            <text size="large" color={THEME.textSecondary}>
-              You hit a bomb! 💣
+            <text size="xxlarge" weight="bold" color={THEME.error}>{outpaced ? 'Outpaced!' : 'Boom! Game Over'}</text>
+            <text size="large" color={THEME.textSecondary} alignment="center" wrap>
+              {mode === 'coop' && coopCredits?.lostBy
+                ? `${coopCredits.players[coopCredits.lostBy]} hit a bomb! 💣`
+                : mode === 'race'
+                  ? (outpaced ? `${rival?.username} cleared the board first!` : `You hit a bomb! 💣${raceText}`)
+                  : 'You hit a bomb! 💣'}
             </text>
           </vstack>
           
@@ -924,7 +1487,7 @@ Devvit.addCustomPostType({
                 <vstack alignment="middle center">
                   <text color={THEME.textSecondary}>Revealed</text>
                   <text size="xlarge" weight="bold" color={THEME.textPrimary}>
-                    {revealedCount}/{grid.length - bombCount}
+                    {revealedCount}/{board ? safeCellCount(board) : 0}
                   </text>
                 </vstack>
                 <vstack alignment="middle center">
@@ -933,22 +1496,31 @@ Devvit.addCustomPostType({
                 </vstack>
               </hstack>
               <text color={THEME.textSecondary} size="small">
-                {DIFFICULTY[difficulty].name} • {gridSize}×{gridSize}
+                {board ? `${DIFFICULTY[board.difficulty].name} • ${board.width}×${board.height} • ${VARIANTS[board.variant].name}` : '-'} • Seed: {board?.seed ?? "-"}
               </text>
             </vstack>
             </Section>
           
-          <hstack gap="medium">
-            <ThemedButton onPress={() => setCurrentPage('home')}>
-              Home
-            </ThemedButton>
-            <ThemedButton 
-              primary
-              onPress={startGame}
-            >
-              Try Again
-            </ThemedButton>
-          </hstack>
+          {mode === 'coop' && renderCoopSummary()}
+          {mode === 'race' && renderRaceSummary()}
+          {mode === 'tournament' && renderTournamentSummary()}
+          
+          {mode === 'race' || mode === 'tournament' ? renderEventButtons() : (
+            <hstack gap="medium">
+              <ThemedButton onPress={() => setCurrentPage('home')}>
+                Home
+              </ThemedButton>
+              <ThemedButton onPress={() => (mode === 'coop' ? startCoop(board?.seed) : startGame(board?.seed))}>
+                Replay Board
+              </ThemedButton>
+              <ThemedButton 
+                primary
+                onPress={() => (mode === 'coop' ? startCoop() : startGame())}
+              >
+                Try Again
+              </ThemedButton>
+            </hstack>
+          )}
         </vstack>
       );
     };
@@ -964,6 +1536,10 @@ Devvit.addCustomPostType({
     
     // Render the Home page
     const renderHomePage = () => {
+      const today = dailyDate();
+      const todaysAttempt = dailyAttempt?.date === today ? dailyAttempt : null;
+      const streak = currentDailyStreak(dailyStreak, today);
+      
       return (
         <vstack 
           width="100%" 
@@ -979,14 +1555,77 @@ Devvit.addCustomPostType({
           </vstack>
           
           <vstack gap="medium" width="95%">
-            <ThemedButton primary onPress={() => setCurrentPage('setup')}>
+            {hasUnfinishedGame && board && (
+              <Section title="Unfinished Game">
+                <vstack gap="small" alignment="middle center">
+                  <text size="small" color={THEME.textSecondary}>
+                    {DIFFICULTY[board.difficulty].name} • {board.width}×{board.height} • {moveCount} moves • {formatTime(timeElapsed)}
+                  </text>
+                  <hstack gap="medium">
+                    <ThemedButton primary onPress={continueGame}>
+                      Continue
+                    </ThemedButton>
+                    <ThemedButton onPress={abandonCurrentGame}>
+                      Abandon
+                    </ThemedButton>
+                  </hstack>
+                </vstack>
+              </Section>
+            )}
+            
+            <ThemedButton primary={!hasUnfinishedGame} onPress={() => setCurrentPage('setup')}>
               New Game
             </ThemedButton>
             
-            <ThemedButton onPress={() => setCurrentPage('leaderboard')}>
+            {isJoined && (
+              <ThemedButton onPress={openCoopGame}>
+                👥 Co-op Game
+              </ThemedButton>
+            )}
+            
+            {!!context.userId && (
+              <ThemedButton onPress={showVersus}>
+                ⚔️ Versus{race?.status === 'pending' && race.opponent.userId === context.userId ? ' - challenge waiting!' : ''}
+              </ThemedButton>
+            )}
+            
+            <ThemedButton onPress={showTournament}>
+              🏆 Tournament
+            </ThemedButton>
+            
+            <ThemedButton onPress={todaysAttempt && todaysAttempt.outcome !== 'playing' ? showDailyLeaderboard : playDaily}>
+              📅 Daily Challenge
+            </ThemedButton>
+            <vstack alignment="middle center">
+              <text size="small" color={THEME.textSecondary}>
+                {!todaysAttempt
+                  ? "Today's board is waiting for you"
+                  : todaysAttempt.outcome === 'playing'
+                    ? "Today's board is in progress - tap to continue"
+                    : todaysAttempt.outcome === 'won'
+                      ? `Cleared today in ${formatTime(dailyResult(todaysAttempt).time)} - see how you rank`
+                      : 'Hit a bomb today - try again tomorrow'}
+              </text>
+              {streak > 0 && (
+                <text size="small" color={THEME.accentSecondary}>
+                  🔥 Daily streak: {streak}
+                </text>
+              )}
+            </vstack>
+            
+            <ThemedButton onPress={async () => {
+              await showLeaderboard(leaderboardScope, leaderboardVariant);
+              setCurrentPage('leaderboard');
+            }}>
               Leaderboard
             </ThemedButton>
             
+            {!!context.userId && (
+              <ThemedButton onPress={showStats}>
+                My Stats
+              </ThemedButton>
+            )}
+            
             {context.userId && !gameState?.players?.find(p => p.id === context.userId) && (
               <ThemedButton onPress={handleJoinGame}>
                 Join Game
@@ -1011,6 +1650,8 @@ Devvit.addCustomPostType({
     
     // Render the Setup page with difficulty selection
     const renderSetupPage = () => {
+      const best = bestScore[bestScoreKey(difficulty, variant)];
+      
       return (
         <vstack 
           width="100%" 
@@ -1027,7 +1668,7 @@ Devvit.addCustomPostType({
           
           <Section title="Difficulty">
             <hstack gap="small" wrap="wrap" alignment="middle center">
-              {Object.keys(DIFFICULTY).map(diff => (
+              {(Object.keys(DIFFICULTY) as Difficulty[]).map(diff => (
                 <ThemedButton 
                   primary={difficulty === diff}
                   onPress={() => setDifficulty(diff)}
@@ -1037,31 +1678,92 @@ Devvit.addCustomPostType({
               ))}
             </hstack>
             <text size="xsmall" color={THEME.textSecondary} alignment="center">
-              {difficulty === 'EASY' ? 'Fewer bombs (10%), deeper reveals' : 
-               difficulty === 'MEDIUM' ? 'Medium bombs (15%)' : 
-               'More bombs (20%), challenging!'}
+              {DIFFICULTY[difficulty].description}
             </text>
           </Section>
           
-          <Section title="Grid Size">
-            <hstack gap="small" wrap="wrap" alignment="middle center">
-              {[6, 8, 10, 12].map(size => (
-                <ThemedButton 
-                  primary={gridSize === size}
-                  onPress={() => setGridSize(size)}
+          {/* Classic presets come with a fixed board size */}
+          {!DIFFICULTY[difficulty].preset && (
+            <Section title="Grid Size">
+              <hstack gap="small" wrap="wrap" alignment="middle center">
+                {[6, 8, 10, 12].map(size => (
+                  <ThemedButton 
+                    primary={gridSize === size}
+                    onPress={() => setGridSize(size)}
+                  >
+                    {size}×{size}
+                  </ThemedButton>
+                ))}
+              </hstack>
+            </Section>
+          )}
+          
+          <Section title="Board Shape">
+            <hstack gap="small" alignment="middle center">
+              {(Object.keys(TOPOLOGIES) as Topology[]).map(shape => (
+                <ThemedButton primary={topology === shape} onPress={() => setTopology(shape)}>
+                  {TOPOLOGIES[shape].name}
+                </ThemedButton>
+              ))}
+            </hstack>
+            <text size="xsmall" color={THEME.textSecondary} alignment="center">
+              {TOPOLOGIES[topology].description}
+            </text>
+          </Section>
+          
+          <Section title="Rules">
+            <hstack gap="small" alignment="middle center">
+              {(Object.keys(VARIANTS) as Variant[]).map(rule => (
+                <ThemedButton
+                  primary={variant === rule}
+                  disabled={topology === 'hex' && VARIANTS[rule].ring !== VARIANTS.classic.ring}
+                  onPress={() => setVariant(rule)}
                 >
-                  {size}×{size}
+                  {VARIANTS[rule].name}
                 </ThemedButton>
               ))}
             </hstack>
+            <text size="xsmall" color={THEME.textSecondary} alignment="center">
+              {topology === 'hex' && VARIANTS[variant].ring !== VARIANTS.classic.ring
+                ? 'Hex cells always count their 6 neighbours'
+                : VARIANTS[variant].description}
+            </text>
+          </Section>
+          
+          <Section title="First Click">
+            <hstack gap="small" alignment="middle center">
+              <ThemedButton primary={!opening && !noGuess} disabled={noGuess} onPress={() => setOpening(false)}>
+                Safe Cell
+              </ThemedButton>
+              <ThemedButton primary={opening || noGuess} onPress={() => setOpening(true)}>
+                Opening
+              </ThemedButton>
+            </hstack>
+            <text size="xsmall" color={THEME.textSecondary} alignment="center">
+              {opening || noGuess ? 'No bombs in or around your first tap' : 'Your first tap is never a bomb'}
+            </text>
+          </Section>
+          
+          <Section title="No Guessing">
+            <hstack gap="small" alignment="middle center">
+              <ThemedButton primary={!noGuess} onPress={() => setNoGuess(false)}>
+                Off
+              </ThemedButton>
+              <ThemedButton primary={noGuess} onPress={() => setNoGuess(true)}>
+                On
+              </ThemedButton>
+            </hstack>
+            <text size="xsmall" color={THEME.textSecondary} alignment="center">
+              {noGuess ? 'Every board can be cleared by logic alone - no 50/50s' : 'Boards may come down to a lucky guess'}
+            </text>
           </Section>
           
           {/* Display best scores if they exist */}
-          {bestScore[difficulty].time !== Infinity && (
+          {best.time !== null && (
             <Section title="Best Score">
               <vstack alignment="middle center">
                 <text color={THEME.accentSecondary} weight="bold">
-                  {formatTime(bestScore[difficulty].time)} with {bestScore[difficulty].revealed} cells revealed
+                  {formatTime(best.time)} with {best.revealed} cells revealed
                 </text>
               </vstack>
             </Section>
@@ -1071,9 +1773,14 @@ Devvit.addCustomPostType({
             <ThemedButton onPress={() => setCurrentPage('home')}>
               Back
             </ThemedButton>
-            <ThemedButton primary onPress={startGame}>
+            <ThemedButton primary onPress={() => startGame()}>
               Start Game
             </ThemedButton>
+            {isJoined && (
+              <ThemedButton onPress={() => startCoop()}>
+                👥 Start Co-op
+              </ThemedButton>
+            )}
           </hstack>
         </vstack>
       );
@@ -1081,13 +1788,29 @@ Devvit.addCustomPostType({
     
     // Render the Game page
     const renderGamePage = () => {
-      // Adjust cell size based on grid size
-      const maxSize = 240;
-      const cellSize = `${Math.min(Math.floor(maxSize / gridSize), 40)}px`;
+      if (!board) return null;
+      
+      // Adjust cell size so the whole board fits, whichever side is longer
+      const maxWidth = 320;
+      const maxHeight = 240;
+      const isHex = board.topology === 'hex';
+      const cellPx = Math.min(
+        Math.floor(maxWidth / (isHex ? board.width + 0.5 : board.width)),
+        Math.floor(maxHeight / board.height),
+        40
+      );
+      const cellSize = `${cellPx}px` as const;
+      // Hex rows alternate by half a cell so each cell touches six others
+      const halfCell = `${Math.floor(cellPx / 2)}px` as const;
       
       // Calculate progress (percentage of non-bomb cells revealed)
-      const totalSafeCells = grid.length - bombCount;
+      const totalSafeCells = safeCellCount(board);
       const progressPercent = (revealedCount / totalSafeCells) * 100;
+      // The board stays hidden while paused so the clock can't be stopped to think
+      const paused = clock !== null && isPaused(clock);
+      // In a race, the rival's run as they last reported it
+      const rival = mode === 'race' && race && context.userId ? raceRival(race, context.userId) : null;
+      const rivalProgress = rival && race ? race.progress[rival.userId] : null;
       
       return (
         <vstack 
@@ -1104,14 +1827,24 @@ Devvit.addCustomPostType({
               <text color={THEME.textSecondary}>
                 Time: {formatTime(timeElapsed)}
               </text>
-              {streakCount > 0 && (
+              {isOwnGame && streakCount > 0 && (
                 <text size="small" color={THEME.accentSecondary}>
                   🔥 Win Streak: {streakCount}
                 </text>
               )}
+              {mode === 'coop' && coopCredits && (
+                <text size="small" color={THEME.accentSecondary} wrap>
+                  👥 {Object.keys(coopCredits.players).length > 0 ? contributorsText(coopCredits) : 'Co-op - nobody has moved yet'}
+                </text>
+              )}
             </vstack>
             
             <hstack gap="small">
+              {mode === 'free' && !gameOver && (
+                <ThemedButton small onPress={paused ? resumeGame : pauseGame}>
+                  {paused ? "▶ Resume" : "⏸ Pause"}
+                </ThemedButton>
+              )}
               <ThemedButton 
                 small 
                 primary={flagMode}
@@ -1121,7 +1854,11 @@ Devvit.addCustomPostType({
               </ThemedButton>
               <ThemedButton 
                 small
-                onPress={() => setCurrentPage('home')}
+                onPress={async () => {
+                  // Leaving the board stops the clock until the game is continued
+                  await pauseGame();
+                  setCurrentPage('home');
+                }}
               >
                 Menu
               </ThemedButton>
@@ -1155,86 +1892,143 @@ Devvit.addCustomPostType({
             </vstack>
           </hstack>
           
+          {/* The rival's progress on their copy of the board */}
+          {rival && rivalProgress && (
+            <vstack width="95%" gap="small">
+              <text size="xsmall" color={THEME.textSecondary}>
+                ⚔️ {rival.username}: {rivalProgress.revealed}/{totalSafeCells}{rivalProgress.outcome === 'lost' ? ' • 💥 out' : ''}
+              </text>
+              <hstack width="100%" height="6px" backgroundColor={THEME.progressBackground} cornerRadius="medium">
+                <hstack 
+                  width={`${(rivalProgress.revealed / totalSafeCells) * 100}%`} 
+                  height="100%" 
+                  backgroundColor={THEME.error} 
+                  cornerRadius="medium" 
+                />
+              </hstack>
+            </vstack>
+          )}
+          
           {/* Game info */}
           <hstack width="95%" alignment="start">
             <text size="xsmall" color={THEME.textSecondary}>
-              {gridSize}×{gridSize} • {DIFFICULTY[difficulty].name} • {revealedCount}/{totalSafeCells} cells revealed
+              {mode === 'daily' ? '📅 Daily • ' : mode === 'race' ? '⚔️ Race • ' : mode === 'tournament' ? `🏆 Round ${tournamentRound} • ` : ''}{board.width}×{board.height} • {DIFFICULTY[board.difficulty].name}{board.topology !== 'square' ? ` • ${TOPOLOGIES[board.topology].name}` : ''}{board.variant !== 'classic' ? ` • ${VARIANTS[board.variant].name}` : ''}{board.noGuess ? ' • No-guess' : ''} • {revealedCount}/{totalSafeCells} cells revealed
             </text>
           </hstack>
           
-          {/* Game grid */}
-          <vstack width="auto" gap="xsmall" alignment="middle center" padding="xsmall">
-            {Array.from({ length: gridSize }).map((_, rowIndex) => (
-              <hstack gap="xsmall">
-                {Array.from({ length: gridSize }).map((_, colIndex) => {
-                  const index = rowIndex * gridSize + colIndex;
-                  const cell = grid[index];
-                  
-                  // Determine cell appearance
-                  let cellBg = THEME.cellUnrevealed;
-                  let cellContent = '';
-                  let cellTextColor = THEME.textPrimary;
-                  
-                  if (cell.revealed) {
-                    cellBg = THEME.cellRevealed;
-                    
-                    if (cell.type === CELL_TYPES.BOMB) {
-                      cellBg = THEME.cellBomb;
-                      cellContent = '💣';
-                    } else if (cell.type === CELL_TYPES.NUMBER) {
-                      // Color-coded numbers based on value
-                      switch(cell.value) {
-                        case 1: cellTextColor = '#3498db'; break; // blue
-                        case 2: cellTextColor = '#2ecc71'; break; // green
-                        case 3: cellTextColor = '#e74c3c'; break; // red
-                        case 4: cellTextColor = '#9b59b6'; break; // purple
-                        case 5: cellTextColor = '#f1c40f'; break; // yellow
-                        case 6: cellTextColor = '#1abc9c'; break; // teal
-                        case 7: cellTextColor = '#e67e22'; break; // orange
-                        case 8: cellTextColor = '#7f8c8d'; break; // gray
-                      }
-                      cellContent = cell.value.toString();
+          {paused && (
+            <vstack 
+              width="95%" 
+              height={`${Math.min(board.height * (cellPx + 4), 240)}px`} 
+              alignment="middle center" 
+              gap="medium" 
+              backgroundColor={THEME.cellUnrevealed} 
+              cornerRadius="medium"
+            >
+              <text size="xlarge" weight="bold" color={THEME.accent}>Paused</text>
+              <text color={THEME.textSecondary}>The clock is stopped at {formatTime(timeElapsed)}</text>
+              <ThemedButton primary onPress={resumeGame}>
+                Resume
+              </ThemedButton>
+            </vstack>
+          )}
+          
+          {/* Game grid */}
+          {!paused && (
+            <vstack width="auto" gap="xsmall" alignment="middle center" padding="xsmall">
+              {Array.from({ length: board.height }).map((_, rowIndex) => (
+                <hstack gap="xsmall">
+                  {isHex && rowIndex % 2 === 1 && <hstack width={halfCell} height={cellSize} />}
+                  {Array.from({ length: board.width }).map((_, colIndex) => {
+                    const index = rowIndex * board.width + colIndex;
+                    const cell = board.cells[index];
+                  
+                    // Determine cell appearance
+                    let cellBg = THEME.cellUnrevealed;
+                    let cellContent = '';
+                    let cellTextColor = THEME.textPrimary;
+                  
+                    if (cell.revealed) {
+                      cellBg = THEME.cellRevealed;
+                    
+                      if (cell.type === CELL_TYPES.BOMB) {
+                        cellBg = THEME.cellBomb;
+                        cellContent = '💣';
+                      } else if (cell.type === CELL_TYPES.NUMBER) {
+                        // Color-coded numbers based on value
+                        switch(cell.value) {
+                          case 1: cellTextColor = '#3498db'; break; // blue
+                          case 2: cellTextColor = '#2ecc71'; break; // green
+                          case 3: cellTextColor = '#e74c3c'; break; // red
+                          case 4: cellTextColor = '#9b59b6'; break; // purple
+                          case 5: cellTextColor = '#f1c40f'; break; // yellow
+                          case 6: cellTextColor = '#1abc9c'; break; // teal
+                          case 7: cellTextColor = '#e67e22'; break; // orange
+                          case 8: cellTextColor = '#7f8c8d'; break; // gray
+                        }
+                        cellContent = cell.value.toString();
+                      }
+                    } else if (cell.flagged) {
+                      cellContent = '🚩';
                     }
-                  } else if (cell.flagged) {
-                    cellContent = '🚩';
-                  }
                   
-                  // Animation effect for newly revealed cells
-                  const animationStyle = cell.animating ? 
-                    { backgroundColor: THEME.safeReveal } : {};
+                    // Highlight cells opened by the last move
+                    const animationStyle = highlighted.includes(index) ? 
+                      { backgroundColor: THEME.safeReveal } : {};
+                    const isHinted = hint?.index === index;
                   
-                  return (
-                    <vstack
-                      width={cellSize}
-                      height={cellSize}
-                      backgroundColor={cellBg}
-                      border="thin"
-                      borderColor={flagMode && !cell.revealed ? THEME.accent : 'rgba(255, 255, 255, 0.1)'}
-                      cornerRadius="small"
-                      alignment="middle center"
-                      onPress={() => revealCell(index)}
-                      {...animationStyle}
-                    >
-                      <text 
-                        size={cell.type === CELL_TYPES.BOMB ? "large" : "medium"} 
-                        weight={cell.type === CELL_TYPES.NUMBER ? "bold" : "regular"}
-                        color={cellTextColor}
+                    return (
+                      <vstack
+                        width={cellSize}
+                        height={cellSize}
+                        backgroundColor={cellBg}
+                        border={isHinted ? "thick" : "thin"}
+                        borderColor={isHinted ? THEME.accentSecondary : flagMode && !cell.revealed ? THEME.accent : 'rgba(255, 255, 255, 0.1)'}
+                        cornerRadius={isHex ? "full" : "small"}
+                        alignment="middle center"
+                        onPress={() => revealCell(index)}
+                        {...animationStyle}
                       >
-                        {cellContent}
-                      </text>
-                    </vstack>
-                  );
-                })}
-              </hstack>
-            ))}
-          </vstack>
+                        <text 
+                          size={cell.type === CELL_TYPES.BOMB ? "large" : "medium"} 
+                          weight={cell.type === CELL_TYPES.NUMBER ? "bold" : "regular"}
+                          color={cellTextColor}
+                        >
+                          {cellContent}
+                        </text>
+                      </vstack>
+                    );
+                  })}
+                  {isHex && rowIndex % 2 === 0 && <hstack width={halfCell} height={cellSize} />}
+                </hstack>
+              ))}
+            </vstack>
+          )}
           
-          {/* Hint button */}
-          <hstack gap="small" alignment="middle center">
-            <ThemedButton small onPress={revealHint}>
-              💡 Hint (Reveal Safe Cells)
-            </ThemedButton>
-          </hstack>
+          {/* Hint button and explanation; the Daily Challenge, races and tournament rounds are played without hints */}
+          {mode !== 'daily' && mode !== 'race' && mode !== 'tournament' && !paused && (
+            <hstack gap="small" alignment="middle center">
+              <ThemedButton small onPress={showHint}>
+                💡 Hint
+              </ThemedButton>
+            </hstack>
+          )}
+          
+          {hint && (
+            <vstack 
+              width="95%" 
+              backgroundColor="rgba(3, 218, 198, 0.1)" 
+              padding="small" 
+              cornerRadius="medium"
+            >
+              <text size="small" weight="bold" color={THEME.accentSecondary}>
+                {hint.forced ? (hint.action === 'flag' ? 'Flag' : 'Reveal') : 'Best guess'} {cellLabel(board, hint.index)}
+              </text>
+              <text size="small" color={THEME.textSecondary} wrap>
+                {hint.explanation}
+              </text>
+            </vstack>
+          )}
           
           {/* Game instructions */}
           <hstack 
@@ -1247,6 +2041,7 @@ Devvit.addCustomPostType({
           >
             <text size="small" color={THEME.textSecondary}>
               {flagMode ? "Tap to place flags" : "Tap to reveal cells"}
+              {context.userId ? "" : " • Practice board, log in to save your games"}
             </text>
           </hstack>
         </vstack>
@@ -1255,7 +2050,11 @@ Devvit.addCustomPostType({
 
     // Render the enhanced Leaderboard page with player stats
     const renderLeaderboardPage = () => {
-      const sortedPlayers = [...(gameState?.players || [])].sort((a, b) => b.score - a.score);
+      const sortedPlayers = [...(gameState?.players || [])]
+        .sort((a, b) => scoreFor(b, leaderboardVariant) - scoreFor(a, leaderboardVariant));
+      const bestTimes = leaderboardScope === 'post' ? bestScore : standingsBest;
+      const bestFor = (diff: Difficulty) => bestTimes[bestScoreKey(diff, leaderboardVariant)];
+      const pastSeason = leaderboardScope === 'season' && !!seasonView && seasonView.number !== seasonView.latest;
       
       return (
         <vstack 
@@ -1271,9 +2070,68 @@ Devvit.addCustomPostType({
             <text color={THEME.textSecondary}>Top Crossminers</text>
           </vstack>
           
+          {/* This post, or every Crossmines post in the subreddit */}
+          <hstack gap="small" alignment="middle center">
+            {(Object.keys(STANDINGS_SCOPES) as StandingsScope[]).map(scope => (
+              <ThemedButton small primary={leaderboardScope === scope} onPress={() => showLeaderboard(scope, leaderboardVariant)}>
+                {STANDINGS_SCOPES[scope].name}
+              </ThemedButton>
+            ))}
+          </hstack>
+          
+          {/* Past seasons are paged through from the current one */}
+          {leaderboardScope === 'season' && seasonView && (
+            <hstack gap="small" alignment="middle center">
+              <ThemedButton
+                small
+                disabled={seasonView.number <= 1}
+                onPress={() => showLeaderboard('season', leaderboardVariant, seasonView.number - 1)}
+              >
+                ‹
+              </ThemedButton>
+              <text weight="bold" color={THEME.textPrimary}>
+                Season {seasonView.number}{seasonView.number === seasonView.latest ? ' (current)' : seasonView.endedAt ? `, ended ${new Date(seasonView.endedAt).toISOString().slice(0, 10)}` : ''}
+              </text>
+              <ThemedButton
+                small
+                disabled={seasonView.number >= seasonView.latest}
+                onPress={() => showLeaderboard('season', leaderboardVariant, seasonView.number + 1)}
+              >
+                ›
+              </ThemedButton>
+            </hstack>
+          )}
+          
+          {/* Each rule variant has its own rankings */}
+          <hstack gap="small" alignment="middle center">
+            {(Object.keys(VARIANTS) as Variant[]).map(rule => (
+              <ThemedButton small primary={leaderboardVariant === rule} onPress={() => showLeaderboard(leaderboardScope, rule, seasonView?.number)}>
+                {VARIANTS[rule].name}
+              </ThemedButton>
+            ))}
+          </hstack>
+          
           <Section>
             <vstack gap="medium" width="100%">
-              {sortedPlayers.length > 0 ? (
+              {leaderboardScope !== 'post' ? (
+                standings.length > 0 ? (
+                  standings.map((standing, index) => (
+                    <RankingRow
+                      rank={index + 1}
+                      name={standing.username}
+                      detail={`${standing.score} pts · ${standing.wins} ${standing.wins === 1 ? 'win' : 'wins'}`}
+                    />
+                  ))
+                ) : (
+                  <vstack alignment="middle center" padding="medium">
+                    <text color={THEME.textSecondary}>
+                      {pastSeason
+                        ? 'No wins recorded for this season'
+                        : `No wins ${leaderboardScope === 'week' ? 'this week' : leaderboardScope === 'season' ? 'this season' : 'in this subreddit'} yet!`}
+                    </text>
+                  </vstack>
+                )
+              ) : sortedPlayers.length > 0 ? (
                 sortedPlayers.map((player, index) => (
                   <vstack 
                     gap="small" 
@@ -1286,7 +2144,7 @@ Devvit.addCustomPostType({
                         #{index + 1} {player.username}
                       </text>
                       <text weight="bold" color={THEME.textPrimary}>
-                        Score: {player.score}
+                        Score: {scoreFor(player, leaderboardVariant)}
                       </text>
                     </hstack>
                     
@@ -1327,33 +2185,444 @@ Devvit.addCustomPostType({
             </vstack>
           </Section>
           
-{/* Best scores section */}
-<Section title="Best Times">
-            <vstack gap="medium" width="100%">
-              {Object.keys(DIFFICULTY).map(diff => (
-                <hstack 
-                  gap="small" 
-                  padding="small" 
-                  cornerRadius="medium" 
-                  backgroundColor="rgba(3, 218, 198, 0.1)"
-                  alignment="middle space-between"
-                >
-                  <text weight="bold" color={THEME.textPrimary}>
-                    {DIFFICULTY[diff].name}
-                  </text>
+          {/* Best scores section; closed seasons only keep their standings */}
+          {!pastSeason && (
+            <Section title="Best Times">
+              <vstack gap="medium" width="100%">
+                {(Object.keys(DIFFICULTY) as Difficulty[]).map(diff => (
+                  <hstack 
+                    gap="small" 
+                    padding="small" 
+                    cornerRadius="medium" 
+                    backgroundColor="rgba(3, 218, 198, 0.1)"
+                    alignment="middle space-between"
+                  >
+                    <text weight="bold" color={THEME.textPrimary}>
+                      {DIFFICULTY[diff].name}
+                    </text>
                   
-                  {bestScore[diff].time !== Infinity ? (
-                    <text weight="bold" color={THEME.accentSecondary}>
-                      {formatTime(bestScore[diff].time)}
+                    {bestFor(diff).time !== null ? (
+                      <text weight="bold" color={THEME.accentSecondary}>
+                        {formatTime(bestFor(diff).time ?? 0)}{bestFor(diff).username ? ` by ${bestFor(diff).username}` : ''}
+                      </text>
+                    ) : (
+                      <text color={THEME.textSecondary}>No record yet</text>
+                    )}
+                  </hstack>
+                ))}
+              </vstack>
+            </Section>
+          )}
+
+          <ThemedButton onPress={() => setCurrentPage('home')}>
+            Back to Home
+          </ThemedButton>
+        </vstack>
+      );
+    };
+    
+    // Render today's Daily Challenge results and the player's own attempt
+    const renderDailyPage = () => {
+      const today = dailyDate();
+      const todaysAttempt = dailyAttempt?.date === today ? dailyAttempt : null;
+      const ranked = rankDailyResults(dailyResults);
+      const rank = ranked.findIndex(result => result.userId === context.userId);
+      const streak = currentDailyStreak(dailyStreak, today);
+      
+      return (
+        <vstack 
+          width="100%" 
+          height="100%" 
+          alignment="middle center" 
+          gap="large" 
+          padding="large"
+          backgroundColor={THEME.background}
+        >
+          <vstack alignment="middle center" gap="small">
+            <text size="xlarge" weight="bold" color={THEME.accent}>Daily Challenge</text>
+            <text color={THEME.textSecondary}>{today} • Same board for everyone, one attempt each</text>
+          </vstack>
+          
+          <Section title="Your Result">
+            <vstack alignment="middle center" gap="small">
+              <text weight="bold" color={todaysAttempt?.outcome === 'lost' ? THEME.error : THEME.accentSecondary}>
+                {!todaysAttempt
+                  ? 'Not played yet'
+                  : todaysAttempt.outcome === 'playing'
+                    ? 'In progress'
+                    : todaysAttempt.outcome === 'won'
+                      ? `Cleared in ${formatTime(dailyResult(todaysAttempt).time)} with ${todaysAttempt.moves} moves`
+                      : `Hit a bomb after ${todaysAttempt.moves} moves`}
+              </text>
+              {rank !== -1 && (
+                <text color={THEME.textPrimary}>Rank #{rank + 1} of {ranked.length}</text>
+              )}
+              <text size="small" color={THEME.textSecondary}>
+                🔥 Daily streak: {streak} • Best: {dailyStreak.best}
+              </text>
+            </vstack>
+          </Section>
+          
+          <Section title="Today's Leaderboard">
+            <vstack gap="small" width="100%">
+              {ranked.length > 0 ? (
+                ranked.slice(0, 10).map((result, index) => (
+                  <hstack 
+                    padding="small" 
+                    cornerRadius="medium" 
+                    backgroundColor={result.userId === context.userId ? "rgba(3, 218, 198, 0.15)" : "rgba(187, 134, 252, 0.1)"}
+                    alignment="middle space-between"
+                  >
+                    <text weight="bold" color={THEME.accent}>
+                      #{index + 1} {result.username}
+                    </text>
+                    <text color={THEME.textPrimary}>
+                      {formatTime(result.time)} • {result.moves} moves
+                    </text>
+                  </hstack>
+                ))
+              ) : (
+                <text color={THEME.textSecondary}>Nobody has cleared today's board yet!</text>
+              )}
+            </vstack>
+          </Section>
+          
+          <hstack gap="medium">
+            <ThemedButton onPress={() => setCurrentPage('home')}>
+              Home
+            </ThemedButton>
+            {(!todaysAttempt || todaysAttempt.outcome === 'playing') && (
+              <ThemedButton primary onPress={playDaily}>
+                {todaysAttempt ? 'Continue' : 'Play'}
+              </ThemedButton>
+            )}
+          </hstack>
+        </vstack>
+      );
+    };
+    
+    // The viewer's race, and the players they can challenge to one on a board with their settings
+    const renderVersusPage = () => {
+      const rival = race && context.userId ? raceRival(race, context.userId) : null;
+      const rivals = (gameState?.players ?? []).filter(p => p.id !== context.userId);
+      const inRace = race !== null && race.status !== 'finished';
+      const running = race?.status === 'racing' && race.progress[context.userId ?? '']?.outcome === 'playing';
+      
+      return (
+        <vstack 
+          width="100%" 
+          height="100%" 
+          alignment="middle center" 
+          gap="medium" 
+          padding="large"
+          backgroundColor={THEME.background}
+        >
+          <vstack alignment="middle center" gap="small">
+            <text size="xlarge" weight="bold" color={THEME.accent}>⚔️ Versus</text>
+            <text color={THEME.textSecondary} alignment="center">Race another player on the same board - the first to clear it wins</text>
+          </vstack>
+          
+          {race && rival && (
+            <Section title={`${race.challenger.username} vs ${race.opponent.username}`}>
+              <vstack alignment="middle center" gap="small">
+                <text size="small" color={THEME.textSecondary}>
+                  {describeRaceBoard(race.settings)} • Seed: {race.settings.seed}
+                </text>
+                {race.status === 'pending' ? (
+                  <text color={THEME.textPrimary}>
+                    {race.opponent.userId === context.userId
+                      ? `${rival.username} challenges you to a race!`
+                      : `Waiting for ${rival.username} to accept...`}
+                  </text>
+                ) : (
+                  raceEntrants(race).map(entrant => (
+                    <text size="small" color={race.winner === entrant.userId ? THEME.accentSecondary : THEME.textPrimary}>
+                      {describeRaceRun(race, entrant)}
                     </text>
-                  ) : (
-                    <text color={THEME.textSecondary}>No record yet</text>
+                  ))
+                )}
+                {race.status === 'finished' && (
+                  <text weight="bold" color={THEME.accentSecondary}>
+                    {race.winner === null ? "It's a draw!" : race.winner === context.userId ? 'You won!' : `${rival.username} won`}
+                  </text>
+                )}
+                <hstack gap="medium">
+                  {race.status === 'pending' && race.opponent.userId === context.userId && (
+                    <ThemedButton primary onPress={acceptChallenge}>
+                      Accept
+                    </ThemedButton>
+                  )}
+                  {race.status === 'pending' && (
+                    <ThemedButton onPress={cancelChallenge}>
+                      {race.opponent.userId === context.userId ? 'Decline' : 'Withdraw'}
+                    </ThemedButton>
+                  )}
+                  {running && (
+                    <ThemedButton primary onPress={openRace}>
+                      Continue
+                    </ThemedButton>
+                  )}
+                  {running && (
+                    <ThemedButton onPress={forfeit}>
+                      Give Up
+                    </ThemedButton>
                   )}
                 </hstack>
+              </vstack>
+            </Section>
+          )}
+          
+          <Section title="Challenge">
+            <vstack gap="small" width="100%">
+              <text size="xsmall" color={THEME.textSecondary} alignment="center">
+                Races are played on a {DIFFICULTY[difficulty].name}{topology !== 'square' ? ` ${TOPOLOGIES[topology].name}` : ''}{variant !== 'classic' ? ` ${VARIANTS[variant].name}` : ''} board, from your game settings
+              </text>
+              {!isJoined ? (
+                <text color={THEME.textSecondary}>Join the game to challenge other players</text>
+              ) : rivals.length === 0 ? (
+                <text color={THEME.textSecondary}>Nobody else has joined yet</text>
+              ) : (
+                rivals.slice(0, 5).map(player => (
+                  <hstack width="100%" alignment="middle">
+                    <text color={THEME.textPrimary}>{player.username}</text>
+                    <spacer grow />
+                    <ThemedButton small disabled={inRace} onPress={() => challengePlayer(player)}>
+                      Challenge
+                    </ThemedButton>
+                  </hstack>
+                ))
+              )}
+            </vstack>
+          </Section>
+          
+          <hstack gap="medium">
+            <ThemedButton onPress={() => setCurrentPage('home')}>
+              Back
+            </ThemedButton>
+            <ThemedButton onPress={() => setCurrentPage('setup')}>
+              Settings
+            </ThemedButton>
+          </hstack>
+        </vstack>
+      );
+    };
+    
+    // The post's tournament: who has registered, the round being played with the viewer's match,
+    // or the final placings. Entrants are ranked like the leaderboard, by their points in the post.
+    const renderTournamentPage = () => {
+      const round = tournament && currentRound(tournament);
+      const userId = context.userId ?? '';
+      const match = round ? roundMatch(round, userId) : null;
+      const run = round?.runs[userId];
+      const rival = match?.players.find(player => player !== userId) ?? null;
+      const points = (entrantId: string) => gameState?.players.find(p => p.id === entrantId)?.score ?? 0;
+      const out = tournament ? eliminatedIn(tournament, userId) : null;
+      const matchText = !tournament || !round
+        ? ''
+        : !isRegistered(tournament, userId)
+          ? "You're not in this tournament"
+          : out !== null
+            ? `You went out in round ${out}`
+            : !match || !rival
+              ? "You have a bye this round - you're through"
+              : !run
+                ? `You play ${entrantName(tournament, rival)}. Your clock starts when you open the board.`
+                : run.outcome === 'playing'
+                  ? `Your run against ${entrantName(tournament, rival)} is under way`
+                  : `Your run is in - waiting on ${entrantName(tournament, rival)}`;
+      const canPlay = !!tournament && !!context.userId &&
+        (canStartRun(tournament, userId) || (run?.outcome === 'playing' && match?.winner === null));
+      
+      return (
+        <vstack 
+          width="100%" 
+          height="100%" 
+          alignment="middle center" 
+          gap="medium" 
+          padding="large"
+          backgroundColor={THEME.background}
+        >
+          <vstack alignment="middle center" gap="small">
+            <text size="xlarge" weight="bold" color={THEME.accent}>🏆 {tournament?.name ?? 'Tournament'}</text>
+            <text color={THEME.textSecondary} alignment="center">
+              {tournament ? `${describeRaceBoard(tournament.settings)} • Knockout, one seeded board per round` : 'Knockout events run by the moderators'}
+            </text>
+          </vstack>
+          
+          {!tournament && (
+            <Section>
+              <text color={THEME.textSecondary} alignment="center" wrap>
+                No tournament in this post yet. Moderators can start one from the post's menu.
+              </text>
+            </Section>
+          )}
+          
+          {tournament?.status === 'registration' && (
+            <Section title={`Registered (${tournament.entrants.length})`}>
+              <text size="small" color={THEME.textSecondary} alignment="center">
+                Registration closes {formatUtc(tournament.deadline ?? Date.now())} • Seeded by points in this post
+              </text>
+              <vstack gap="small" width="100%">
+                {tournament.entrants.length > 0 ? (
+                  [...tournament.entrants]
+                    .sort((a, b) => points(b.userId) - points(a.userId))
+                    .slice(0, 8)
+                    .map((entrant, index) => (
+                      <RankingRow
+                        rank={index + 1}
+                        name={entrant.username}
+                        detail={`${points(entrant.userId)} pts`}
+                        highlight={entrant.userId === context.userId}
+                      />
+                    ))
+                ) : (
+                  <text color={THEME.textSecondary}>Nobody has registered yet</text>
+                )}
+              </vstack>
+              {!!context.userId && !isRegistered(tournament, userId) && (
+                isJoined ? (
+                  <ThemedButton primary onPress={registerTournament}>
+                    Register
+                  </ThemedButton>
+                ) : (
+                  <text size="small" color={THEME.textSecondary} alignment="center">Join the game to register</text>
+                )
+              )}
+            </Section>
+          )}
+          
+          {tournament?.status === 'playing' && round && (
+            <Section title={`Round ${round.number}`}>
+              <text size="small" color={THEME.textSecondary} alignment="center">
+                Seed: {round.settings.seed} • Closes {formatUtc(round.endsAt)}
+              </text>
+              <vstack gap="small" width="100%">
+                {round.matches.slice(0, 8).map(other => (
+                  <text size="small" color={other.players.includes(userId) ? THEME.accentSecondary : THEME.textPrimary} wrap>
+                    {describeMatch(tournament, round, other)}
+                  </text>
+                ))}
+              </vstack>
+              <vstack alignment="middle center" gap="small">
+                <text weight="bold" color={THEME.textPrimary} alignment="center">{matchText}</text>
+                {canPlay && (
+                  <ThemedButton primary onPress={playTournamentRound}>
+                    {run ? 'Continue' : `Play Round ${round.number}`}
+                  </ThemedButton>
+                )}
+              </vstack>
+            </Section>
+          )}
+          
+          {tournament?.status === 'finished' && (
+            <Section title={tournament.champion ? 'Final Placings' : 'Called Off'}>
+              {tournament.champion ? (
+                <vstack gap="small" width="100%">
+                  {tournamentPlacings(tournament).slice(0, 8).map((placing, index) => (
+                    <RankingRow
+                      rank={index + 1}
+                      name={placing.username}
+                      detail={placingText(tournament, placing.reached)}
+                      highlight={placing.userId === context.userId}
+                    />
+                  ))}
+                </vstack>
+              ) : (
+                <text color={THEME.textSecondary} alignment="center">
+                  Fewer than {TOURNAMENT_MIN_ENTRANTS} players registered
+                </text>
+              )}
+            </Section>
+          )}
+          
+          <hstack gap="medium">
+            <ThemedButton onPress={() => setCurrentPage('home')}>
+              Back
+            </ThemedButton>
+            {!!tournament && tournament.status !== 'finished' && (
+              <ThemedButton onPress={showTournament}>
+                Refresh
+              </ThemedButton>
+            )}
+          </hstack>
+        </vstack>
+      );
+    };
+    
+    // A player's record over every post: results, streaks, best times and recent games
+    const renderStatsPage = () => {
+      const { username, stats, history } = statsView ?? { username: '', stats: emptyStats(), history: [] };
+      const average = averageWinTime(stats);
+      const difficultyTimes = (Object.keys(DIFFICULTY) as Difficulty[])
+        .filter(diff => stats.bestByDifficulty[diff] !== undefined)
+        .map(diff => `${DIFFICULTY[diff].name} ${formatTime(stats.bestByDifficulty[diff] ?? 0)}`);
+      const sizeTimes = Object.entries(stats.bestBySize).map(([size, time]) => `${size.replace('x', '×')} ${formatTime(time)}`);
+      const tiles = [
+        { label: 'Games', value: `${stats.games}` },
+        { label: 'Win Rate', value: formatPercent(winRate(stats)) },
+        { label: 'Avg Win', value: average === null ? '-' : formatTime(average) },
+        { label: 'Streak', value: `${stats.currentStreak}` },
+        { label: 'Longest', value: `${stats.longestStreak}` },
+      ];
+      
+      return (
+        <vstack 
+          width="100%" 
+          height="100%" 
+          alignment="middle center" 
+          gap="medium" 
+          padding="large"
+          backgroundColor={THEME.background}
+        >
+          <vstack alignment="middle center" gap="small">
+            <text size="xlarge" weight="bold" color={THEME.accent}>{username}'s Stats</text>
+            <text color={THEME.textSecondary}>Every Crossmines post in the subreddit</text>
+          </vstack>
+          
+          <Section>
+            <hstack gap="medium" alignment="middle center" width="100%">
+              {tiles.map(tile => (
+                <vstack alignment="middle center">
+                  <text size="small" color={THEME.textSecondary}>{tile.label}</text>
+                  <text weight="bold" color={THEME.textPrimary}>{tile.value}</text>
+                </vstack>
               ))}
+            </hstack>
+            <text size="small" color={THEME.textSecondary} alignment="center">
+              {stats.cellsRevealed} cells revealed • Flag accuracy {formatPercent(flagAccuracy(stats))} of {stats.flagsPlaced}
+            </text>
+            {stats.matches > 0 && (
+              <text size="small" color={THEME.textSecondary} alignment="center">
+                ⚔️ Matches: {stats.matches} ({stats.matchesWon} won)
+              </text>
+            )}
+          </Section>
+          
+          <Section title="Best Times">
+            <text size="small" color={THEME.textPrimary} wrap>
+              {difficultyTimes.length > 0 ? difficultyTimes.join(' • ') : 'No wins yet'}
+            </text>
+            {sizeTimes.length > 0 && (
+              <text size="small" color={THEME.textSecondary} wrap>
+                By size: {sizeTimes.join(' • ')}
+              </text>
+            )}
+          </Section>
+          
+          <Section title="Recent Games">
+            <vstack gap="small" width="100%">
+              {history.length > 0 ? (
+                history.slice(0, 5).map(record => (
+                  <text size="small" color={record.result === 'won' ? THEME.accentSecondary : THEME.textPrimary}>
+                    {describeGameRecord(record)}
+                  </text>
+                ))
+              ) : (
+                <text color={THEME.textSecondary}>No finished games yet</text>
+              )}
             </vstack>
           </Section>
-
+          
           <ThemedButton onPress={() => setCurrentPage('home')}>
             Back to Home
           </ThemedButton>
@@ -1370,6 +2639,10 @@ Devvit.addCustomPostType({
         {currentPage === 'win' && renderWinPage()}
         {currentPage === 'lose' && renderLosePage()}
         {currentPage === 'leaderboard' && renderLeaderboardPage()}
+        {currentPage === 'daily' && renderDailyPage()}
+        {currentPage === 'stats' && renderStatsPage()}
+        {currentPage === 'versus' && renderVersusPage()}
+        {currentPage === 'tournament' && renderTournamentPage()}
       </blocks>
     );
   }
@@ -1394,162 +2667,976 @@ Devvit.addMenuItem({
       ),
     });
     
+    // Season results are announced on the newest game
+    await rememberLatestPost(context.redis, post.id);
+    
     ui.showToast({ text: 'Crossmines game created!' });
     ui.navigateTo(post);
   }
 });
 
-// Comment commands handler for game interaction
-Devvit.addTrigger({
-  event: 'CommentCreate',
-  async onEvent(event, context) {
-    if (!event.comment?.postId) return;
-    const storedState = await context.redis.get(`bombsweeper_${event.comment.postId}`);
-    if (!storedState) return;
-    
-    const gameState = JSON.parse(storedState);
-    const comment = event.comment;
-    if (!comment) return;
-    
-    // Parse commands in comments
-    const commandMatch = comment.body.match(/^\/([a-z_]+)(?: (.+))?$/i);
-    if (!commandMatch) return;
+// Work out every counter, stat and standing again from the game ledger, e.g. after a bad deploy
+Devvit.addMenuItem({
+  label: 'Rebuild Crossmines Stats',
+  location: 'subreddit',
+  forUserType: 'moderator',
+  onPress: async (_, context) => {
+    try {
+      const rebuilt = await rebuildFromLedger(context.redis);
+      context.ui.showToast({
+        text: `Replayed ${rebuilt.events} games over ${rebuilt.posts} posts and ${rebuilt.players} players`,
+      });
+    } catch (error) {
+      console.error("Error rebuilding stats from the ledger:", error);
+      context.ui.showToast({ text: 'Rebuilding the stats failed' });
+    }
+  }
+});
+
+// Put up a board for the whole subreddit to play by voting, shown in a pinned bot comment
+Devvit.addMenuItem({
+  label: 'Start Crossmines Community Vote',
+  location: 'post',
+  forUserType: 'moderator',
+  onPress: async (event, context) => {
+    const postId = event.targetId;
+    try {
+      if (!(await migratePost(context.redis, postId))) {
+        context.ui.showToast({ text: 'This post has no Crossmines game' });
+        return;
+      }
+      
+      const minutes = (await context.settings.get<number>('vote-round-minutes')) ?? DEFAULT_VOTE_ROUND_MINUTES;
+      const game = newCommunityGame(postId, createBoard('MEDIUM', { width: 8, height: 8 }), minutes);
+      if (!(await startCommunityGame(context.redis, game))) {
+        context.ui.showToast({ text: 'A community board is already being played in this post' });
+        return;
+      }
+      
+      const comment = await context.reddit.submitComment({ text: communityBoardText(game), id: postId });
+      await comment.distinguish(true);
+      await pinCommunityComment(context.redis, postId, comment.id);
+      context.ui.showToast({ text: 'Community board started - vote with /vote' });
+    } catch (error) {
+      console.error("Error starting the community board:", error);
+      context.ui.showToast({ text: 'Starting the community board failed' });
+    }
+  }
+});
+
+// Announcement of a closed season's winners: the podium of each variant that saw a win
+const seasonResultsText = (archive: SeasonArchive) => {
+  const medals = ['🥇', '🥈', '🥉'];
+  const podiums = (Object.keys(VARIANTS) as Variant[]).flatMap(variant => {
+    const standings = archive.standings[variant] ?? [];
+    if (standings.length === 0) return [];
+    
+    const places = standings.slice(0, medals.length)
+      .map((standing, index) => `${medals[index]} ${standing.username}: ${standing.score} points, ${standing.wins} ${standing.wins === 1 ? 'win' : 'wins'}`);
+    return [`## ${VARIANTS[variant].name}\n\n${places.join('\n\n')}`];
+  });
+  
+  return `# Season ${archive.number} is over! 🏆\n\n${podiums.length > 0 ? podiums.join('\n\n') : 'Nobody won a game this season.'}\n\nSeason ${archive.number + 1} starts now with a clean slate. Use \`/leaderboard season:${archive.number}\` to see the final standings.`;
+};
+
+// Close the leaderboard season once it has run its length, archiving its standings and announcing the winners
+Devvit.addSchedulerJob({
+  name: 'close-season',
+  onRun: async (_, context) => {
+    const days = (await context.settings.get<number>('season-days')) ?? DEFAULT_SEASON_DAYS;
+    const archive = await closeSeason(context.redis, days);
+    if (!archive) return;
+    
+    const postId = await loadLatestPost(context.redis);
+    if (!postId) return;
+    try {
+      await context.reddit.submitComment({ text: seasonResultsText(archive), id: postId });
+    } catch (error) {
+      console.error("Error announcing the season results:", error);
+    }
+  },
+});
+
+// Check daily whether the season is over; rescheduled on upgrade so there's only ever one such job
+Devvit.addTrigger({
+  events: ['AppInstall', 'AppUpgrade'],
+  onEvent: async (_, context) => {
+    const jobs = await context.scheduler.listJobs();
+    await Promise.all(jobs.filter(job => job.name === 'close-season').map(job => context.scheduler.cancelJob(job.id)));
+    await context.scheduler.runJob({ name: 'close-season', cron: '0 0 * * *' });
+  },
+});
+
+// Wake up when a challenge lapses or a race's time is up; a job for a deadline the race has moved on from does nothing
+const scheduleRaceDeadline = async (context: JobContext, race: Race) => {
+  const deadline = raceDeadline(race);
+  if (deadline === null) return;
+  
+  await context.scheduler.runJob({
+    name: 'race-deadline',
+    runAt: new Date(deadline),
+    data: { postId: race.postId, raceId: race.id, deadline },
+  });
+};
+
+// Drop a challenge nobody accepted, or stop a race nobody finished, so neither player is stuck in it
+Devvit.addSchedulerJob<{ postId: string; raceId: string; deadline: number }>({
+  name: 'race-deadline',
+  onRun: async (event, context) => {
+    const { postId, raceId, deadline } = event.data;
+    const race = await expireRace(context.redis, postId, raceId, deadline);
+    if (!race) return;
+    
+    const message: RaceMessage = { race: JSON.stringify(race), cancelled: race.status === 'pending' };
+    await context.realtime.send(`race_${postId}`, message);
+    if (message.cancelled) return;
+    try {
+      await context.reddit.submitComment({ text: raceSummaryText(race), id: postId });
+    } catch (error) {
+      console.error("Error posting race summary:", error);
+    }
+  },
+});
+
+// The bot's report on a hot potato game: what just happened, then the board and whose turn it is,
+// who has signed up, or who won
+const potatoUpdateText = (game: PotatoGame, news: string) => {
+  const name = (userId: string | null) => potatoPlayer(game, userId)?.username ?? 'someone';
+  
+  if (game.status === 'signup') {
+    return `${news}\n\n🥔 Signed up: ${game.players.map(player => player.username).join(', ')}\n\nReply in this thread with \`/potato join\` to play. u/${game.host.username} can start once ${POTATO_MIN_PLAYERS} players are in with \`/potato start\`, or the game starts by itself ${POTATO_SIGNUP_MINUTES} minutes after it was hosted.`;
+  }
+  if (game.status === 'finished') {
+    if (!game.winner) return news;
+    const out = game.eliminated.map(userId => name(userId)).join(', ');
+    return `${news}\n\n${generateAsciiGrid(game.board, true)}\n\n# 🥔 u/${name(game.winner)} is the last one standing and wins!\n\nOut, in order: ${out || 'nobody'}\n\nHost another game with \`/potato [difficulty]\`.`;
+  }
+  return `${news}\n\n${generateAsciiGrid(game.board)}\n\n🥔 u/${name(game.turn)}, it's your turn! Reply in this thread with \`/reveal row col\` within ${POTATO_TURN_MINUTES} minutes, or you're out.\n\nStill in: ${potatoStanding(game).map(player => player.username).join(', ')}`;
+};
+
+// Post in a hot potato game's thread, counting the bot's comment as part of it so players can reply to it
+const postToPotatoThread = async (context: JobContext, game: PotatoGame, text: string) => {
+  const reply = await context.reddit.submitComment({ text, id: game.thread[0] });
+  await notePotatoComments(context.redis, game.postId, [reply.id]);
+};
+
+// Wake up when signups close or the turn runs out; a job for a deadline that has moved on does nothing
+const schedulePotatoDeadline = async (context: JobContext, game: PotatoGame) => {
+  if (game.deadline === null) return;
+  
+  await context.scheduler.runJob({
+    name: 'potato-deadline',
+    runAt: new Date(game.deadline),
+    data: { postId: game.postId, deadline: game.deadline },
+  });
+};
+
+// Report a change to a hot potato game in its thread, scheduling the new deadline it sets
+const reportPotato = async (context: JobContext, { before, game }: PotatoChange, news: string) => {
+  if (game.deadline !== before.deadline) await schedulePotatoDeadline(context, game);
+  await postToPotatoThread(context, game, potatoUpdateText(game, news));
+};
+
+// Run out the clock on a hot potato game, so it never stalls: signups close, or the player
+// whose turn it is is out
+Devvit.addSchedulerJob<{ postId: string; deadline: number }>({
+  name: 'potato-deadline',
+  onRun: async (event, context) => {
+    const { postId, deadline } = event.data;
+    const change = await expirePotatoDeadline(context.redis, postId, deadline);
+    if (!change) return;
+    
+    const { before, game } = change;
+    const news = before.status !== 'signup'
+      ? `⏰ u/${potatoPlayer(before, before.turn)?.username ?? 'someone'} ran out of time and is out!`
+      : game.status === 'playing'
+        ? "Signups are closed - let's play!"
+        : `Not enough players signed up for hot potato, so the game is off. It takes ${POTATO_MIN_PLAYERS}.`;
+    try {
+      await reportPotato(context, change, news);
+    } catch (error) {
+      console.error("Error reporting the hot potato game:", error);
+    }
+  },
+});
+
+// A move voted for on the community board, e.g. "🚩 Flag 5 6"
+const describeVoteMove = (board: Board, { action, index }: VoteMove) =>
+  `${action === 'flag' ? '🚩 Flag' : 'Reveal'} ${Math.floor(index / board.width) + 1} ${(index % board.width) + 1}`;
+
+const votesText = (votes: number) => `${votes} ${votes === 1 ? 'vote' : 'votes'}`;
+
+// The bot's pinned comment with the community board: the board, the round's votes so far,
+// and who has voted in the most rounds
+const communityBoardText = (game: CommunityGame) => {
+  const { board, lastRound } = game;
+  const outcome = communityOutcome(game);
+  const rounds = game.round - 1;
+  const votes = tallyVotes(game.ballots).map(tally => `- ${describeVoteMove(board, tally)}: ${votesText(tally.votes)}`);
+  const active = Object.entries(game.participation)
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, 5)
+    .map(([userId, count]) => `${game.voters[userId]} (${count})`);
+  
+  let text = "# 🗳️ Community Board\n\n";
+  text += outcome === 'playing'
+    ? `The subreddit plays this board together. Vote for the next move with \`/vote reveal row col\` or \`/vote flag row col\`; ${game.roundMinutes} minutes after a round's first vote, the move with the most votes is played.\n\n`
+    : outcome === 'won'
+      ? `Cleared by the community in ${rounds} rounds! 🎉\n\n`
+      : `💥 The community hit a bomb after ${rounds} rounds.\n\n`;
+  text += `${generateAsciiGrid(board, outcome !== 'playing')}\n\n`;
+  text += `Round ${game.round} • ${countRevealed(board)}/${safeCellCount(board)} cells revealed • ${board.bombCount} bombs\n\n`;
+  if (lastRound) text += `Last round: ${describeVoteMove(board, lastRound)} with ${votesText(lastRound.votes)}\n\n`;
+  if (outcome === 'playing') {
+    const closes = game.roundEndsAt === null ? '' : ` (closes at ${new Date(game.roundEndsAt).toISOString().slice(11, 16)} UTC)`;
+    text += `## This round's votes${closes}\n\n${votes.length > 0 ? votes.join('\n') : 'No votes yet - the round starts with the first one.'}\n\n`;
+  }
+  if (active.length > 0) text += `## Rounds voted in\n\n${active.join(' • ')}`;
+  return text;
+};
+
+// The bot's comment on a finished community board; when it blew up, the voters for the losing move are called out
+const communityResultText = (game: CommunityGame) => {
+  const { lastRound } = game;
+  const move = lastRound ? describeVoteMove(game.board, lastRound) : 'the last move';
+  const voters = (lastRound?.voters ?? []).map(userId => `u/${game.voters[userId]}`).join(', ');
+  
+  return communityOutcome(game) === 'won'
+    ? `# 🎉 The community cleared the board!\n\n${Object.keys(game.voters).length} players voted over ${game.round - 1} rounds, and ${move} finished it off.`
+    : `# 💥 Boom! The community board blew up\n\n${move} hit a bomb in round ${game.round - 1}. It was voted for by ${voters || 'nobody'} - better luck next board!`;
+};
+
+// Show the community board's latest state in the bot's pinned comment
+const updateCommunityComment = async (context: JobContext, game: CommunityGame) => {
+  if (!game.commentId) return;
+  
+  try {
+    const pinned = await context.reddit.getCommentById(game.commentId);
+    await pinned.edit({ text: communityBoardText(game) });
+  } catch (error) {
+    console.error("Error updating the community board comment:", error);
+  }
+};
+
+// Close a community vote round: the top-voted move is played, and a finished board is announced
+Devvit.addSchedulerJob<{ postId: string; endsAt: number }>({
+  name: 'vote-round',
+  onRun: async (event, context) => {
+    const { postId, endsAt } = event.data;
+    const change = await closeCommunityRound(context.redis, postId, endsAt);
+    if (!change) return;
+    
+    const { game } = change;
+    await updateCommunityComment(context, game);
+    if (communityOutcome(game) === 'playing') return;
+    try {
+      await context.reddit.submitComment({ text: communityResultText(game), id: postId });
+    } catch (error) {
+      console.error("Error announcing the community board result:", error);
+    }
+  },
+});
+
+// A time for a tournament's announcements, e.g. "2026-10-19 18:30 UTC"
+const formatUtc = (at: number) => `${new Date(at).toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+
+const entrantName = (tournament: Tournament, userId: string | null) =>
+  tournamentEntrant(tournament, userId)?.username ?? 'someone';
+
+// One player's run at a round's board, e.g. "alice 🏁 cleared the board in 1:05"
+const describeTournamentRun = (tournament: Tournament, round: TournamentRound, userId: string, settled: boolean) => {
+  const name = entrantName(tournament, userId);
+  const run = round.runs[userId];
+  if (!run) return settled ? `${name} didn't play` : `${name} hasn't played yet`;
+  if (run.outcome === 'won') return `${name} 🏁 cleared the board in ${formatTime(Math.floor(((run.finishedAt ?? run.startedAt) - run.startedAt) / 1000))}`;
+  if (run.outcome === 'lost') return `${name} 💥 out with ${run.revealed} cells revealed`;
+  return settled ? `${name} ⏱️ ran out of time with ${run.revealed} cells revealed` : `${name} ⏱️ playing, ${run.revealed} cells revealed`;
+};
+
+// A match in a round: who plays whom, how their runs are going, and who went through once it's settled
+const describeMatch = (tournament: Tournament, round: TournamentRound, match: TournamentMatch) => {
+  const [first, second] = match.players;
+  if (!second) return `${entrantName(tournament, first)} has a bye`;
+  if (match.winner === null) {
+    return round.runs[first] || round.runs[second]
+      ? match.players.map(userId => describeTournamentRun(tournament, round, userId, false)).join(' • ')
+      : `${entrantName(tournament, first)} vs ${entrantName(tournament, second)}`;
+  }
+  
+  const loser = match.winner === first ? second : first;
+  return `✅ ${describeTournamentRun(tournament, round, match.winner, true)} • ❌ ${describeTournamentRun(tournament, round, loser, true)}`;
+};
+
+// How far an entrant got, as tournamentPlacings has it
+const placingText = (tournament: Tournament, reached: number) => {
+  if (tournament.rounds.length === 0) return 'Registered';
+  if (reached === Infinity) return '🏆 Champion';
+  if (reached < tournament.rounds.length) return `Out in round ${reached}`;
+  return tournament.status === 'finished' ? 'Runner-up' : 'Still in';
+};
+
+// A round as it's drawn: its board, when it closes, and who plays whom
+const roundDrawText = (tournament: Tournament, round: TournamentRound) => {
+  const matches = round.matches.map(match => `- ${describeMatch(tournament, round, match)}`).join('\n');
+  return `## Round ${round.number}\n\nA ${describeRaceBoard(round.settings)} board, seed ${round.settings.seed}, open until ${formatUtc(round.endsAt)}. Open 🏆 Tournament in the post to play it - your clock starts when you open the board.\n\n${matches}`;
+};
+
+// The final placings of a finished tournament, champion first
+const placingsText = (tournament: Tournament) =>
+  tournamentPlacings(tournament)
+    .map((placing, index) => `${index + 1}. ${placing.username} - ${placingText(tournament, placing.reached)}`)
+    .join('\n');
+
+// A tournament as it stands, for /tournament
+const tournamentStatusText = (tournament: Tournament) => {
+  const title = `# 🏆 ${tournament.name}`;
+  const round = currentRound(tournament);
+  if (tournament.status === 'registration') {
+    const names = tournament.entrants.map(entrant => entrant.username).join(', ');
+    return `${title}\n\nRegistration is open until ${formatUtc(tournament.deadline ?? Date.now())}. Join the game, then reply \`/tournament join\` or register in the post's 🏆 Tournament page.\n\nRegistered: ${names || 'nobody yet'}`;
+  }
+  if (tournament.status === 'playing' && round) return `${title}\n\n${roundDrawText(tournament, round)}`;
+  return tournament.champion
+    ? `${title}\n\n🏆 u/${entrantName(tournament, tournament.champion)} won the tournament!\n\n${placingsText(tournament)}`
+    : `${title}\n\nNot enough players registered, so the tournament was called off.`;
+};
+
+// What a change to a tournament settled, for the bot to post: registration closing with the
+// first round's draw, or a round's results with the next round's draw or the champion
+const tournamentReportText = (before: Tournament, tournament: Tournament) => {
+  const title = `# 🏆 ${tournament.name}`;
+  const round = currentRound(tournament);
+  if (before.status === 'registration') {
+    if (tournament.status === 'registration') return null;
+    return round
+      ? `${title}\n\nRegistration is closed with ${tournament.entrants.length} players, seeded by their points in this post: the best seed plays the worst, and in each match the faster clear goes through, or the most cells revealed if neither clears the board.\n\n${roundDrawText(tournament, round)}`
+      : `${title}\n\nNot enough players registered, so the tournament is off. It takes ${TOURNAMENT_MIN_ENTRANTS}.`;
+  }
+  
+  const closed = tournament.rounds[before.rounds.length - 1];
+  if (before.status !== 'playing' || !closed || (tournament.status === 'playing' && tournament.rounds.length === before.rounds.length)) {
+    return null;
+  }
+  
+  const results = `${title}: Round ${closed.number} results\n\n${closed.matches.map(match => `- ${describeMatch(tournament, closed, match)}`).join('\n')}`;
+  return tournament.status === 'finished' || !round
+    ? `${results}\n\n# u/${entrantName(tournament, tournament.champion)} wins the tournament! 🎉\n\n${placingsText(tournament)}`
+    : `${results}\n\n${roundDrawText(tournament, round)}`;
+};
+
+// Wake up when registration or the current round closes; a job for a deadline that has moved on does nothing
+const scheduleTournamentDeadline = async (context: JobContext, tournament: Tournament) => {
+  if (tournament.deadline === null) return;
+  
+  await context.scheduler.runJob({
+    name: 'tournament-deadline',
+    runAt: new Date(tournament.deadline),
+    data: { postId: tournament.postId, deadline: tournament.deadline },
+  });
+};
+
+// Schedule the new deadline a change to a tournament sets, and post the results it settled
+const reportTournament = async (context: JobContext, { before, game }: TournamentChange) => {
+  if (game.deadline !== null && game.deadline !== before.deadline) await scheduleTournamentDeadline(context, game);
+  
+  const text = tournamentReportText(before, game);
+  if (!text) return;
+  try {
+    await context.reddit.submitComment({ text, id: game.postId });
+  } catch (error) {
+    console.error("Error posting the tournament results:", error);
+  }
+};
+
+// Close registration or a round once its time is up, so a tournament never waits on players who don't play
+Devvit.addSchedulerJob<{ postId: string; deadline: number }>({
+  name: 'tournament-deadline',
+  onRun: async (event, context) => {
+    const { postId, deadline } = event.data;
+    const change = await expireTournamentDeadline(context.redis, postId, deadline);
+    if (change) await reportTournament(context, change);
+  },
+});
+
+// Moderators set a tournament up from the post's menu: its board, and how long registration and each round last
+const tournamentForm = Devvit.createForm(
+  {
+    title: 'Start a Crossmines Tournament',
+    description: 'Players who joined the game register in the post. Every round is played on a board with these settings and a seed of its own.',
+    acceptLabel: 'Open Registration',
+    fields: [
+      { type: 'string', name: 'name', label: 'Name', defaultValue: 'Crossmines Cup', required: true },
+      {
+        type: 'select',
+        name: 'difficulty',
+        label: 'Difficulty',
+        options: (Object.keys(DIFFICULTY) as Difficulty[]).map(diff => ({ label: DIFFICULTY[diff].name, value: diff })),
+        defaultValue: ['MEDIUM'],
+        required: true,
+      },
+      { type: 'number', name: 'size', label: 'Board size (the classic difficulties have their own)', defaultValue: 10, required: true },
+      {
+        type: 'select',
+        name: 'topology',
+        label: 'Cells',
+        options: (Object.keys(TOPOLOGIES) as Topology[]).map(shape => ({ label: TOPOLOGIES[shape].name, value: shape })),
+        defaultValue: ['square'],
+        required: true,
+      },
+      {
+        type: 'select',
+        name: 'variant',
+        label: 'Rules',
+        options: (Object.keys(VARIANTS) as Variant[]).map(rule => ({ label: VARIANTS[rule].name, value: rule })),
+        defaultValue: ['classic'],
+        required: true,
+      },
+      { type: 'string', name: 'seed', label: 'Seed', helpText: 'Optional. Each round adds its own suffix, e.g. cup-r1' },
+      { type: 'number', name: 'registrationMinutes', label: 'Registration length in minutes', defaultValue: DEFAULT_REGISTRATION_MINUTES, required: true },
+      { type: 'number', name: 'roundMinutes', label: 'Round length in minutes', defaultValue: DEFAULT_TOURNAMENT_ROUND_MINUTES, required: true },
+    ],
+  },
+  async ({ values }, context) => {
+    const postId = context.postId;
+    if (!postId) return;
+    
+    const [difficulty = 'MEDIUM'] = values.difficulty ?? [];
+    const [topology = 'square'] = values.topology ?? [];
+    const [variant = 'classic'] = values.variant ?? [];
+    const seed = values.seed?.trim() || undefined;
+    const { size = 10, registrationMinutes = DEFAULT_REGISTRATION_MINUTES, roundMinutes = DEFAULT_TOURNAMENT_ROUND_MINUTES } = values;
+    if (!isDifficulty(difficulty) || !isTopology(topology) || !isVariant(variant)) return;
+    if (!Number.isInteger(size) || size < 4 || size > 24) {
+      context.ui.showToast({ text: 'Boards must be from 4 to 24 cells across' });
+      return;
+    }
+    if (seed !== undefined && !isTournamentSeed(seed)) {
+      context.ui.showToast({ text: 'Seeds use letters, digits, - and _, up to 24 characters' });
+      return;
+    }
+    if (![registrationMinutes, roundMinutes].every(length => Number.isInteger(length) && length >= 1 && length <= 10080)) {
+      context.ui.showToast({ text: 'Registration and rounds must last from 1 to 10080 whole minutes' });
+      return;
+    }
+    
+    try {
+      const tournament = newTournament(postId, {
+        name: values.name?.trim() || 'Crossmines Cup',
+        difficulty,
+        board: { width: size, height: size, topology, variant, seed },
+        registrationMinutes,
+        roundMinutes,
+      });
+      if (!(await createTournament(context.redis, tournament))) {
+        context.ui.showToast({ text: 'A tournament is already running in this post' });
+        return;
+      }
+      
+      await scheduleTournamentDeadline(context, tournament);
+      await context.reddit.submitComment({
+        text: `# 🏆 ${tournament.name}\n\nRegistration is open until ${formatUtc(tournament.deadline ?? Date.now())}! Join the game, then reply \`/tournament join\` or register in the post's 🏆 Tournament page.\n\nEvery round is a ${describeRaceBoard(tournament.settings)} board with a seed of its own, and lasts ${roundMinutes} minutes or until every match is played. Players are seeded by their points in this post, and the winners of each round go through until one is left.`,
+        id: postId,
+      });
+      context.ui.showToast({ text: 'Tournament registration is open' });
+    } catch (error) {
+      console.error("Error starting the tournament:", error);
+      context.ui.showToast({ text: 'Starting the tournament failed' });
+    }
+  }
+);
+
+Devvit.addMenuItem({
+  label: 'Start Crossmines Tournament',
+  location: 'post',
+  forUserType: 'moderator',
+  onPress: async (event, context) => {
+    if (!(await migratePost(context.redis, event.targetId))) {
+      context.ui.showToast({ text: 'This post has no Crossmines game' });
+      return;
+    }
+    context.ui.showForm(tournamentForm);
+  }
+});
+
+// A joined player with an unfinished game to play on
+type ActiveGame = { player: Player; game: GameSession };
+
+// Comment commands handler for game interaction
+Devvit.addTrigger({
+  event: 'CommentCreate',
+  async onEvent(event, context) {
+    if (!event.comment?.postId) return;
+    const postId = event.comment.postId;
+    
+    // Only posts with a Crossmines record take commands; older records are moved to the current layout first
+    try {
+      if (!(await migratePost(context.redis, postId))) return;
+    } catch (error) {
+      console.error("Couldn't read the stored post state:", error);
+      return;
+    }
+    const comment = event.comment;
+    if (!comment) return;
+    
+    // Parse commands in comments
+    const commandMatch = comment.body.match(/^\/([a-z_]+)(?: (.+))?$/i);
+    if (!commandMatch) return;
     
     const command = commandMatch[1].toLowerCase();
     const args = commandMatch[2] || '';
     
     try {
       const user = await context.reddit.getUserById(comment.author);
+      if (!user) return;
+      
+      // The commenter's profile, if they've joined
+      const joined = await loadPlayer(context.redis, postId, user.id);
+      
+      // Find the commenter's unfinished game, whether it was started here or in the post,
+      // replying with what's missing if there isn't one
+      const getActiveGame = async (): Promise<ActiveGame | null> => {
+        const player = joined;
+        if (!player) {
+          await context.reddit.submitComment({
+            text: `@${user.username} Please use /join first to join the game.`,
+            id: comment.parentId
+          });
+          return null;
+        }
+        
+        const game = await loadGame(context.redis, postId, player.id);
+        if (!game) {
+          await context.reddit.submitComment({
+            text: `@${user.username} Please start a game first with /play.`,
+            id: comment.parentId
+          });
+          return null;
+        }
+        
+        if (!isUnfinished(game)) {
+          await context.reddit.submitComment({
+            text: `@${user.username} Your game is over. Start a new game with /play.`,
+            id: comment.parentId
+          });
+          return null;
+        }
+        
+        return { player, game };
+      };
+      
+      // Save a move on the commenter's game. A move here also picks up a game paused in the post.
+      const playMove = async ({ player, game }: ActiveGame, result: MoveResult) => {
+        const moved: GameSession = {
+          board: result.board,
+          moveCount: game.moveCount + 1,
+          clock: recordCommentMove(game.clock, result.outcome !== 'playing'),
+        };
+        await saveGame(context.redis, postId, player.id, moved);
+        return moved;
+      };
+      
+      // Store a move on the commenter's game and reply with how it went
+      const reportMove = async (active: ActiveGame, result: MoveResult, moveText: string, boomText: string, note = '') => {
+        const { player } = active;
+        const game = await playMove(active, result);
+        // A finished game is counted once through the ledger, even if the post reports it too
+        const outcome = result.outcome !== 'playing'
+          ? await recordOutcome(context.redis, postId, player.id, game, result.outcome)
+          : null;
+        
+        // Handle bomb reveal
+        if (result.outcome === 'lost') {
+          await context.reddit.submitComment({
+            text: `@${user.username} ${boomText}\n\n${generateAsciiGrid(result.board, true)}\n\nGame Over. Use /play to start a new game, or replay this board with ${replayCommand(result.board)}.`,
+            id: comment.parentId
+          });
+          return;
+        }
+        
+        // Check for win condition
+        if (result.outcome === 'won') {
+          const timeElapsed = elapsedSeconds(game.clock);
+          const score = outcome?.event.points ?? 0;
+          
+          await context.reddit.submitComment({
+            text: `@${user.username} YOU WIN! All safe cells revealed!\n\n${generateAsciiGrid(result.board, true)}\n\nTime: ${formatTime(timeElapsed)}\nMoves: ${game.moveCount}\nScore: +${score}\nSeed: ${result.board.seed}\n\nUse /play to start a new game, or share this board with ${replayCommand(result.board)}.`,
+            id: comment.parentId
+          });
+          return;
+        }
+        
+        await context.reddit.submitComment({
+          text: `@${user.username} ${moveText}\n\n${generateAsciiGrid(result.board)}\n\nSafe cells: ${countRevealed(result.board)}/${safeCellCount(result.board)}\nMoves: ${game.moveCount}${note}`,
+          id: comment.parentId
+        });
+      };
+      
+      // A reveal in a hot potato thread; only the player whose turn it is gets to make one
+      const revealOnPotatoTurn = async (potato: PotatoGame) => {
+        await notePotatoComments(context.redis, postId, [comment.id]);
+        if (potato.status !== 'playing' || potato.turn !== user.id) {
+          const reason = potato.status === 'signup'
+            ? "The game hasn't started yet."
+            : potato.status === 'finished'
+              ? 'This game is over. Host another with /potato.'
+              : `It's u/${potatoPlayer(potato, potato.turn)?.username}'s turn, not yours!`;
+          await postToPotatoThread(context, potato, `@${user.username} ${reason}`);
+          return;
+        }
+        
+        const { width, height } = potato.board;
+        const coords = parseCell(args);
+        if (!coords || coords.row >= height || coords.col >= width) {
+          await postToPotatoThread(context, potato, `@${user.username} Invalid coordinates. Use /reveal row col, with rows 1-${height} and columns 1-${width}.`);
+          return;
+        }
+        
+        const change = await playPotatoTurn(context.redis, postId, user.id, coords.row * width + coords.col);
+        const move = change?.game.lastMove;
+        if (!change || !move) {
+          await postToPotatoThread(context, potato, `@${user.username} That cell can't be revealed, or your turn ran out.`);
+          return;
+        }
+        
+        const news = move.hit
+          ? `💥 u/${user.username} hit a bomb and is out!`
+          : change.game.status === 'finished'
+            ? `🎉 u/${user.username} cleared the board!`
+            : `u/${user.username} revealed ${move.revealed.length} ${move.revealed.length === 1 ? 'cell' : 'cells'}.`;
+        await reportPotato(context, change, news);
+      };
       
       // Handle different commands
       switch (command) {
         case 'join':
           // Add player to the game
-          if (!gameState.players.find(p => p.id === user.id)) {
-            gameState.players.push({
-              id: user.id,
-              username: user.username,
-              moves: 0,
-              score: 0,
-              totalGamesPlayed: 0,
-              totalGamesWon: 0,
+          if (await addPlayer(context.redis, postId, user.id, user.username)) {
+            await context.reddit.submitComment({
+              text: `@${user.username} has joined the game! Use /play to start a new game.`,
+              id: comment.parentId
+            });
+          } else {
+            await context.reddit.submitComment({
+              text: `@${user.username} You're already playing!`,
+              id: comment.parentId
+            });
+          }
+          break;
+          
+        case 'play': {
+          // Start a new game with selected difficulty
+          if (!joined) {
+            await context.reddit.submitComment({
+              text: `@${user.username} Please use /join first to join the game.`,
+              id: comment.parentId
+            });
+            return;
+          }
+          
+          // Parse difficulty and optional seed
+          const { difficulty, width, height, topology, variant, seed, opening, noGuess } = parsePlayArgs(args);
+          if (seed !== undefined && !isValidSeed(seed)) {
+            await context.reddit.submitComment({
+              text: `@${user.username} Invalid seed. Seeds use letters, digits, - and _ (e.g., /play hard seed=abc123)`,
+              id: comment.parentId
+            });
+            return;
+          }
+          
+          // Initialize a new game; classic presets ignore the requested size
+          const board = createBoard(difficulty, { width, height, topology, variant, seed, opening, noGuess });
+          
+          // A new game replaces an unfinished one, which counts as abandoned
+          const abandoned = await abandonGame(context.redis, postId, joined.id);
+          const game: GameSession = { board, moveCount: 0, clock: startClock() };
+          await saveNewGame(context.redis, postId, joined.id, game);
+          
+          // Generate ASCII grid for display
+          const asciiGrid = generateAsciiGrid(board);
+          const abandonedNote = abandoned ? ' Your unfinished game was abandoned and counts as a loss.' : '';
+          
+          await context.reddit.submitComment({
+            text: `@${user.username} started a new ${difficulty}${topology !== 'square' ? ` ${topology}` : ''}${board.variant !== 'classic' ? ` ${board.variant}` : ''}${noGuess ? ' no-guess' : ''} game!${abandonedNote}\n\nBombs: ${board.bombCount}\nSeed: ${board.seed}\n\n${asciiGrid}\n\nUse /reveal row col to reveal a cell (e.g., /reveal 3 4)\nUse /flag row col to flag a cell`,
+            id: comment.parentId
+          });
+          break;
+        }
+          
+        case 'reveal': {
+          // In a hot potato thread, a reveal is a turn in that game rather than a move on the commenter's own
+          const potato = await loadPotatoGame(context.redis, postId);
+          if (potato && isInPotatoThread(potato, comment.parentId)) {
+            await revealOnPotatoTurn(potato);
+            break;
+          }
+          
+          // Handle cell reveal
+          const active = await getActiveGame();
+          if (!active) return;
+          const { board } = active.game;
+          
+          // Parse row and column
+          const coords = parseCell(args);
+          if (!coords) {
+            await context.reddit.submitComment({
+              text: `@${user.username} Invalid coordinates. Use format: /reveal row col (e.g., /reveal 3 4)`,
+              id: comment.parentId
+            });
+            return;
+          }
+          
+          // Validate coordinates
+          const { row, col } = coords;
+          if (row >= board.height || col >= board.width) {
+            await context.reddit.submitComment({
+              text: `@${user.username} Coordinates out of bounds. The board has ${board.height} rows and ${board.width} columns.`,
+              id: comment.parentId
+            });
+            return;
+          }
+          
+          // Check if already revealed or flagged
+          const cellIndex = row * board.width + col;
+          if (board.cells[cellIndex].revealed) {
+            await context.reddit.submitComment({
+              text: `@${user.username} This cell is already revealed.`,
+              id: comment.parentId
+            });
+            return;
+          }
+          
+          if (board.cells[cellIndex].flagged) {
+            await context.reddit.submitComment({
+              text: `@${user.username} This cell is flagged. Remove the flag first with /flag ${row + 1} ${col + 1}.`,
+              id: comment.parentId
+            });
+            return;
+          }
+          
+          // Reveal the cell and potentially connected cells
+          const result = revealBoardCell(board, cellIndex);
+          const fallbackNote = lostNoGuess(board, result.board)
+            ? '\n\n(No guess-free board was found in time - this one may need a guess.)'
+            : '';
+          await reportMove(
+            active,
+            result,
+            `revealed ${row + 1},${col + 1}`,
+            `BOOM! You hit a bomb at ${row + 1},${col + 1}!`,
+            fallbackNote
+          );
+          break;
+        }
+          
+        case 'chord': {
+          // Open every other neighbour of a revealed number whose flags are all placed
+          const active = await getActiveGame();
+          if (!active) return;
+          const { board } = active.game;
+          
+          // Parse row and column
+          const coords = parseCell(args);
+          if (!coords) {
+            await context.reddit.submitComment({
+              text: `@${user.username} Invalid coordinates. Use format: /chord row col (e.g., /chord 3 4)`,
+              id: comment.parentId
+            });
+            return;
+          }
+          
+          // Validate coordinates
+          const { row, col } = coords;
+          if (row >= board.height || col >= board.width) {
+            await context.reddit.submitComment({
+              text: `@${user.username} Coordinates out of bounds. The board has ${board.height} rows and ${board.width} columns.`,
+              id: comment.parentId
+            });
+            return;
+          }
+          
+          // Only a revealed number with exactly its value in flags can be chorded
+          const cellIndex = row * board.width + col;
+          const cell = board.cells[cellIndex];
+          if (!cell.revealed || cell.type !== CELL_TYPES.NUMBER) {
+            await context.reddit.submitComment({
+              text: `@${user.username} You can only chord a revealed number.`,
+              id: comment.parentId
             });
-            
+            return;
+          }
+          
+          if (VARIANTS[board.variant].lies) {
             await context.reddit.submitComment({
-              text: `@${user.username} has joined the game! Use /play to start a new game.`,
+              text: `@${user.username} Liar numbers are always off by one, so they can't be chorded.`,
               id: comment.parentId
             });
-          } else {
+            return;
+          }
+          
+          const flags = neighbours(board, cellIndex).filter(n => board.cells[n].flagged).length;
+          if (flags !== cell.value) {
             await context.reddit.submitComment({
-              text: `@${user.username} You're already playing!`,
+              text: `@${user.username} The ${cell.value} at ${row + 1},${col + 1} touches ${flags} flag${flags === 1 ? '' : 's'}. Flag exactly ${cell.value} of its neighbours before chording.`,
+              id: comment.parentId
+            });
+            return;
+          }
+          
+          const result = chordBoardCell(board, cellIndex);
+          if (!result.changed) {
+            await context.reddit.submitComment({
+              text: `@${user.username} All neighbours of ${row + 1},${col + 1} are already open.`,
               id: comment.parentId
             });
+            return;
           }
+          
+          await reportMove(
+            active,
+            result,
+            `chorded ${row + 1},${col + 1}`,
+            `BOOM! Chording ${row + 1},${col + 1} hit a bomb - one of those flags was wrong!`
+          );
           break;
+        }
           
-        case 'play':
-          // Start a new game with selected difficulty
-          if (!gameState.players.find(p => p.id === user.id)) {
+        case 'flag': {
+          // Handle flag toggle
+          const active = await getActiveGame();
+          if (!active) return;
+          const { board } = active.game;
+          
+          // Parse row and column
+          const coords = parseCell(args);
+          if (!coords) {
             await context.reddit.submitComment({
-              text: `@${user.username} Please use /join first to join the game.`,
+              text: `@${user.username} Invalid coordinates. Use format: /flag row col (e.g., /flag 3 4)`,
               id: comment.parentId
             });
             return;
           }
           
-          // Parse difficulty
-          let difficulty = 'MEDIUM';
-          if (args && ['EASY', 'MEDIUM', 'HARD'].includes(args.toUpperCase())) {
-            difficulty = args.toUpperCase();
+          // Validate coordinates
+          const { row, col } = coords;
+          if (row >= board.height || col >= board.width) {
+            await context.reddit.submitComment({
+              text: `@${user.username} Coordinates out of bounds. The board has ${board.height} rows and ${board.width} columns.`,
+              id: comment.parentId
+            });
+            return;
           }
           
-          // Initialize a new game
-          const gridSize = 8; // Default to 8x8 for comments
-          const difficultySettings = {
-            'EASY': { bombPercentage: 0.1, depth: 2 },
-            'MEDIUM': { bombPercentage: 0.15, depth: 1 },
-            'HARD': { bombPercentage: 0.2, depth: 1 },
-          }[difficulty];
-          
-          const totalCells = gridSize * gridSize;
-          const bombsToPlace = Math.floor(totalCells * difficultySettings.bombPercentage);
-          
-          // Create empty grid
-          const newGrid = Array(totalCells).fill(null).map(() => ({
-            type: 0, // EMPTY
-            value: 0,
-            revealed: false,
-            flagged: false,
-          }));
-          
-          // Place bombs randomly
-          let bombsPlaced = 0;
-          while (bombsPlaced < bombsToPlace) {
-            const randomIndex = Math.floor(Math.random() * totalCells);
-            if (newGrid[randomIndex].type !== 1) { // Not a BOMB
-              newGrid[randomIndex].type = 1; // BOMB
-              bombsPlaced++;
-            }
+          // Check if already revealed
+          const cellIndex = row * board.width + col;
+          if (board.cells[cellIndex].revealed) {
+            await context.reddit.submitComment({
+              text: `@${user.username} This cell is already revealed. You can't flag it.`,
+              id: comment.parentId
+            });
+            return;
           }
           
-          // Calculate numbers for adjacent bombs
-          for (let i = 0; i < totalCells; i++) {
-            if (newGrid[i].type === 1) continue; // Skip bombs
-            
-            // Get row and column
-            const row = Math.floor(i / gridSize);
-            const col = i % gridSize;
-            
-            // Check all 8 adjacent cells for bombs
-            let adjacentBombs = 0;
-            for (let r = -1; r <= 1; r++) {
-              for (let c = -1; c <= 1; c++) {
-                if (r === 0 && c === 0) continue;
-                
-                const newRow = row + r;
-                const newCol = col + c;
-                
-                // Check if the adjacent cell is valid
-                if (newRow >= 0 && newRow < gridSize && newCol >= 0 && newCol < gridSize) {
-                  const adjacentIndex = newRow * gridSize + newCol;
-                  if (newGrid[adjacentIndex].type === 1) { // BOMB
-                    adjacentBombs++;
-                  }
-                }
-              }
-            }
-            
-            if (adjacentBombs > 0) {
-              newGrid[i].type = 2; // NUMBER
-              newGrid[i].value = adjacentBombs;
-            }
+          // Toggle flag
+          const result = toggleBoardFlag(board, cellIndex);
+          const game = await playMove(active, result);
+          
+          const actionText = result.board.cells[cellIndex].flagged ? "flagged" : "unflagged";
+          
+          await context.reddit.submitComment({
+            text: `@${user.username} ${actionText} ${row + 1},${col + 1}\n\n${generateAsciiGrid(result.board)}\n\nFlags: ${countFlags(result.board)}/${result.board.bombCount}\nMoves: ${game.moveCount}`,
+            id: comment.parentId
+          });
+          break;
+        }
+
+        case 'hint': {
+          // Point at the next logical move without playing it
+          const active = await getActiveGame();
+          if (!active) return;
+          const { board } = active.game;
+          
+          const hint = findHint(board);
+          if (!hint) {
+            await context.reddit.submitComment({
+              text: `@${user.username} There are no hidden cells left to give a hint for.`,
+              id: comment.parentId
+            });
+            return;
           }
           
-          // Update player
-          const playerIndex = gameState.players.findIndex(p => p.id === user.id);
-          gameState.players[playerIndex].currentGrid = newGrid;
-          gameState.players[playerIndex].currentGridSize = gridSize;
-          gameState.players[playerIndex].currentDifficulty = difficulty;
-          gameState.players[playerIndex].currentBombCount = bombsToPlace;
-          gameState.players[playerIndex].currentFlagCount = 0;
-          gameState.players[playerIndex].currentRevealedCount = 0;
-          gameState.players[playerIndex].currentGameOver = false;
-          gameState.players[playerIndex].currentMoveCount = 0;
-          gameState.players[playerIndex].startTime = Date.now();
-          gameState.players[playerIndex].totalGamesPlayed++;
+          const [row, col] = [Math.floor(hint.index / board.width) + 1, (hint.index % board.width) + 1];
+          const advice = hint.forced
+            ? `${hint.action === 'flag' ? 'Flag' : 'Reveal'} ${cellLabel(board, hint.index)}: ${hint.explanation}`
+            : `Best guess ${cellLabel(board, hint.index)}: ${hint.explanation}`;
           
-          // Generate ASCII grid for display
-          const asciiGrid = generateAsciiGrid(newGrid, gridSize);
+          await context.reddit.submitComment({
+            text: `@${user.username} 💡 ${advice}\n\n${generateAsciiGrid(board, false, hint.index)}\n\nTry /${hint.action} ${row} ${col}`,
+            id: comment.parentId
+          });
+          break;
+        }
+        
+        case 'abandon': {
+          // Give up the unfinished game, which counts as a loss
+          const active = await getActiveGame();
+          if (!active) return;
           
+          await abandonGame(context.redis, postId, active.player.id);
           await context.reddit.submitComment({
-            text: `@${user.username} started a new ${difficulty} game!\n\nBombs: ${bombsToPlace}\n\n${asciiGrid}\n\nUse /reveal row col to reveal a cell (e.g., /reveal 3 4)\nUse /flag row col to flag a cell`,
+            text: `@${user.username} abandoned their game after ${active.game.moveCount} moves. It counts as a loss.\n\n${generateAsciiGrid(active.game.board, true)}\n\nUse /play to start a new game.`,
             id: comment.parentId
           });
           break;
+        }
           
-        case 'reveal':
-          // Handle cell reveal
-          if (!gameState.players.find(p => p.id === user.id)) {
+        case 'vote': {
+          // Vote for the next move on the post's community board; anyone can vote, joined or not
+          const community = await loadCommunityGame(context.redis, postId);
+          if (!community || communityOutcome(community) !== 'playing') {
+            await context.reddit.submitComment({
+              text: `@${user.username} There's no community board being played in this post. A moderator can start one from the post's menu.`,
+              id: comment.parentId
+            });
+            break;
+          }
+          
+          const action = args.trim().split(/\s+/)[0].toLowerCase();
+          const coords = parseCell(args);
+          const { width, height } = community.board;
+          if (!isVoteAction(action) || !coords || coords.row >= height || coords.col >= width) {
+            await context.reddit.submitComment({
+              text: `@${user.username} Vote with /vote reveal row col or /vote flag row col, with rows 1-${height} and columns 1-${width}.`,
+              id: comment.parentId
+            });
+            break;
+          }
+          
+          const move: VoteMove = { action, index: coords.row * width + coords.col };
+          const change = await voteOnCommunityGame(context.redis, postId, { userId: user.id, username: user.username }, move);
+          if (!change) {
+            await context.reddit.submitComment({
+              text: `@${user.username} ${describeVoteMove(community.board, move)} can't be played on the board as it is - pick another cell.`,
+              id: comment.parentId
+            });
+            break;
+          }
+          
+          // The first vote of a round starts its clock
+          const { before, game } = change;
+          if (before.roundEndsAt === null && game.roundEndsAt !== null) {
+            await context.scheduler.runJob({
+              name: 'vote-round',
+              runAt: new Date(game.roundEndsAt),
+              data: { postId, endsAt: game.roundEndsAt },
+            });
+          }
+          await updateCommunityComment(context, game);
+          break;
+        }
+          
+        case 'potato': {
+          // Hot potato: host a turn-based game in this comment's thread, sign up for one, or start it
+          if (!joined) {
             await context.reddit.submitComment({
               text: `@${user.username} Please use /join first to join the game.`,
               id: comment.parentId
@@ -1557,368 +3644,425 @@ Devvit.addTrigger({
             return;
           }
           
-          const revealPlayer = gameState.players.find(p => p.id === user.id);
-          if (!revealPlayer.currentGrid) {
+          const action = args.trim().split(/\s+/)[0].toLowerCase();
+          const player = { userId: user.id, username: user.username };
+          
+          if (action === 'join') {
+            const change = await joinPotatoGame(context.redis, postId, player);
+            if (!change) {
+              await context.reddit.submitComment({
+                text: `@${user.username} There's no hot potato game taking signups you haven't joined. Host one with /potato [difficulty].`,
+                id: comment.parentId
+              });
+              break;
+            }
+            await notePotatoComments(context.redis, postId, [comment.id]);
+            await reportPotato(context, change, `u/${user.username} is in!`);
+            break;
+          }
+          
+          if (action === 'start') {
+            const change = await startPotatoGame(context.redis, postId, user.id);
+            if (!change) {
+              await context.reddit.submitComment({
+                text: `@${user.username} Only the host can start a hot potato game, once ${POTATO_MIN_PLAYERS} players have signed up.`,
+                id: comment.parentId
+              });
+              break;
+            }
+            await reportPotato(context, change, "Signups are closed - let's play!");
+            break;
+          }
+          
+          const { difficulty, width, height, topology, variant, seed, opening, noGuess } = parsePlayArgs(args);
+          if (seed !== undefined && !isValidSeed(seed)) {
             await context.reddit.submitComment({
-              text: `@${user.username} Please start a game first with /play.`,
+              text: `@${user.username} Invalid seed. Seeds use letters, digits, - and _ (e.g., /potato hard seed=abc123)`,
               id: comment.parentId
             });
             return;
           }
           
-          if (revealPlayer.currentGameOver) {
+          // The host's comment becomes the game's thread
+          const board = createBoard(difficulty, { width, height, topology, variant, seed, opening, noGuess });
+          const potato = newPotatoGame(postId, comment.id, player, board);
+          if (!(await hostPotatoGame(context.redis, potato))) {
             await context.reddit.submitComment({
-              text: `@${user.username} Your game is over. Start a new game with /play.`,
+              text: `@${user.username} A hot potato game is already going in this post.`,
               id: comment.parentId
             });
-            return;
+            break;
           }
           
-          // Parse row and column
-          const revealCoords = args.match(/(\d+)\s+(\d+)/);
-          if (!revealCoords) {
+          await schedulePotatoDeadline(context, potato);
+          await postToPotatoThread(
+            context,
+            potato,
+            potatoUpdateText(potato, `u/${user.username} is hosting hot potato on a ${difficulty} board! Players take turns revealing cells - hit a bomb and you're out, and the last one standing wins.`)
+          );
+          break;
+        }
+          
+        case 'tournament': {
+          // Register for the post's tournament, or see how it stands
+          const tournament = await loadTournament(context.redis, postId);
+          if (!tournament) {
             await context.reddit.submitComment({
-              text: `@${user.username} Invalid coordinates. Use format: /reveal row col (e.g., /reveal 3 4)`,
+              text: `@${user.username} There's no tournament in this post. Moderators can start one from the post's menu.`,
               id: comment.parentId
             });
-            return;
+            break;
           }
           
-          const revealRow = parseInt(revealCoords[1]) - 1; // Convert to 0-based
-          const revealCol = parseInt(revealCoords[2]) - 1;
-          const revealGridSize = revealPlayer.currentGridSize;
-
-          // Validate coordinates
-          if (
-            revealRow < 0 || 
-            revealRow >= gridSize || 
-            revealCol < 0 || 
-            revealCol >= gridSize
-          ) {
+          if (args.trim().toLowerCase() !== 'join') {
+            await context.reddit.submitComment({ text: tournamentStatusText(tournament), id: comment.parentId });
+            break;
+          }
+          
+          if (!joined) {
             await context.reddit.submitComment({
-              text: `@${user.username} Coordinates out of bounds. Grid size is ${gridSize}x${gridSize}.`,
+              text: `@${user.username} Please use /join first to join the game.`,
               id: comment.parentId
             });
             return;
           }
           
-          // Get cell index
-          const cellIndex = revealRow * gridSize + revealCol;
-          const grid = revealPlayer.currentGrid;
+          const change = await registerForTournament(context.redis, postId, { userId: user.id, username: user.username });
+          await context.reddit.submitComment({
+            text: change
+              ? `@${user.username} You're registered for ${tournament.name}! ${change.game.entrants.length} players so far; the first round is drawn at ${formatUtc(change.game.deadline ?? Date.now())}.`
+              : `@${user.username} ${isRegistered(tournament, user.id) ? "You're already registered" : 'Registration is closed'} for ${tournament.name}.`,
+            id: comment.parentId
+          });
+          break;
+        }
           
-          // Check if already revealed or flagged
-          if (grid[cellIndex].revealed) {
+        case 'challenge': {
+          // Challenge someone to a race on the same board; the race itself is played in the post
+          if (!joined) {
             await context.reddit.submitComment({
-              text: `@${user.username} This cell is already revealed.`,
+              text: `@${user.username} Please use /join first to join the game.`,
               id: comment.parentId
             });
             return;
           }
           
-          if (grid[cellIndex].flagged) {
+          const [name = '', ...options] = args.trim().split(/\s+/);
+          const requested = name.replace(/^\/?u\//i, '');
+          const opponent = requested ? await context.reddit.getUserByUsername(requested) : undefined;
+          if (!opponent) {
             await context.reddit.submitComment({
-              text: `@${user.username} This cell is flagged. Remove the flag first with /flag ${revealRow + 1} ${revealCol + 1}.`,
+              text: `@${user.username} Couldn't find ${requested ? `u/${requested}` : 'who to race'}. Use /challenge u/name [difficulty].`,
               id: comment.parentId
             });
-            return;
+            break;
+          }
+          if (opponent.id === user.id) {
+            await context.reddit.submitComment({
+              text: `@${user.username} You can't race yourself - challenge someone else!`,
+              id: comment.parentId
+            });
+            break;
+          }
+          if (!(await loadPlayer(context.redis, postId, opponent.id))) {
+            await context.reddit.submitComment({
+              text: `@${user.username} u/${opponent.username} hasn't joined the game in this post yet - only players who have can be challenged.`,
+              id: comment.parentId
+            });
+            break;
           }
           
-          // Handle bomb reveal
-          if (grid[cellIndex].type === 1) { // BOMB
-            grid[cellIndex].revealed = true;
-            
-            // Reveal all bombs
-            for (let i = 0; i < grid.length; i++) {
-              if (grid[i].type === 1) {
-                grid[i].revealed = true;
-              }
-            }
-            
-            // Update player state
-            const revealPlayerIndex = gameState.players.findIndex(p => p.id === user.id);
-            gameState.players[playerIndex].currentGrid = grid;
-            gameState.players[playerIndex].currentGameOver = true;
-            gameState.players[playerIndex].currentMoveCount++;
-            
-            // Generate ASCII grid for display
-            const loseGrid = generateAsciiGrid(grid, gridSize, true);
-            
+          const { difficulty, width, height, topology, variant, seed } = parsePlayArgs(options.join(' '));
+          if (seed !== undefined && !isValidSeed(seed)) {
             await context.reddit.submitComment({
-              text: `@${user.username} BOOM! You hit a bomb at ${revealRow + 1},${revealCol + 1}!\n\n${loseGrid}\n\nGame Over. Use /play to start a new game.`,
+              text: `@${user.username} Invalid seed. Seeds use letters, digits, - and _ (e.g., /challenge u/name hard seed=abc123)`,
               id: comment.parentId
             });
-            
-            // Save updated state
-            await context.redis.set(`bombsweeper_${event.comment.postId}`, JSON.stringify(gameState));
             return;
           }
           
-          // Reveal the cell and potentially connected cells
-          revealConnectedCells(grid, cellIndex, gridSize);
-          
-          // Update player state
-          const revealPlayerIndex = gameState.players.findIndex(p => p.id === user.id);
-          gameState.players[playerIndex].currentGrid = grid;
-          gameState.players[playerIndex].currentMoveCount++;
-          
-          // Count revealed cells
-          const revealedCount = grid.filter(cell => cell.revealed).length;
-          gameState.players[playerIndex].currentRevealedCount = revealedCount;
-          
-          // Check for win condition
-          const totalSafeCells = grid.length - revealPlayer.currentBombCount;
-          if (revealedCount === totalSafeCells) {
-            gameState.players[playerIndex].currentGameOver = true;
-            gameState.players[playerIndex].totalGamesWon++;
-            
-            // Calculate score based on difficulty, grid size, and time
-            const timeElapsed = Math.floor((Date.now() - revealPlayer.startTime) / 1000);
-            const difficultyMultiplier = { 'EASY': 1, 'MEDIUM': 1.5, 'HARD': 2 }[revealPlayer.currentDifficulty];
-            const score = Math.floor((totalSafeCells * 10 * difficultyMultiplier) / (timeElapsed / 60 + 1));
+          const race = newRace(
+            postId,
+            { userId: user.id, username: user.username },
+            { userId: opponent.id, username: opponent.username },
+            raceSettings(difficulty, { width, height, topology, variant, seed })
+          );
+          if (!(await createRace(context.redis, race))) {
+            await context.reddit.submitComment({
+              text: `@${user.username} You or ${opponent.username} already have a race going in this post.`,
+              id: comment.parentId
+            });
+            break;
+          }
+          
+          await scheduleRaceDeadline(context, race);
+          await context.reddit.submitComment({
+            text: `@${user.username} challenges u/${opponent.username} to a race on a ${describeRaceBoard(race.settings)} board!\n\nu/${opponent.username}, open ⚔️ Versus in the post within ${RACE_ACCEPT_MINUTES} minutes to accept. Both players get the same board, and the first to clear it wins - or whoever has revealed more after ${RACE_MINUTES} minutes.`,
+            id: comment.parentId
+          });
+          break;
+        }
+          
+        case 'stats': {
+          // Show a player's stats over every post, the commenter's own unless someone else is named
+          const requested = args.trim().replace(/^\/?u\//i, '');
+          const target = requested ? await context.reddit.getUserByUsername(requested) : user;
+          if (!target) {
+            await context.reddit.submitComment({
+              text: `@${user.username} Couldn't find u/${requested}.`,
+              id: comment.parentId
+            });
+            break;
+          }
+          
+          const { stats, history } = await loadPlayerStats(context.redis, target.id);
+          const average = averageWinTime(stats);
+          
+          let statsText = `# Crossmines Stats: ${target.username}\n\n`;
+          statsText += `Games: ${stats.games} | Wins: ${stats.wins} | Win Rate: ${formatPercent(winRate(stats))} | Average Win: ${average === null ? '-' : formatTime(average)}\n\n`;
+          statsText += `Current Streak: ${stats.currentStreak} | Longest Streak: ${stats.longestStreak}\n\n`;
+          statsText += `Cells Revealed: ${stats.cellsRevealed} | Flag Accuracy: ${formatPercent(flagAccuracy(stats))} of ${stats.flagsPlaced} flags\n\n`;
+          statsText += `Matches: ${stats.matches} | Matches won: ${stats.matchesWon}\n\n`;
+          
+          statsText += "## Best Times\n\n";
+          const difficultyTimes = (Object.keys(DIFFICULTY) as Difficulty[])
+            .filter(diff => stats.bestByDifficulty[diff] !== undefined)
+            .map(diff => `- ${DIFFICULTY[diff].name}: ${formatTime(stats.bestByDifficulty[diff] ?? 0)}`);
+          const sizeTimes = Object.entries(stats.bestBySize).map(([size, time]) => `- ${size.replace('x', '×')}: ${formatTime(time)}`);
+          statsText += difficultyTimes.length > 0 ? `${[...difficultyTimes, ...sizeTimes].join('\n')}\n\n` : "No wins yet\n\n";
+          
+          statsText += "## Recent Games\n\n";
+          statsText += history.length > 0
+            ? history.slice(0, 10).map(record => `- ${describeGameRecord(record)}`).join('\n')
+            : "No finished games yet";
+          
+          await context.reddit.submitComment({
+            text: statsText,
+            id: comment.parentId
+          });
+          break;
+        }
+          
+        case 'leaderboard': {
+          // Show leaderboard for one rule variant, classic unless named, for this post unless
+          // "all", "week" or "season[:n]" asks for the whole subreddit
+          const requested = args.trim().toLowerCase().split(/\s+/);
+          const variant: Variant = requested.find(isVariant) ?? 'classic';
+          const seasonMatch = requested.map(token => token.match(/^season(?::(\d+))?$/)).find(match => match !== null);
+          const scope: StandingsScope = seasonMatch ? 'season' : requested.find(isStandingsScope) ?? 'post';
+          const variantTitle = variant !== 'classic' ? ` (${VARIANTS[variant].name})` : '';
+          
+          if (scope !== 'post') {
+            let title: string = STANDINGS_SCOPES[scope].name;
+            let rows: Standing[];
+            let emptyText = `No wins ${scope === 'week' ? 'this week' : scope === 'season' ? 'this season' : 'in this subreddit'} yet!`;
             
-            gameState.players[playerIndex].score += score;
+            if (scope === 'season') {
+              // Past seasons are read from their archive, the current one from the live standings
+              const current = await loadSeason(context.redis);
+              const number = seasonMatch?.[1] ? parseInt(seasonMatch[1]) : current.number;
+              if (number < 1 || number > current.number) {
+                await context.reddit.submitComment({
+                  text: `@${user.username} There's no season ${number}. The current season is season ${current.number}.`,
+                  id: comment.parentId
+                });
+                break;
+              }
+              
+              if (number === current.number) {
+                title = `Season ${number} (current)`;
+                rows = await loadStandings(context.redis, seasonPeriod(number), variant);
+              } else {
+                const archive = await loadSeasonArchive(context.redis, number);
+                title = `Season ${number} (final)`;
+                rows = archive?.standings[variant] ?? [];
+                emptyText = 'No wins recorded for this season.';
+              }
+            } else {
+              rows = await loadStandings(context.redis, standingsPeriod(scope), variant);
+            }
             
-            // Generate ASCII grid for display
-            const winGrid = generateAsciiGrid(grid, gridSize, true);
+            let standingsText = `# Crossmines Leaderboard: ${title}${variantTitle}\n\n`;
+            standingsText += "Rank | Player | Score | Wins\n";
+            standingsText += "-----|--------|-------|-----\n";
+            rows.forEach((row, index) => {
+              standingsText += `${index + 1} | ${row.username} | ${row.score} | ${row.wins}\n`;
+            });
+            if (rows.length === 0) {
+              standingsText += emptyText;
+            }
             
             await context.reddit.submitComment({
-              text: `@${user.username} YOU WIN! All safe cells revealed!\n\n${winGrid}\n\nTime: ${formatTime(timeElapsed)}\nMoves: ${gameState.players[playerIndex].currentMoveCount}\nScore: +${score}\n\nUse /play to start a new game.`,
+              text: standingsText,
               id: comment.parentId
             });
-            
-            // Save updated state
-            await context.redis.set(`bombsweeper_${event.comment.postId}`, JSON.stringify(gameState));
-            return;
+            break;
           }
           
-          // Generate ASCII grid for display
-          const updatedGrid = generateAsciiGrid(grid, gridSize);
+          const players = await loadPlayers(context.redis, postId);
+          const sortedPlayers = players.sort((a, b) => scoreFor(b, variant) - scoreFor(a, variant));
+          
+          let leaderboardText = `# Crossmines Leaderboard${variantTitle}\n\n`;
+          leaderboardText += "Rank | Player | Score | Games | Wins | Win Rate\n";
+          leaderboardText += "-----|--------|-------|-------|------|--------\n";
+          
+          sortedPlayers.forEach((player, index) => {
+            const winRate = player.totalGamesPlayed > 0 
+              ? Math.round((player.totalGamesWon / player.totalGamesPlayed) * 100) 
+              : 0;
+            
+            leaderboardText += `${index + 1} | ${player.username} | ${scoreFor(player, variant)} | ${player.totalGamesPlayed} | ${player.totalGamesWon} | ${winRate}%\n`;
+          });
+          
+          if (sortedPlayers.length === 0) {
+            leaderboardText += "No players yet!";
+          }
           
           await context.reddit.submitComment({
-            text: `@${user.username} revealed ${revealRow + 1},${revealCol + 1}\n\n${updatedGrid}\n\nSafe cells: ${revealedCount}/${totalSafeCells}\nMoves: ${gameState.players[playerIndex].currentMoveCount}`,
+            text: leaderboardText,
             id: comment.parentId
           });
           break;
+        }
           
-        case 'flag':
-          // Handle flag toggle
-// Handle flag toggle
-if (!gameState.players.find(p => p.id === user.id)) {
-  await context.reddit.submitComment({
-    text: `@${user.username} Please use /join first to join the game.`,
-    id: comment.parentId
-  });
-  return;
-}
-
-const flagPlayer = gameState.players.find(p => p.id === user.id);
-if (!flagPlayer.currentGrid) {
-  await context.reddit.submitComment({
-    text: `@${user.username} Please start a game first with /play.`,
-    id: comment.parentId
-  });
-  return;
-}
-
-if (flagPlayer.currentGameOver) {
-  await context.reddit.submitComment({
-    text: `@${user.username} Your game is over. Start a new game with /play.`,
-    id: comment.parentId
-  });
-  return;
-}
-
-// Parse row and column
-const flagCoords = args.match(/(\d+)\s+(\d+)/);
-if (!flagCoords) {
-  await context.reddit.submitComment({
-    text: `@${user.username} Invalid coordinates. Use format: /flag row col (e.g., /flag 3 4)`,
-    id: comment.parentId
-  });
-  return;
-}
-
-const flagRow = parseInt(flagCoords[1]) - 1; // Convert to 0-based
-const flagCol = parseInt(flagCoords[2]) - 1;
-const flagGridSize = flagPlayer.currentGridSize;
-
-// Validate coordinates
-if (
-  flagRow < 0 || 
-  flagRow >= flagGridSize || 
-  flagCol < 0 || 
-  flagCol >= flagGridSize
-) {
-  await context.reddit.submitComment({
-    text: `@${user.username} Coordinates out of bounds. Grid size is ${flagGridSize}x${flagGridSize}.`,
-    id: comment.parentId
-  });
-  return;
-}
-
-// Get cell index
-const flagCellIndex = flagRow * flagGridSize + flagCol;
-const flagGrid = flagPlayer.currentGrid;
-
-// Check if already revealed
-if (flagGrid[flagCellIndex].revealed) {
-  await context.reddit.submitComment({
-    text: `@${user.username} This cell is already revealed. You can't flag it.`,
-    id: comment.parentId
-  });
-  return;
-}
-
-// Toggle flag
-flagGrid[flagCellIndex].flagged = !flagGrid[flagCellIndex].flagged;
-
-// Update flag count
-const flagCount = flagGrid.filter(cell => cell.flagged).length;
-
-// Update player state
-const flagPlayerIndex = gameState.players.findIndex(p => p.id === user.id);
-gameState.players[flagPlayerIndex].currentGrid = flagGrid;
-gameState.players[flagPlayerIndex].currentFlagCount = flagCount;
-gameState.players[flagPlayerIndex].currentMoveCount++;
-
-// Generate ASCII grid for display
-const flaggedGrid = generateAsciiGrid(flagGrid, flagGridSize);
-
-const actionText = flagGrid[flagCellIndex].flagged ? "flagged" : "unflagged";
-
-await context.reddit.submitComment({
-  text: `@${user.username} ${actionText} ${flagRow + 1},${flagCol + 1}\n\n${flaggedGrid}\n\nFlags: ${flagCount}/${flagPlayer.currentBombCount}\nMoves: ${gameState.players[flagPlayerIndex].currentMoveCount}`,
-  id: comment.parentId
-});
-break;
-
-case 'leaderboard':
-// Show leaderboard
-const sortedPlayers = [...gameState.players].sort((a, b) => b.score - a.score);
-
-let leaderboardText = "# Crossmines Leaderboard\n\n";
-leaderboardText += "Rank | Player | Score | Games | Wins | Win Rate\n";
-leaderboardText += "-----|--------|-------|-------|------|--------\n";
-
-sortedPlayers.forEach((player, index) => {
-  const winRate = player.totalGamesPlayed > 0 
-    ? Math.round((player.totalGamesWon / player.totalGamesPlayed) * 100) 
-    : 0;
-  
-  leaderboardText += `${index + 1} | ${player.username} | ${player.score} | ${player.totalGamesPlayed} | ${player.totalGamesWon} | ${winRate}%\n`;
-});
-
-if (sortedPlayers.length === 0) {
-  leaderboardText += "No players yet!";
-}
-
-await context.reddit.submitComment({
-  text: leaderboardText,
-  id: comment.parentId
-});
-break;
-
-case 'help':
-// Show help
-await context.reddit.submitComment({
-  text: `# BombSweeper Commands
+        case 'help':
+          // Show help
+          await context.reddit.submitComment({
+            text: `# BombSweeper Commands
 
 - \`/join\` - Join the game
-- \`/play [difficulty]\` - Start a new game (EASY, MEDIUM, or HARD)
+- \`/play [difficulty] [size=WxH] [torus|hex] [cross|knight|liar] [seed=abc123] [opening] [noguess]\` - Start a new game (EASY, MEDIUM, HARD, or the classic BEGINNER, INTERMEDIATE and EXPERT), optionally replaying a seed; add \`torus\` for edges that wrap around or \`hex\` for hexagonal cells, \`cross\` for numbers that only count the 4 cells in line, \`knight\` for numbers that count knight moves, \`liar\` for numbers that are off by exactly one, \`opening\` to keep every neighbour of your first reveal clear, \`noguess\` for a board solvable by logic alone
 - \`/reveal row col\` - Reveal a cell (e.g., /reveal 3 4)
 - \`/flag row col\` - Toggle flag on a cell
-- \`/leaderboard\` - Show player rankings
+- \`/chord row col\` - Open all other neighbours of a number once its flags are placed
+- \`/hint\` - Show the next logical move and why it's forced
+- \`/abandon\` - Give up your unfinished game; it counts as a loss
+- \`/challenge u/name [difficulty] [size=WxH] [torus|hex] [cross|knight|liar] [seed=abc123]\` - Challenge a player to a race on the same board, played in the post with ⚔️ Versus; the first to clear it wins
+- \`/potato [difficulty] [size=WxH] [torus|hex] [cross|knight|liar] [seed=abc123]\` - Host a game of hot potato in your comment's thread; players sign up with \`/potato join\`, the host starts with \`/potato start\`, then players take turns with \`/reveal row col\` in the thread until one is left standing
+- \`/vote reveal|flag row col\` - Vote for the next move on the post's community board; the move with the most votes is played when the round closes
+- \`/tournament [join]\` - See how the post's tournament stands, or register for it while registration is open
+- \`/stats [u/name]\` - Show your stats over every Crossmines post, or someone else's
+- \`/leaderboard [all|week|season|season:n] [cross|knight|liar]\` - Show player rankings in this post, or across the subreddit all-time, this week, this season or in past season n, for classic rules or a variant
 - \`/help\` - Show this help message
 
 ## How to Play
 1. The goal is to reveal all cells that don't contain bombs
 2. Numbers show how many bombs are adjacent to that cell
 3. Use flags to mark where you think bombs are located
-4. Be careful - one wrong move and BOOM!`,
-  id: comment.parentId
-});
-break;
-}
-
-// Save the updated state
-await context.redis.set(`bombsweeper_${event.comment.postId}`, JSON.stringify(gameState));
-
-} catch (error) {
-console.error('Error processing command:', error);
-}
-}
+4. Your first reveal is always safe - after that, one wrong move and BOOM!`,
+            id: comment.parentId
+          });
+          break;
+      }
+    } catch (error) {
+      console.error('Error processing command:', error);
+    }
+  }
 });
 
 // Helper functions for the comment-based game
-function generateAsciiGrid(grid, gridSize, revealAll = false) {
-let output = "```\n   ";
 
-// Column headers
-for (let col = 0; col < gridSize; col++) {
-output += ` ${(col + 1).toString().padStart(2)} `;
+// Parse "row col" (1-based) into 0-based coordinates
+function parseCell(args: string) {
+  const match = args.match(/(\d+)\s+(\d+)/);
+  if (!match) return null;
+  
+  const row = parseInt(match[1]) - 1;
+  const col = parseInt(match[2]) - 1;
+  return row < 0 || col < 0 ? null : { row, col };
 }
-output += "\n   ";
 
-// Column header underline
-for (let col = 0; col < gridSize; col++) {
-output += "---";
-}
-output += "\n";
-
-// Grid rows
-for (let row = 0; row < gridSize; row++) {
-output += `${(row + 1).toString().padStart(2)} |`;
-
-for (let col = 0; col < gridSize; col++) {
-const index = row * gridSize + col;
-const cell = grid[index];
-
-if (cell.flagged && !revealAll) {
-output += " 🚩 ";
-} else if (!cell.revealed && !revealAll) {
-output += " □ ";
-} else if (cell.type === 1) { // BOMB
-output += " 💣 ";
-} else if (cell.type === 2) { // NUMBER
-output += ` ${cell.value} `;
-} else {
-output += "   ";
-}
-}
-output += "\n";
+// Parse "/play [difficulty] [size=WxH] [torus|hex] [cross|knight|liar] [seed=abc123] [opening] [noguess]" arguments in any order
+function parsePlayArgs(args: string) {
+  let difficulty: Difficulty = 'MEDIUM';
+  let width = 8; // 8x8 by default for comments
+  let height = 8;
+  let topology: Topology = 'square';
+  let variant: Variant = 'classic';
+  let seed: string | undefined;
+  let opening = false;
+  let noGuess = false;
+  
+  args.trim().split(/\s+/).filter(Boolean).forEach(token => {
+    const seedMatch = token.match(/^seed=(.*)$/i);
+    const sizeMatch = token.match(/^size=(\d+)x(\d+)$/i);
+    if (seedMatch) {
+      seed = seedMatch[1];
+    } else if (sizeMatch) {
+      // Keep boards readable in a comment
+      width = Math.min(Math.max(parseInt(sizeMatch[1]), 4), 30);
+      height = Math.min(Math.max(parseInt(sizeMatch[2]), 4), 24);
+    } else if (token.toLowerCase() === 'opening') {
+      opening = true;
+    } else if (['noguess', 'no-guess'].includes(token.toLowerCase())) {
+      noGuess = true;
+    } else if (isTopology(token.toLowerCase())) {
+      topology = token.toLowerCase() as Topology;
+    } else if (isVariant(token.toLowerCase())) {
+      variant = token.toLowerCase() as Variant;
+    } else if (isDifficulty(token.toUpperCase())) {
+      difficulty = token.toUpperCase() as Difficulty;
+    }
+  });
+  
+  return { difficulty, width, height, topology, variant, seed, opening, noGuess };
 }
 
-output += "```";
-return output;
+// Command that recreates the exact same board
+function replayCommand(board: Board) {
+  const size = DIFFICULTY[board.difficulty].preset ? '' : ` size=${board.width}x${board.height}`;
+  const shape = board.topology !== 'square' ? ` ${board.topology}` : '';
+  const rules = board.variant !== 'classic' ? ` ${board.variant}` : '';
+  const options = board.noGuess ? ' noguess' : board.opening ? ' opening' : '';
+  return `\`/play ${board.difficulty.toLowerCase()}${size}${shape}${rules} seed=${board.seed}${options}\``;
 }
 
-function revealConnectedCells(grid, index, gridSize) {
-if (grid[index].revealed || grid[index].flagged) return;
-
-grid[index].revealed = true;
-
-// If it's not an empty cell, stop recursion
-if (grid[index].type !== 0) return;
-
-// Get row and column
-const row = Math.floor(index / gridSize);
-const col = index % gridSize;
-
-// Check all 8 adjacent cells
-for (let r = -1; r <= 1; r++) {
-for (let c = -1; c <= 1; c++) {
-if (r === 0 && c === 0) continue;
-
-const newRow = row + r;
-const newCol = col + c;
-
-// Check if the adjacent cell is valid
-if (newRow >= 0 && newRow < gridSize && newCol >= 0 && newCol < gridSize) {
-const adjacentIndex = newRow * gridSize + newCol;
-revealConnectedCells(grid, adjacentIndex, gridSize);
-}
-}
-}
+// Render a board for a comment, optionally marking one cell (e.g. a hint) with ❓
+function generateAsciiGrid(board: Board, revealAll = false, markedIndex?: number) {
+  const { width, height, cells } = board;
+  let output = "```\n   ";
+  
+  // Column headers
+  for (let col = 0; col < width; col++) {
+    output += ` ${(col + 1).toString().padStart(2)} `;
+  }
+  output += "\n   ";
+  
+  // Column header underline
+  for (let col = 0; col < width; col++) {
+    output += "---";
+  }
+  output += "\n";
+  
+  // Grid rows
+  for (let row = 0; row < height; row++) {
+    output += `${(row + 1).toString().padStart(2)} |`;
+    // Shift odd rows of a hex board by half a cell
+    if (board.topology === 'hex' && row % 2 === 1) output += "  ";
+    
+    for (let col = 0; col < width; col++) {
+      const index = row * width + col;
+      const cell = cells[index];
+      
+      if (index === markedIndex) {
+        output += " ❓ ";
+      } else if (cell.flagged && !revealAll) {
+        output += " 🚩 ";
+      } else if (!cell.revealed && !revealAll) {
+        output += " □ ";
+      } else if (cell.type === CELL_TYPES.BOMB) {
+        output += " 💣 ";
+      } else if (cell.type === CELL_TYPES.NUMBER) {
+        output += ` ${cell.value} `;
+      } else {
+        output += "   ";
+      }
+    }
+    output += "\n";
+  }
+  
+  output += "```";
+  return output;
 }
 
-export default Devvit;
\ No newline at end of file
+export default Devvit;
@@ -0,0 +1,34 @@
+import { Board, createBoard, revealCell, toggleFlag } from './engine.js';
+import { bitmapLength, decodeBoard, encodeBoard } from './packing.js';
+
+const played = (board: Board) => toggleFlag(revealCell(board, 0).board, board.cells.length - 1).board;
+
+describe('packed boards', () => {
+  it('round-trip a board before its first reveal', () => {
+    const board = createBoard('EASY', { seed: 'fresh' });
+    expect(decodeBoard(encodeBoard(board))).toEqual(board);
+  });
+
+  it.each([
+    ['square', 'classic'],
+    ['torus', 'cross'],
+    ['square', 'knight'],
+    ['hex', 'classic'],
+    ['square', 'liar'],
+  ] as const)('round-trip a %s board with %s rules', (topology, variant) => {
+    const board = played(createBoard('HARD', { width: 13, height: 7, topology, variant, seed: `${topology}-${variant}` }));
+    expect(decodeBoard(encodeBoard(board))).toEqual(board);
+  });
+
+  it('only keep lies for liar boards', () => {
+    expect(encodeBoard(played(createBoard('HARD', { variant: 'liar', seed: 'lies' }))).lies).toBeDefined();
+    expect(encodeBoard(played(createBoard('HARD', { seed: 'truth' }))).lies).toBeUndefined();
+  });
+
+  it('store one bit per cell', () => {
+    const packed = encodeBoard(createBoard('EXPERT', { seed: 'expert' }));
+    for (const bitmap of [packed.mines, packed.revealed, packed.flagged]) {
+      expect(bitmap).toHaveLength(bitmapLength(30 * 16));
+    }
+  });
+});
@@ -0,0 +1,60 @@
+import { CELL_TYPES, createBoard, revealCell } from './engine.js';
+import { POTATO_TURN_MINUTES, joinPotato, newPotatoGame, potatoStanding, runOutClock, startPotato, takeTurn } from './potato.js';
+
+const MINUTE = 60 * 1000;
+const alice = { userId: 't2_a', username: 'alice' };
+const bob = { userId: 't2_b', username: 'bob' };
+const carol = { userId: 't2_c', username: 'carol' };
+
+const board = revealCell(createBoard('MEDIUM', { seed: 'potato' }), 0).board;
+const mine = board.cells.findIndex(cell => cell.type === CELL_TYPES.BOMB);
+const safe = board.cells.findIndex(cell => !cell.revealed && cell.type !== CELL_TYPES.BOMB);
+
+// A game with everyone signed up and the host to move
+const playing = (...players: (typeof alice)[]) =>
+  startPotato(players.reduce((game, player) => joinPotato(game, player) ?? game, newPotatoGame('post', 'thread', alice, board, 0)), 0)!;
+
+describe('hot potato', () => {
+  it('takes signups once each, and starts with the host once enough are in', () => {
+    const game = newPotatoGame('post', 'thread', alice, board, 0);
+    expect(joinPotato(game, alice)).toBeNull();
+    expect(startPotato(game)).toBeNull();
+    expect(playing(bob)).toMatchObject({ status: 'playing', turn: 't2_a', deadline: POTATO_TURN_MINUTES * MINUTE });
+  });
+
+  it('passes the turn on after a safe reveal, and only takes moves from whoever has it', () => {
+    const game = playing(bob, carol);
+    expect(takeTurn(game, 't2_b', safe)).toBeNull();
+    expect(takeTurn(game, 't2_a', safe, MINUTE)).toMatchObject({ turn: 't2_b', lastMove: { userId: 't2_a', hit: false } });
+  });
+
+  it('puts out a player who hits a bomb, covering it with a flag so play goes on', () => {
+    const out = takeTurn(playing(bob, carol), 't2_a', mine, MINUTE)!;
+    expect(out.eliminated).toEqual(['t2_a']);
+    expect(out.turn).toBe('t2_b');
+    expect(out.board.cells[mine]).toMatchObject({ revealed: false, flagged: true });
+    expect(potatoStanding(out).map(({ userId }) => userId)).toEqual(['t2_b', 't2_c']);
+  });
+
+  it('makes the last player standing the winner', () => {
+    const won = takeTurn(playing(bob), 't2_a', mine, MINUTE);
+    expect(won).toMatchObject({ status: 'finished', winner: 't2_b', turn: null, deadline: null });
+  });
+
+  it('puts out a player who runs out of time, and skips them from then on', () => {
+    const game = playing(bob, carol);
+    expect(runOutClock(game, game.deadline! - 1)).toBeNull();
+    const timedOut = runOutClock(game, game.deadline!)!;
+    expect(timedOut).toMatchObject({ eliminated: ['t2_a'], turn: 't2_b' });
+
+    const carolsTurn = takeTurn(timedOut, 't2_b', safe, game.deadline!)!;
+    const next = carolsTurn.board.cells.findIndex(cell => !cell.revealed && cell.type !== CELL_TYPES.BOMB);
+    expect(carolsTurn.turn).toBe('t2_c');
+    expect(takeTurn(carolsTurn, 't2_c', next, game.deadline!)?.turn).toBe('t2_b');
+  });
+
+  it('calls off a game that too few players signed up for', () => {
+    const game = newPotatoGame('post', 'thread', alice, board, 0);
+    expect(runOutClock(game, game.deadline!)).toMatchObject({ status: 'finished', winner: null });
+  });
+});
@@ -0,0 +1,151 @@
+// Hot potato: a turn-based party game played in a comment thread. Players take turns revealing
+// cells on one board; whoever hits a bomb is out, and the last player standing wins.
+import { Board, CELL_TYPES, revealCell } from './engine.js';
+
+// How long players have to sign up, and to make their move once it's their turn
+export const POTATO_SIGNUP_MINUTES = 30;
+export const POTATO_TURN_MINUTES = 10;
+
+export const POTATO_MIN_PLAYERS = 2;
+
+export type PotatoPlayer = {
+  userId: string;
+  username: string;
+};
+
+// The latest turn, for the bot to report
+export type PotatoMove = {
+  userId: string;
+  revealed: number[];
+  hit: boolean;
+};
+
+export type PotatoGame = {
+  postId: string;
+  // The host's comment the game is played under, then every comment in the thread since.
+  // Commands only count towards the game when they reply to one of these.
+  thread: string[];
+  host: PotatoPlayer;
+  // Signups close when the host starts the game, or when the signup time runs out
+  status: 'signup' | 'playing' | 'finished';
+  board: Board;
+  // Everyone who signed up, in turn order
+  players: PotatoPlayer[];
+  // Players who are out, first out first
+  eliminated: string[];
+  turn: string | null;
+  // When signups close or the current turn runs out; a scheduled job acts on it if it's still this
+  deadline: number | null;
+  lastMove: PotatoMove | null;
+  // Null until the game is won, and when too few players signed up
+  winner: string | null;
+  createdAt: number;
+};
+
+const minutes = (count: number) => count * 60 * 1000;
+
+export const newPotatoGame = (
+  postId: string,
+  threadId: string,
+  host: PotatoPlayer,
+  board: Board,
+  now = Date.now()
+): PotatoGame => ({
+  postId,
+  thread: [threadId],
+  host,
+  status: 'signup',
+  board,
+  players: [host],
+  eliminated: [],
+  turn: null,
+  deadline: now + minutes(POTATO_SIGNUP_MINUTES),
+  lastMove: null,
+  winner: null,
+  createdAt: now,
+});
+
+export const isInPotatoThread = (game: PotatoGame, commentId: string) => game.thread.includes(commentId);
+
+export const addToPotatoThread = (game: PotatoGame, commentIds: string[]): PotatoGame => ({
+  ...game,
+  thread: [...new Set([...game.thread, ...commentIds])],
+});
+
+export const hasSignedUp = (game: PotatoGame, userId: string) => game.players.some(player => player.userId === userId);
+
+export const potatoPlayer = (game: PotatoGame, userId: string | null) =>
+  game.players.find(player => player.userId === userId) ?? null;
+
+// Players still in, in turn order
+export const potatoStanding = (game: PotatoGame) => game.players.filter(player => !game.eliminated.includes(player.userId));
+
+// Sign a player up; null once signups have closed or when they're already in
+export const joinPotato = (game: PotatoGame, player: PotatoPlayer): PotatoGame | null =>
+  game.status !== 'signup' || hasSignedUp(game, player.userId) ? null : { ...game, players: [...game.players, player] };
+
+// Close signups and hand the first turn to the host; null without enough players
+export const startPotato = (game: PotatoGame, now = Date.now()): PotatoGame | null =>
+  game.status !== 'signup' || game.players.length < POTATO_MIN_PLAYERS
+    ? null
+    : { ...game, status: 'playing', turn: game.players[0].userId, deadline: now + minutes(POTATO_TURN_MINUTES) };
+
+const finish = (game: PotatoGame, winner: string | null): PotatoGame => ({
+  ...game,
+  status: 'finished',
+  turn: null,
+  deadline: null,
+  winner,
+});
+
+// Pass the turn on to the next player still in after the given one
+const passTurn = (game: PotatoGame, from: string, now: number): PotatoGame => {
+  const order = game.players.map(player => player.userId);
+  const start = order.indexOf(from);
+  const next = [...order.slice(start + 1), ...order.slice(0, start + 1)].find(userId => !game.eliminated.includes(userId));
+  return { ...game, turn: next ?? null, deadline: now + minutes(POTATO_TURN_MINUTES) };
+};
+
+// Put a player out; once only one is left, they win
+const eliminate = (game: PotatoGame, userId: string, now: number): PotatoGame => {
+  const out = { ...game, eliminated: [...game.eliminated, userId] };
+  const standing = potatoStanding(out);
+  return standing.length <= 1 ? finish(out, standing[0]?.userId ?? null) : passTurn(out, userId, now);
+};
+
+// A bomb that went off stays marked with a flag, and the rest go back under cover, so play goes on
+const coverBombs = (board: Board, hit: number): Board => ({
+  ...board,
+  cells: board.cells.map((cell, index) =>
+    cell.type === CELL_TYPES.BOMB ? { ...cell, revealed: false, flagged: cell.flagged || index === hit } : cell
+  ),
+});
+
+// Reveal a cell on the player's turn. A bomb puts them out; clearing the board wins it outright.
+// Null when it isn't their turn or the cell can't be revealed.
+export const takeTurn = (game: PotatoGame, userId: string, index: number, now = Date.now()): PotatoGame | null => {
+  if (game.status !== 'playing' || game.turn !== userId) return null;
+
+  const result = revealCell(game.board, index);
+  if (!result.changed) return null;
+
+  const hit = result.outcome === 'lost';
+  const moved: PotatoGame = {
+    ...game,
+    board: hit ? coverBombs(result.board, index) : result.board,
+    lastMove: { userId, revealed: result.revealed, hit },
+  };
+  if (hit) return eliminate(moved, userId, now);
+  if (result.outcome === 'won') return finish(moved, userId);
+  return passTurn(moved, userId, now);
+};
+
+// Act on a deadline that has passed: signups close, or the player who didn't move in time is out.
+// A game without enough players when signups close is called off.
+export const runOutClock = (game: PotatoGame, now = Date.now()): PotatoGame | null => {
+  if (game.deadline === null || game.deadline > now) return null;
+
+  if (game.status === 'signup') return startPotato(game, now) ?? finish(game, null);
+  if (game.status !== 'playing' || !game.turn) return null;
+  return eliminate({ ...game, lastMove: null }, game.turn, now);
+};
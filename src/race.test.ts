@@ -0,0 +1,30 @@
+import { RACE_ACCEPT_MINUTES, RACE_MINUTES, createRaceBoard, newRace, raceDeadline, raceSettings, recordRaceProgress, runOutRace, startRace } from './race.js';
+
+const MINUTE = 60 * 1000;
+const alice = { userId: 't2_a', username: 'alice' };
+const bob = { userId: 't2_b', username: 'bob' };
+
+const challenge = newRace('post', alice, bob, raceSettings('EASY', { seed: 'race' }), 0);
+const board = createRaceBoard(challenge.settings);
+
+describe('races', () => {
+  it('lapse if not accepted in time, then run for their own length', () => {
+    expect(raceDeadline(challenge)).toBe(RACE_ACCEPT_MINUTES * MINUTE);
+    expect(raceDeadline(startRace(challenge, board, 5 * MINUTE))).toBe((5 + RACE_MINUTES) * MINUTE);
+  });
+
+  it('settle on cells revealed once their time is up', () => {
+    const started = startRace(challenge, board, 0);
+    const ahead = recordRaceProgress(started, 't2_a', { ...board, cells: board.cells.map(cell => ({ ...cell, revealed: true })) }, 'playing', MINUTE);
+    const end = RACE_MINUTES * MINUTE;
+
+    expect(runOutRace(ahead, end - 1)).toBeNull();
+    const finished = runOutRace(ahead, end);
+    expect(finished).toMatchObject({ status: 'finished', finishedAt: end, winner: 't2_a' });
+    expect(finished?.progress.t2_b).toMatchObject({ outcome: 'lost', finishedAt: end });
+  });
+
+  it('call equal runs a draw when their time is up', () => {
+    expect(runOutRace(startRace(challenge, board, 0), RACE_MINUTES * MINUTE)?.winner).toBeNull();
+  });
+});
@@ -0,0 +1,148 @@
+// Versus races: two players race on copies of the same board, and the first to clear it wins.
+// Hitting a bomb ends a player's run; if both runs end that way, whoever revealed more wins.
+import { Board, BoardOptions, Difficulty, Outcome, Topology, Variant, countRevealed, createBoard, revealCell } from './engine.js';
+
+// How long a challenge waits to be accepted, and how long a race runs before the runs still going are stopped
+export const RACE_ACCEPT_MINUTES = 60;
+export const RACE_MINUTES = 30;
+
+export type RaceEntrant = {
+  userId: string;
+  username: string;
+};
+
+// The board both players get; the seed is picked when the challenge is made
+export type RaceSettings = {
+  difficulty: Difficulty;
+  width: number;
+  height: number;
+  topology: Topology;
+  variant: Variant;
+  seed: string;
+};
+
+// How far a player has got on their copy of the board
+export type RaceProgress = {
+  revealed: number;
+  outcome: Outcome;
+  finishedAt: number | null;
+};
+
+export type Race = {
+  id: string;
+  postId: string;
+  challenger: RaceEntrant;
+  opponent: RaceEntrant;
+  settings: RaceSettings;
+  // Pending until the opponent accepts; both clocks start then
+  status: 'pending' | 'racing' | 'finished';
+  createdAt: number;
+  startedAt: number | null;
+  finishedAt: number | null;
+  progress: Record<string, RaceProgress>;
+  // Null until the race is won, and for a draw
+  winner: string | null;
+};
+
+// Settings for a race on the given board options, with presets and shapes applied
+// as createBoard applies them, and a fresh seed unless one is given
+export const raceSettings = (difficulty: Difficulty, options: BoardOptions = {}): RaceSettings => {
+  const { width, height, topology, variant, seed } = createBoard(difficulty, options);
+  return { difficulty, width, height, topology, variant, seed };
+};
+
+// Unique per challenger, as no one can have two races going at the same moment
+export const raceId = (challengerId: string, now = Date.now()) => `${now.toString(36)}_${challengerId}`;
+
+export const newRace = (
+  postId: string,
+  challenger: RaceEntrant,
+  opponent: RaceEntrant,
+  settings: RaceSettings,
+  now = Date.now()
+): Race => ({
+  id: raceId(challenger.userId, now),
+  postId,
+  challenger,
+  opponent,
+  settings,
+  status: 'pending',
+  createdAt: now,
+  startedAt: null,
+  finishedAt: null,
+  progress: {},
+  winner: null,
+});
+
+// As with the Daily Challenge, mines are placed around a fixed first reveal in the centre,
+// so both players start from exactly the same opened board
+export const createRaceBoard = ({ difficulty, width, height, topology, variant, seed }: RaceSettings): Board => {
+  const board = createBoard(difficulty, { width, height, topology, variant, seed, opening: true });
+  const centre = Math.floor(board.height / 2) * board.width + Math.floor(board.width / 2);
+  return revealCell(board, centre).board;
+};
+
+const minutes = (count: number) => count * 60 * 1000;
+
+// When a challenge lapses or a running race is stopped; null once it's over
+export const raceDeadline = (race: Race): number | null =>
+  race.status === 'pending'
+    ? race.createdAt + minutes(RACE_ACCEPT_MINUTES)
+    : race.status === 'racing'
+      ? (race.startedAt ?? race.createdAt) + minutes(RACE_MINUTES)
+      : null;
+
+export const raceEntrants = (race: Race) => [race.challenger, race.opponent];
+
+export const isEntrant = (race: Race, userId: string) => raceEntrants(race).some(entrant => entrant.userId === userId);
+
+export const raceRival = (race: Race, userId: string) =>
+  race.challenger.userId === userId ? race.opponent : race.challenger;
+
+export const startRace = (race: Race, board: Board, now = Date.now()): Race => ({
+  ...race,
+  status: 'racing',
+  startedAt: now,
+  progress: Object.fromEntries(
+    raceEntrants(race).map(({ userId }) => [userId, { revealed: countRevealed(board), outcome: 'playing', finishedAt: null }])
+  ),
+});
+
+// Note a player's board after a move. Clearing it wins the race; once both runs have hit
+// a bomb, the one that revealed more cells wins, and equal runs are a draw.
+export const recordRaceProgress = (race: Race, userId: string, board: Board, outcome: Outcome, now = Date.now()): Race => {
+  const progress = {
+    ...race.progress,
+    [userId]: { revealed: countRevealed(board), outcome, finishedAt: outcome === 'playing' ? null : now },
+  };
+  const updated = { ...race, progress };
+  if (outcome === 'won') return { ...updated, status: 'finished', finishedAt: now, winner: userId };
+
+  return raceEntrants(race).every(({ userId }) => progress[userId].outcome === 'lost') ? finishOnReveals(updated, now) : updated;
+};
+
+// End a race where neither run cleared the board: the one that revealed more wins, and equal runs are a draw
+const finishOnReveals = (race: Race, now: number): Race => {
+  const [first, second] = raceEntrants(race).map(entrant => ({ ...entrant, ...race.progress[entrant.userId] }));
+  const winner = first.revealed === second.revealed ? null : first.revealed > second.revealed ? first : second;
+  return { ...race, status: 'finished', finishedAt: now, winner: winner?.userId ?? null };
+};
+
+// Stop a running race whose time is up, ending the runs still going as if they'd hit a bomb.
+// Returns null when the race isn't running or has time left.
+export const runOutRace = (race: Race, now = Date.now()): Race | null => {
+  const deadline = raceDeadline(race);
+  if (race.status !== 'racing' || deadline === null || deadline > now) return null;
+
+  const progress = Object.fromEntries(
+    Object.entries(race.progress).map(([userId, run]) => [
+      userId,
+      run.outcome === 'playing' ? { ...run, outcome: 'lost' as const, finishedAt: now } : run,
+    ])
+  );
+  return finishOnReveals({ ...race, progress }, now);
+};
+
+// Seconds a player's run took, from the start of the race to their last move
+export const runTime = (race: Race, userId: string, now = Date.now()) =>
+  Math.floor(((race.progress[userId]?.finishedAt ?? now) - (race.startedAt ?? now)) / 1000);
@@ -0,0 +1,39 @@
+// Deterministic pseudo-random numbers so any board can be regenerated from its seed
+
+const SEED_ALPHABET = 'abcdefghijklmnopqrstuvwxyz0123456789';
+
+// Seeds are short, case-insensitive tokens that are easy to share in a comment
+export const SEED_PATTERN = /^[a-z0-9_-]{1,32}$/;
+
+export const normalizeSeed = (seed: string) => seed.trim().toLowerCase();
+
+export const isValidSeed = (seed: string) => SEED_PATTERN.test(normalizeSeed(seed));
+
+// Pick a new seed for a game that wasn't given one
+export const generateSeed = (length = 8) =>
+  Array.from({ length }, () => SEED_ALPHABET[Math.floor(Math.random() * SEED_ALPHABET.length)]).join('');
+
+// Hash a seed string down to a 32-bit integer (cyrb53-style mixing)
+const hashSeed = (seed: string) => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < seed.length; i++) {
+    const ch = seed.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (h1 ^ h2) >>> 0;
+};
+
+// Mulberry32 generator returning floats in [0, 1), like Math.random
+export const createRandom = (seed: string) => {
+  let state = hashSeed(normalizeSeed(seed));
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
@@ -0,0 +1,102 @@
+import { createBoard, revealCell } from './engine.js';
+import {
+  SCHEMA_VERSION,
+  SchemaError,
+  parseGameSession,
+  parsePostSession,
+  parsePostSessionV4,
+  parsePostStateV1,
+  postSessionVersion,
+  serializeGameSession,
+  splitPostSessionV4,
+} from './schema.js';
+
+// A board as saved before topologies, variants, openings and lazy mines existed
+const legacyBoard = () => {
+  const { topology, variant, opening, noGuess, minesPlaced, ...board } = revealCell(createBoard('EASY', { seed: 'legacy' }), 0).board;
+  return board;
+};
+
+describe('post sessions', () => {
+  it('upgrade from version 0 to the current version, moving the game out', () => {
+    const stored = JSON.stringify({
+      currentPage: 'game',
+      gridSize: 10,
+      difficulty: 'EASY',
+      board: legacyBoard(),
+      gameOver: false,
+      moveCount: 3,
+      timeElapsed: 42,
+      gameStartTime: 1000,
+      streakCount: 2,
+    });
+    expect(postSessionVersion(stored)).toBe(0);
+
+    const { session, game } = splitPostSessionV4(parsePostSessionV4(stored));
+    expect(session).toEqual({
+      schemaVersion: SCHEMA_VERSION,
+      gridSize: 10,
+      difficulty: 'EASY',
+      opening: false,
+      noGuess: false,
+      topology: 'square',
+      variant: 'classic',
+    });
+    expect(game?.moveCount).toBe(3);
+    expect(game?.clock).toEqual({ startedAt: 1000, pausedAt: null, pausedFor: 0, lastMoveAt: 43000, endedAt: null });
+    expect(game?.board).toEqual(revealCell(createBoard('EASY', { seed: 'legacy' }), 0).board);
+    expect(parsePostSession(JSON.stringify(session))).toEqual(session);
+  });
+
+  it('drop a finished game when upgrading', () => {
+    const stored = JSON.stringify({ board: legacyBoard(), gameOver: true, gameStartTime: 1000, timeElapsed: 5 });
+    expect(splitPostSessionV4(parsePostSessionV4(stored)).game).toBeNull();
+  });
+
+  it('refuse sessions from a newer version', () => {
+    expect(() => parsePostSession(JSON.stringify({ schemaVersion: SCHEMA_VERSION + 1 }))).toThrow(SchemaError);
+  });
+});
+
+describe('post state', () => {
+  it('upgrades a version 0 blob to version 1', () => {
+    const state = parsePostStateV1(
+      JSON.stringify({
+        players: [{ id: 't2_a', username: 'alice', score: 30, currentBoard: legacyBoard() }],
+        bestScore: { EASY: { time: 12, revealed: 90 }, HARD: { time: null, revealed: 0 }, MEDIUM: {} },
+      })
+    );
+    expect(state.schemaVersion).toBe(1);
+    expect(state.players[0]).toMatchObject({ id: 't2_a', username: 'alice', score: 30, moves: 0, totalGamesPlayed: 0 });
+    expect(state.players[0].currentBoard?.minesPlaced).toBe(true);
+    expect(state.bestScore).toEqual({
+      EASY: { time: 12, revealed: 90 },
+      HARD: { time: null, revealed: 0 },
+      MEDIUM: { time: null, revealed: 0 },
+    });
+  });
+
+  it('rejects a blob that is not an object', () => {
+    expect(() => parsePostStateV1('[]')).toThrow(SchemaError);
+  });
+});
+
+describe('games', () => {
+  it('round-trip through their stored form', () => {
+    const game = {
+      board: revealCell(createBoard('HARD', { seed: 'stored', variant: 'liar' }), 5).board,
+      moveCount: 1,
+      clock: { startedAt: 1, pausedAt: null, pausedFor: 0, lastMoveAt: 2, endedAt: null },
+    };
+    expect(parseGameSession(serializeGameSession(game))).toEqual(game);
+  });
+
+  it('reject a game with a corrupted board', () => {
+    const stored = JSON.parse(serializeGameSession({
+      board: createBoard('EASY', { seed: 'corrupt' }),
+      moveCount: 0,
+      clock: { startedAt: 1, pausedAt: null, pausedFor: 0, lastMoveAt: 1, endedAt: null },
+    }));
+    expect(() => parseGameSession(JSON.stringify({ ...stored, board: { ...stored.board, mines: 'not base64!' } }))).toThrow(SchemaError);
+  });
+});
@@ -0,0 +1,878 @@
+// Typed, versioned shapes of everything stored in Redis, with runtime validation on load
+// and migrations that upgrade blobs written by older versions of the app
+import { GameClock } from './clock.js';
+import { DailyAttempt, DailyResult, DailyStreak } from './daily.js';
+import { Board, CELL_TYPES, Cell, Difficulty, Variant, checkOutcome, isDifficulty, isTopology, isVariant } from './engine.js';
+import { PackedBoard, bitmapLength, decodeBoard, encodeBoard } from './packing.js';
+import { Season, SeasonArchive, Standing } from './standings.js';
+import { GameRecord, PlayerStats } from './stats.js';
+import { GameEvent, PostTally } from './ledger.js';
+import { CoopGame, CoopTally } from './coop.js';
+import { Race, RaceEntrant, RaceProgress, RaceSettings } from './race.js';
+import { PotatoGame, PotatoMove, PotatoPlayer } from './potato.js';
+import { Ballot, CommunityGame, VoteTally, isVoteAction } from './vote.js';
+import { Tournament, TournamentMatch, TournamentRound, TournamentRun } from './tournament.js';
+
+// Bump when a stored shape changes, and add a migration from the previous version
+export const SCHEMA_VERSION = 6;
+
+export const PAGES = ['home', 'setup', 'game', 'win', 'lose', 'leaderboard', 'daily', 'stats', 'versus', 'tournament'] as const;
+
+export type Page = typeof PAGES[number];
+
+// Fastest clear for a difficulty; time is null until someone wins one
+export type BestScore = {
+  time: number | null;
+  revealed: number;
+  // Who set it, where that's known
+  username?: string;
+};
+
+// Best scores are kept apart per rule variant; classic games keep the plain difficulty key
+export const bestScoreKey = (difficulty: Difficulty, variant: Variant) =>
+  variant === 'classic' ? difficulty : `${difficulty}:${variant}`;
+
+// A player's game in a post. The custom post and comment commands play the same one,
+// so a game started in either can be continued in the other.
+export type GameSession = {
+  board: Board;
+  moveCount: number;
+  clock: GameClock;
+};
+
+export type Player = {
+  id: string;
+  username: string;
+  moves: number;
+  // Points from classic rules; every other rule variant is ranked on its own
+  score: number;
+  variantScores: Partial<Record<Variant, number>>;
+  totalGamesPlayed: number;
+  totalGamesWon: number;
+};
+
+// Shared data of a post: who joined and the best times on it.
+// Players live in Redis hashes and scores in sorted sets; this is the view assembled from them.
+export type PostState = {
+  players: Player[];
+  bestScore: Record<string, BestScore>;
+};
+
+// What's left of the post blob once its data moved to hashes and sorted sets
+export type PostRecord = {
+  schemaVersion: number;
+};
+
+// Up to version 4 a player's comment game was kept on the player itself
+export type CommentSessionV4 = {
+  currentBoard: Board | null;
+  currentGameOver: boolean;
+  currentMoveCount: number;
+  startTime: number;
+};
+
+export const COMMENT_SESSION_FIELDS_V4: (keyof CommentSessionV4)[] = ['currentBoard', 'currentGameOver', 'currentMoveCount', 'startTime'];
+
+// Version 1 kept the whole post, players included, in one JSON blob
+export type PostStateV1 = {
+  schemaVersion: number;
+  players: (Player & CommentSessionV4)[];
+  bestScore: Record<string, BestScore>;
+};
+
+// A viewer's settings in a post, kept apart from the data everyone shares
+export type PostSession = {
+  schemaVersion: number;
+  gridSize: number;
+  difficulty: Difficulty;
+  opening: boolean;
+  noGuess: boolean;
+  topology: Board['topology'];
+  variant: Variant;
+};
+
+// Up to version 4 the session also held the viewer's page and their game in the post,
+// and up to version 5 their win streak
+export type PostSessionV4 = PostSession & {
+  streakCount: number;
+  currentPage: Page;
+  board: Board | null;
+  gameOver: boolean;
+  moveCount: number;
+  // Null until a game is started
+  clock: GameClock | null;
+};
+
+export class SchemaError extends Error {
+  constructor(what: string) {
+    super(`Stored ${what} doesn't match schema version ${SCHEMA_VERSION}`);
+    this.name = 'SchemaError';
+  }
+}
+
+export const emptyPostState = (): PostState => ({
+  players: [],
+  bestScore: {},
+});
+
+export const newPlayer = (id: string, username: string): Player => ({
+  id,
+  username,
+  moves: 0,
+  score: 0,
+  variantScores: {},
+  totalGamesPlayed: 0,
+  totalGamesWon: 0,
+});
+
+// Validation
+
+type Stored = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Stored =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isCell = (value: unknown): value is Cell =>
+  isObject(value) &&
+  Object.values(CELL_TYPES).some(type => type === value.type) &&
+  isNumber(value.value) &&
+  isBoolean(value.revealed) &&
+  isBoolean(value.flagged);
+
+const isBoardSettings = (value: Stored): value is Stored & Omit<Board, 'cells'> =>
+  isString(value.seed) &&
+  isNumber(value.width) &&
+  isNumber(value.height) &&
+  isString(value.topology) &&
+  isTopology(value.topology) &&
+  isString(value.variant) &&
+  isVariant(value.variant) &&
+  isString(value.difficulty) &&
+  isDifficulty(value.difficulty) &&
+  isNumber(value.bombCount) &&
+  isBoolean(value.opening) &&
+  isBoolean(value.noGuess) &&
+  isBoolean(value.minesPlaced);
+
+export const isBoard = (value: unknown): value is Board =>
+  isObject(value) &&
+  isBoardSettings(value) &&
+  Array.isArray(value.cells) &&
+  value.cells.length === value.width * value.height &&
+  value.cells.every(isCell);
+
+const BASE64_TEXT = /^[A-Za-z0-9+/]*={0,2}$/;
+
+const isBitmap = (value: unknown, cellCount: number) =>
+  isString(value) && value.length === bitmapLength(cellCount) && BASE64_TEXT.test(value);
+
+const isPackedBoard = (value: unknown): value is PackedBoard =>
+  isObject(value) &&
+  isBoardSettings(value) &&
+  [value.mines, value.revealed, value.flagged].every(bitmap => isBitmap(bitmap, value.width * value.height)) &&
+  (value.lies === undefined || isBitmap(value.lies, value.width * value.height));
+
+const isBestScore = (value: unknown): value is BestScore =>
+  isObject(value) &&
+  (value.time === null || isNumber(value.time)) &&
+  isNumber(value.revealed) &&
+  (value.username === undefined || isString(value.username));
+
+const isPlayer = (value: unknown): value is Player =>
+  isObject(value) &&
+  isString(value.id) &&
+  isString(value.username) &&
+  isNumber(value.moves) &&
+  isNumber(value.score) &&
+  isObject(value.variantScores) &&
+  Object.entries(value.variantScores).every(([key, score]) => isVariant(key) && isNumber(score)) &&
+  isNumber(value.totalGamesPlayed) &&
+  isNumber(value.totalGamesWon);
+
+const isCommentSessionV4 = (value: Stored): value is Stored & CommentSessionV4 =>
+  (value.currentBoard === null || isBoard(value.currentBoard)) &&
+  isBoolean(value.currentGameOver) &&
+  isNumber(value.currentMoveCount) &&
+  isNumber(value.startTime);
+
+const isPostStateV1 = (value: unknown): value is PostStateV1 =>
+  isObject(value) &&
+  value.schemaVersion === 1 &&
+  Array.isArray(value.players) &&
+  value.players.every(player => isPlayer(player) && isCommentSessionV4(player)) &&
+  isObject(value.bestScore) &&
+  Object.values(value.bestScore).every(isBestScore);
+
+const isGameClock = (value: unknown): value is GameClock =>
+  isObject(value) &&
+  isNumber(value.startedAt) &&
+  (value.pausedAt === null || isNumber(value.pausedAt)) &&
+  isNumber(value.pausedFor) &&
+  isNumber(value.lastMoveAt) &&
+  (value.endedAt === null || isNumber(value.endedAt));
+
+const isGameSession = (value: unknown): value is GameSession =>
+  isObject(value) && isBoard(value.board) && isNumber(value.moveCount) && isGameClock(value.clock);
+
+const isSessionSettings = (value: Stored) =>
+  isNumber(value.gridSize) &&
+  isString(value.difficulty) &&
+  isDifficulty(value.difficulty) &&
+  isBoolean(value.opening) &&
+  isBoolean(value.noGuess) &&
+  isString(value.topology) &&
+  isTopology(value.topology) &&
+  isString(value.variant) &&
+  isVariant(value.variant);
+
+const isPostSession = (value: unknown): value is PostSession =>
+  isObject(value) && value.schemaVersion === SCHEMA_VERSION && isSessionSettings(value);
+
+const isPostSessionV4 = (value: unknown): value is PostSessionV4 =>
+  isObject(value) &&
+  value.schemaVersion === 4 &&
+  isSessionSettings(value) &&
+  isNumber(value.streakCount) &&
+  PAGES.some(page => page === value.currentPage) &&
+  (value.board === null || isBoard(value.board)) &&
+  isBoolean(value.gameOver) &&
+  isNumber(value.moveCount) &&
+  (value.clock === null || isGameClock(value.clock));
+
+// Migrations from version 0: every blob written before schemaVersion existed
+
+// Boards saved before topologies, variants, openings or lazy mines existed
+const migrateBoard = (board: Stored): Stored => ({
+  topology: 'square',
+  variant: 'classic',
+  opening: false,
+  noGuess: false,
+  minesPlaced: true,
+  ...board,
+});
+
+// The first comment games kept a bare cell array with its settings spread over the player.
+// Those boards were never seeded, so they get a placeholder seed.
+const migrateLegacyGrid = (player: Stored): Stored | null => {
+  if (!Array.isArray(player.currentGrid)) return null;
+
+  const cells = player.currentGrid;
+  const size = isNumber(player.currentGridSize) ? player.currentGridSize : Math.round(Math.sqrt(cells.length));
+  const difficulty = isString(player.currentDifficulty) && isDifficulty(player.currentDifficulty) ? player.currentDifficulty : 'MEDIUM';
+  return migrateBoard({
+    seed: 'legacy',
+    width: size,
+    height: size,
+    difficulty,
+    bombCount: isNumber(player.currentBombCount)
+      ? player.currentBombCount
+      : cells.filter(cell => isObject(cell) && cell.type === CELL_TYPES.BOMB).length,
+    cells,
+  });
+};
+
+const migratePlayerV0 = (player: Stored): Stored => ({
+  id: player.id,
+  username: player.username,
+  moves: player.moves ?? 0,
+  score: player.score ?? 0,
+  variantScores: player.variantScores ?? {},
+  totalGamesPlayed: player.totalGamesPlayed ?? 0,
+  totalGamesWon: player.totalGamesWon ?? 0,
+  currentBoard: isObject(player.currentBoard) ? migrateBoard(player.currentBoard) : migrateLegacyGrid(player),
+  currentGameOver: player.currentGameOver ?? false,
+  currentMoveCount: player.currentMoveCount ?? 0,
+  startTime: player.startTime ?? 0,
+});
+
+// Infinity was saved for "no record yet", which JSON turns into null
+const migrateBestScoresV0 = (bestScore: unknown): Stored =>
+  Object.fromEntries(
+    Object.entries(isObject(bestScore) ? bestScore : {}).map(([key, score]) => [
+      key,
+      {
+        time: isObject(score) && isNumber(score.time) ? score.time : null,
+        revealed: isObject(score) && isNumber(score.revealed) ? score.revealed : 0,
+      },
+    ])
+  );
+
+// Before per-user sessions the post blob also held whoever played last's board and page.
+// That game can't be given back to its player, so only the shared data is kept.
+const migratePostStateV0 = (state: Stored): Stored => ({
+  schemaVersion: 1,
+  players: (Array.isArray(state.players) ? state.players : []).filter(isObject).map(migratePlayerV0),
+  bestScore: migrateBestScoresV0(state.bestScore),
+});
+
+const migratePostSessionV0 = (session: Stored): Stored => ({
+  currentPage: 'home',
+  gridSize: 10,
+  difficulty: 'MEDIUM',
+  opening: false,
+  noGuess: false,
+  topology: 'square',
+  variant: 'classic',
+  gameOver: false,
+  moveCount: 0,
+  timeElapsed: 0,
+  gameStartTime: 0,
+  streakCount: 0,
+  ...session,
+  board: isObject(session.board) ? migrateBoard(session.board) : null,
+  schemaVersion: 1,
+});
+
+// Migrations from version 1
+
+// Sessions didn't change shape in version 2
+const migratePostSessionV1 = (session: Stored): Stored => ({ ...session, schemaVersion: 2 });
+
+// Migrations from version 2
+
+// Boards are stored packed from version 3 on
+const migratePostSessionV2 = (session: Stored): Stored => ({
+  ...session,
+  board: isBoard(session.board) ? encodeBoard(session.board) : session.board,
+  schemaVersion: 3,
+});
+
+// Migrations from version 3
+
+// Sessions kept a start time and a counter ticked by the client every second; they become a clock.
+// The counter was last saved at the last tick before leaving, which stands in for the last move.
+const migratePostSessionV3 = ({ timeElapsed, gameStartTime, ...session }: Stored): Stored => {
+  const started = isNumber(gameStartTime) && gameStartTime > 0 && session.board !== null;
+  const lastMoveAt = started ? gameStartTime + (isNumber(timeElapsed) ? timeElapsed : 0) * 1000 : 0;
+  return {
+    ...session,
+    clock: started
+      ? { startedAt: gameStartTime, pausedAt: null, pausedFor: 0, lastMoveAt, endedAt: session.gameOver ? lastMoveAt : null }
+      : null,
+    schemaVersion: 4,
+  };
+};
+
+// Migrations from version 4
+
+// Games moved out of sessions and player hashes into one game per player and post.
+// Only unfinished games are carried over; a finished one has nothing left to continue.
+export const gameFromCommentSessionV4 = (session: CommentSessionV4): GameSession | null =>
+  session.currentBoard && !session.currentGameOver
+    ? {
+        board: session.currentBoard,
+        moveCount: session.currentMoveCount,
+        clock: { startedAt: session.startTime, pausedAt: null, pausedFor: 0, lastMoveAt: session.startTime, endedAt: null },
+      }
+    : null;
+
+// Comment games of versions 2 to 4 sat in the player hash, with boards packed from version 3 on
+export const commentGameFromHashV4 = (hash: Record<string, string>): GameSession | null => {
+  const stored = hash.currentBoard ? JSON.parse(hash.currentBoard) : null;
+  const board = isPackedBoard(stored) ? decodeBoard(stored) : stored;
+  const session = {
+    currentBoard: board,
+    currentGameOver: hash.currentGameOver === 'true',
+    currentMoveCount: Number(hash.currentMoveCount ?? 0),
+    startTime: Number(hash.startTime ?? 0),
+  };
+  if (!isCommentSessionV4(session)) throw new SchemaError('comment game');
+  return gameFromCommentSessionV4(session);
+};
+
+// Split a version 4 session into the settings that stay and the game that moves out
+export const splitPostSessionV4 = ({ currentPage, board, gameOver, moveCount, clock, ...settings }: PostSessionV4) => ({
+  session: migratePostSessionV5({ ...settings, schemaVersion: 5 }) as PostSession,
+  game: board && clock && !gameOver ? { board, moveCount, clock } : null,
+});
+
+// Migrations from version 5
+
+// Win streaks are worked out from the game ledger instead of being kept per post
+const migratePostSessionV5 = ({ streakCount, ...session }: Stored): Stored => ({ ...session, schemaVersion: 6 });
+
+type Migration = (value: Stored) => Stored;
+
+// Upgrade one version at a time, keyed by the version being upgraded from
+// (version 1 to 2 moves the post's players into Redis structures, version 4 to 5 moves games
+// to their own keys and version 5 to 6 carries the post's counters into the game ledger,
+// so those live in store.ts)
+const POST_STATE_MIGRATIONS: Record<number, Migration> = { 0: migratePostStateV0 };
+const POST_SESSION_MIGRATIONS: Record<number, Migration> = {
+  0: migratePostSessionV0,
+  1: migratePostSessionV1,
+  2: migratePostSessionV2,
+  3: migratePostSessionV3,
+  5: migratePostSessionV5,
+};
+
+const upgrade = (value: unknown, migrations: Record<number, Migration>, what: string, target = SCHEMA_VERSION) => {
+  if (!isObject(value)) throw new SchemaError(what);
+
+  let current = value;
+  let version = schemaVersionOf(current);
+  // A blob from a newer version of the app can't be read safely
+  if (version > target) throw new SchemaError(what);
+
+  while (version < target) {
+    if (!migrations[version]) throw new SchemaError(what);
+    current = migrations[version](current);
+    version = current.schemaVersion as number;
+  }
+  return current;
+};
+
+// Unversioned blobs count as version 0
+const schemaVersionOf = (value: Stored) => (isNumber(value.schemaVersion) ? value.schemaVersion : 0);
+
+export const parsePostRecord = (json: string): PostRecord => {
+  const record = JSON.parse(json);
+  if (!isObject(record)) throw new SchemaError('post record');
+  return { schemaVersion: schemaVersionOf(record) };
+};
+
+// Parse a post blob from before version 2, upgraded to version 1 and validated,
+// so its players can be moved into Redis structures; throws SchemaError when it can't be read
+export const parsePostStateV1 = (json: string): PostStateV1 => {
+  const state = upgrade(JSON.parse(json), POST_STATE_MIGRATIONS, 'post state', 1);
+  if (!isPostStateV1(state)) throw new SchemaError('post state');
+  return state;
+};
+
+export const parseBestScore = (json: string): BestScore => {
+  const score = JSON.parse(json);
+  if (!isBestScore(score)) throw new SchemaError('best score');
+  return score;
+};
+
+// Players are stored as Redis hashes of strings; scores are kept in sorted sets instead
+
+export const playerToHash = (player: Player): Record<string, string> => ({
+  id: player.id,
+  username: player.username,
+  moves: String(player.moves),
+  totalGamesPlayed: String(player.totalGamesPlayed),
+  totalGamesWon: String(player.totalGamesWon),
+});
+
+export const playerFromHash = (
+  hash: Record<string, string>,
+  scores: Pick<Player, 'score' | 'variantScores'>
+): Player => {
+  const player = {
+    id: hash.id,
+    username: hash.username,
+    moves: Number(hash.moves ?? 0),
+    ...scores,
+    totalGamesPlayed: Number(hash.totalGamesPlayed ?? 0),
+    totalGamesWon: Number(hash.totalGamesWon ?? 0),
+  };
+  if (!isPlayer(player)) throw new SchemaError('player');
+  return player;
+};
+
+// Parse a session from before version 5, upgraded to version 4 and validated,
+// so its game can be moved out to the game key
+export const parsePostSessionV4 = (json: string): PostSessionV4 => {
+  const stored = upgrade(JSON.parse(json), POST_SESSION_MIGRATIONS, 'post session', 4);
+  const { board } = stored;
+  const session = { ...stored, board: isPackedBoard(board) ? decodeBoard(board) : board };
+  if (!isPostSessionV4(session)) throw new SchemaError('post session');
+  return session;
+};
+
+export const parsePostSession = (json: string): PostSession => {
+  const session = upgrade(JSON.parse(json), POST_SESSION_MIGRATIONS, 'post session');
+  if (!isPostSession(session)) throw new SchemaError('post session');
+  return session;
+};
+
+// Sessions older than version 5 still hold a game and need splitting first
+export const postSessionVersion = (json: string) => {
+  const session = JSON.parse(json);
+  return isObject(session) ? schemaVersionOf(session) : 0;
+};
+
+export const parseGameSession = (json: string): GameSession => {
+  const stored = JSON.parse(json);
+  if (!isObject(stored) || !isPackedBoard(stored.board)) throw new SchemaError('game');
+
+  const game = { ...stored, board: decodeBoard(stored.board) };
+  if (!isGameSession(game)) throw new SchemaError('game');
+  return game;
+};
+
+export const serializeGameSession = (game: GameSession) =>
+  JSON.stringify({ ...game, board: encodeBoard(game.board) });
+
+const isNames = (value: unknown) => isObject(value) && Object.values(value).every(isString);
+
+const isCounts = (value: unknown) => isObject(value) && Object.values(value).every(isNumber);
+
+const isCoopCredits = (value: Stored) =>
+  isNames(value.openedBy) && isNames(value.players) && (value.lostBy === null || isString(value.lostBy));
+
+const isCoopGame = (value: unknown): value is CoopGame => isGameSession(value) && isCoopCredits(value);
+
+const isCoopTally = (value: unknown): value is CoopTally =>
+  isObject(value) && isNumber(value.played) && isNumber(value.won) && isCounts(value.cells) && isCounts(value.bombs);
+
+// The shared board is stored like a player's game, with the players' credits alongside
+export const parseCoopGame = (json: string): CoopGame => {
+  const stored = JSON.parse(json);
+  if (!isObject(stored) || !isPackedBoard(stored.board)) throw new SchemaError('co-op game');
+
+  const game = { ...stored, board: decodeBoard(stored.board) };
+  if (!isCoopGame(game)) throw new SchemaError('co-op game');
+  return game;
+};
+
+export const serializeCoopGame = (game: CoopGame) =>
+  JSON.stringify({ ...game, board: encodeBoard(game.board) });
+
+export const parseCoopTally = (json: string): CoopTally => {
+  const tally = JSON.parse(json);
+  if (!isCoopTally(tally)) throw new SchemaError('co-op tally');
+  return tally;
+};
+
+// Still being played: not won or lost yet
+export const isUnfinished = (game: GameSession) => checkOutcome(game.board) === 'playing';
+
+const isDailyAttempt = (value: unknown): value is DailyAttempt =>
+  isObject(value) &&
+  isString(value.date) &&
+  isString(value.userId) &&
+  isString(value.username) &&
+  isBoard(value.board) &&
+  isNumber(value.moves) &&
+  ['playing', 'won', 'lost'].some(outcome => outcome === value.outcome) &&
+  isNumber(value.startedAt) &&
+  (value.finishedAt === null || isNumber(value.finishedAt));
+
+// Daily attempts only last a day, so they aren't versioned:
+// ones saved before boards were packed still hold the full cell list
+export const parseDailyAttempt = (json: string): DailyAttempt => {
+  const stored = JSON.parse(json);
+  if (!isObject(stored)) throw new SchemaError('daily attempt');
+
+  const { board } = stored;
+  const attempt = { ...stored, board: isPackedBoard(board) ? decodeBoard(board) : board };
+  if (!isDailyAttempt(attempt)) throw new SchemaError('daily attempt');
+  return attempt;
+};
+
+export const serializeDailyAttempt = (attempt: DailyAttempt) =>
+  JSON.stringify({ ...attempt, board: encodeBoard(attempt.board) });
+
+const isDailyResult = (value: unknown): value is DailyResult =>
+  isObject(value) &&
+  isString(value.userId) &&
+  isString(value.username) &&
+  ['playing', 'won', 'lost'].some(outcome => outcome === value.outcome) &&
+  isNumber(value.time) &&
+  isNumber(value.moves);
+
+const isDailyStreak = (value: unknown): value is DailyStreak =>
+  isObject(value) && isNumber(value.current) && isNumber(value.best) && (value.lastWon === null || isString(value.lastWon));
+
+export const parseDailyResult = (json: string): DailyResult => {
+  const result = JSON.parse(json);
+  if (!isDailyResult(result)) throw new SchemaError('daily result');
+  return result;
+};
+
+export const parseDailyStreak = (json: string): DailyStreak => {
+  const streak = JSON.parse(json);
+  if (!isDailyStreak(streak)) throw new SchemaError('daily streak');
+  return streak;
+};
+
+const isSeason = (value: unknown): value is Season =>
+  isObject(value) && isNumber(value.number) && isNumber(value.startedAt);
+
+const isStanding = (value: unknown): value is Standing =>
+  isObject(value) && isString(value.userId) && isString(value.username) && isNumber(value.score) && isNumber(value.wins);
+
+const isSeasonArchive = (value: unknown): value is SeasonArchive =>
+  isObject(value) &&
+  isNumber(value.number) &&
+  isNumber(value.startedAt) &&
+  isNumber(value.endedAt) &&
+  isObject(value.standings) &&
+  Object.entries(value.standings).every(
+    ([variant, standings]) => isVariant(variant) && Array.isArray(standings) && standings.every(isStanding)
+  );
+
+export const parseSeason = (json: string): Season => {
+  const season = JSON.parse(json);
+  if (!isSeason(season)) throw new SchemaError('season');
+  return season;
+};
+
+export const parseSeasonArchive = (json: string): SeasonArchive => {
+  const archive = JSON.parse(json);
+  if (!isSeasonArchive(archive)) throw new SchemaError('season archive');
+  return archive;
+};
+
+const isTimes = (value: unknown, isKey: (key: string) => boolean) =>
+  isObject(value) && Object.entries(value).every(([key, time]) => isKey(key) && isNumber(time));
+
+const isPlayerStats = (value: unknown): value is PlayerStats =>
+  isObject(value) &&
+  ['games', 'wins', 'winningTime', 'cellsRevealed', 'flagsPlaced', 'correctFlags', 'currentStreak', 'longestStreak', 'matches', 'matchesWon']
+    .every(field => isNumber(value[field])) &&
+  isTimes(value.bestByDifficulty, isDifficulty) &&
+  isTimes(value.bestBySize, key => /^\d+x\d+$/.test(key));
+
+const isGameRecord = (value: unknown): value is GameRecord =>
+  isObject(value) &&
+  isNumber(value.finishedAt) &&
+  ['won', 'lost', 'abandoned'].some(result => result === value.result) &&
+  isString(value.difficulty) &&
+  isDifficulty(value.difficulty) &&
+  isString(value.variant) &&
+  isVariant(value.variant) &&
+  isString(value.topology) &&
+  isTopology(value.topology) &&
+  ['width', 'height', 'time', 'moves', 'revealed', 'flags', 'correctFlags'].every(field => isNumber(value[field]));
+
+// Stats aren't versioned; ones saved before races were added have no match counters yet
+export const parsePlayerStats = (json: string): PlayerStats => {
+  const stats = { matches: 0, matchesWon: 0, ...JSON.parse(json) };
+  if (!isPlayerStats(stats)) throw new SchemaError('player stats');
+  return stats;
+};
+
+export const parseGameRecord = (json: string): GameRecord => {
+  const record = JSON.parse(json);
+  if (!isGameRecord(record)) throw new SchemaError('game record');
+  return record;
+};
+
+const isRaceEntrant = (value: unknown): value is RaceEntrant =>
+  isObject(value) && isString(value.userId) && isString(value.username);
+
+const isRaceSettings = (value: unknown): value is RaceSettings =>
+  isObject(value) &&
+  isString(value.difficulty) &&
+  isDifficulty(value.difficulty) &&
+  isNumber(value.width) &&
+  isNumber(value.height) &&
+  isString(value.topology) &&
+  isTopology(value.topology) &&
+  isString(value.variant) &&
+  isVariant(value.variant) &&
+  isString(value.seed);
+
+const isRaceProgress = (value: unknown): value is RaceProgress =>
+  isObject(value) &&
+  isNumber(value.revealed) &&
+  ['playing', 'won', 'lost'].some(outcome => outcome === value.outcome) &&
+  (value.finishedAt === null || isNumber(value.finishedAt));
+
+const isRace = (value: unknown): value is Race =>
+  isObject(value) &&
+  isString(value.id) &&
+  isString(value.postId) &&
+  isRaceEntrant(value.challenger) &&
+  isRaceEntrant(value.opponent) &&
+  isRaceSettings(value.settings) &&
+  ['pending', 'racing', 'finished'].some(status => status === value.status) &&
+  isNumber(value.createdAt) &&
+  (value.startedAt === null || isNumber(value.startedAt)) &&
+  (value.finishedAt === null || isNumber(value.finishedAt)) &&
+  isObject(value.progress) &&
+  Object.values(value.progress).every(isRaceProgress) &&
+  (value.winner === null || isString(value.winner));
+
+export const parseRace = (json: string): Race => {
+  const race = JSON.parse(json);
+  if (!isRace(race)) throw new SchemaError('race');
+  return race;
+};
+
+const isPotatoPlayer = (value: unknown): value is PotatoPlayer =>
+  isObject(value) && isString(value.userId) && isString(value.username);
+
+const isPotatoMove = (value: unknown): value is PotatoMove =>
+  isObject(value) &&
+  isString(value.userId) &&
+  Array.isArray(value.revealed) &&
+  value.revealed.every(isNumber) &&
+  isBoolean(value.hit);
+
+const isPotatoGame = (value: unknown): value is PotatoGame =>
+  isObject(value) &&
+  isString(value.postId) &&
+  Array.isArray(value.thread) &&
+  value.thread.length > 0 &&
+  value.thread.every(isString) &&
+  isPotatoPlayer(value.host) &&
+  ['signup', 'playing', 'finished'].some(status => status === value.status) &&
+  isBoard(value.board) &&
+  Array.isArray(value.players) &&
+  value.players.every(isPotatoPlayer) &&
+  Array.isArray(value.eliminated) &&
+  value.eliminated.every(isString) &&
+  (value.turn === null || isString(value.turn)) &&
+  (value.deadline === null || isNumber(value.deadline)) &&
+  (value.lastMove === null || isPotatoMove(value.lastMove)) &&
+  (value.winner === null || isString(value.winner)) &&
+  isNumber(value.createdAt);
+
+// The board is packed as in a player's game
+export const parsePotatoGame = (json: string): PotatoGame => {
+  const stored = JSON.parse(json);
+  if (!isObject(stored) || !isPackedBoard(stored.board)) throw new SchemaError('hot potato game');
+
+  const game = { ...stored, board: decodeBoard(stored.board) };
+  if (!isPotatoGame(game)) throw new SchemaError('hot potato game');
+  return game;
+};
+
+export const serializePotatoGame = (game: PotatoGame) =>
+  JSON.stringify({ ...game, board: encodeBoard(game.board) });
+
+const isVoteMove = (value: Stored) => isString(value.action) && isVoteAction(value.action) && isNumber(value.index);
+
+const isBallot = (value: unknown): value is Ballot => isObject(value) && isVoteMove(value) && isNumber(value.at);
+
+const isVoteTally = (value: unknown): value is VoteTally =>
+  isObject(value) &&
+  isVoteMove(value) &&
+  isNumber(value.votes) &&
+  Array.isArray(value.voters) &&
+  value.voters.every(isString) &&
+  isNumber(value.firstAt);
+
+const isCommunityGame = (value: unknown): value is CommunityGame =>
+  isObject(value) &&
+  isString(value.postId) &&
+  isBoard(value.board) &&
+  (value.commentId === null || isString(value.commentId)) &&
+  isNumber(value.roundMinutes) &&
+  isNumber(value.round) &&
+  (value.roundEndsAt === null || isNumber(value.roundEndsAt)) &&
+  isObject(value.ballots) &&
+  Object.values(value.ballots).every(isBallot) &&
+  isNames(value.voters) &&
+  isCounts(value.participation) &&
+  (value.lastRound === null || isVoteTally(value.lastRound)) &&
+  isNumber(value.startedAt) &&
+  (value.finishedAt === null || isNumber(value.finishedAt));
+
+// The board is packed as in a player's game
+export const parseCommunityGame = (json: string): CommunityGame => {
+  const stored = JSON.parse(json);
+  if (!isObject(stored) || !isPackedBoard(stored.board)) throw new SchemaError('community game');
+
+  const game = { ...stored, board: decodeBoard(stored.board) };
+  if (!isCommunityGame(game)) throw new SchemaError('community game');
+  return game;
+};
+
+export const serializeCommunityGame = (game: CommunityGame) =>
+  JSON.stringify({ ...game, board: encodeBoard(game.board) });
+
+const isTournamentRun = (value: unknown): value is TournamentRun =>
+  isObject(value) &&
+  isNumber(value.startedAt) &&
+  isNumber(value.revealed) &&
+  ['playing', 'won', 'lost'].some(outcome => outcome === value.outcome) &&
+  (value.finishedAt === null || isNumber(value.finishedAt));
+
+const isTournamentMatch = (value: unknown): value is TournamentMatch =>
+  isObject(value) &&
+  Array.isArray(value.players) &&
+  value.players.length > 0 &&
+  value.players.every(isString) &&
+  (value.winner === null || isString(value.winner));
+
+const isTournamentRound = (value: unknown): value is TournamentRound =>
+  isObject(value) &&
+  isNumber(value.number) &&
+  isRaceSettings(value.settings) &&
+  isNumber(value.startedAt) &&
+  isNumber(value.endsAt) &&
+  Array.isArray(value.matches) &&
+  value.matches.every(isTournamentMatch) &&
+  isObject(value.runs) &&
+  Object.values(value.runs).every(isTournamentRun);
+
+const isTournament = (value: unknown): value is Tournament =>
+  isObject(value) &&
+  isString(value.id) &&
+  isString(value.postId) &&
+  isString(value.name) &&
+  isRaceSettings(value.settings) &&
+  isNumber(value.roundMinutes) &&
+  ['registration', 'playing', 'finished'].some(status => status === value.status) &&
+  Array.isArray(value.entrants) &&
+  value.entrants.every(isRaceEntrant) &&
+  Array.isArray(value.rounds) &&
+  value.rounds.every(isTournamentRound) &&
+  (value.deadline === null || isNumber(value.deadline)) &&
+  (value.champion === null || isString(value.champion)) &&
+  isNumber(value.createdAt);
+
+export const parseTournament = (json: string): Tournament => {
+  const tournament = JSON.parse(json);
+  if (!isTournament(tournament)) throw new SchemaError('tournament');
+  return tournament;
+};
+
+const isPostTally = (value: unknown): value is PostTally =>
+  isObject(value) &&
+  isString(value.userId) &&
+  isString(value.username) &&
+  isNumber(value.played) &&
+  isNumber(value.won) &&
+  isTimes(value.scores, isVariant);
+
+const isGameEvent = (value: unknown): value is GameEvent => {
+  if (!isObject(value) || !isNumber(value.at) || !isString(value.postId)) return false;
+  if (value.type === 'imported') {
+    return (
+      Array.isArray(value.players) &&
+      value.players.every(isPostTally) &&
+      isObject(value.bestScore) &&
+      Object.values(value.bestScore).every(isBestScore)
+    );
+  }
+  if (!isString(value.gameId)) return false;
+  if (value.type === 'coop') return isCoopCredits(value) && isGameRecord(value.record);
+  if (value.type === 'race' || value.type === 'potato') {
+    return (
+      Array.isArray(value.players) &&
+      value.players.every(value.type === 'race' ? isRaceEntrant : isPotatoPlayer) &&
+      (value.winner === null || isString(value.winner))
+    );
+  }
+  if (value.type === 'tournament') {
+    return isNumber(value.round) && Array.isArray(value.matches) && value.matches.every(isTournamentMatch);
+  }
+  if (!isString(value.userId)) return false;
+  if (value.type === 'started') return true;
+  if (value.type === 'daily') return isString(value.date) && isGameRecord(value.record);
+  return (
+    ['won', 'lost', 'abandoned'].some(type => type === value.type) &&
+    (value.username === null || isString(value.username)) &&
+    isNumber(value.season) &&
+    isNumber(value.points) &&
+    isGameRecord(value.record)
+  );
+};
+
+export const parseGameEvent = (json: string): GameEvent => {
+  const event = JSON.parse(json);
+  if (!isGameEvent(event)) throw new SchemaError('game event');
+  return event;
+};
@@ -0,0 +1,27 @@
+import { CELL_TYPES, createBoard, placeMines, revealCell } from './engine.js';
+import { findDeductions, isNoGuess } from './solver.js';
+
+describe('solver', () => {
+  it('clears every no-guess board it generates from the first click', () => {
+    for (const seed of ['ng-1', 'ng-2', 'ng-3']) {
+      const { board } = revealCell(createBoard('MEDIUM', { seed, noGuess: true }), 55);
+      expect(board.noGuess).toBe(true);
+      expect(isNoGuess(board, 55)).toBe(true);
+    }
+  });
+
+  it('never starts from a mine', () => {
+    const board = placeMines(createBoard('HARD', { seed: 'start' }), 0);
+    const mine = board.cells.findIndex(cell => cell.type === CELL_TYPES.BOMB);
+    expect(isNoGuess(board, mine)).toBe(false);
+  });
+
+  it('only deduces what is true of the board', () => {
+    const { board } = revealCell(createBoard('MEDIUM', { seed: 'deduce', opening: true }), 55);
+    const deductions = findDeductions(board, new Set());
+    expect(deductions.length).toBeGreaterThan(0);
+    for (const { index, mine } of deductions) {
+      expect(board.cells[index].type === CELL_TYPES.BOMB).toBe(mine);
+    }
+  });
+});
@@ -0,0 +1,163 @@
+// Constraint-propagation solver: finds moves that follow from the visible numbers alone
+import { CELL_TYPES, VARIANTS, neighbours } from './grid.js';
+import type { Board } from './engine.js';
+
+// A cell whose state is forced by what's visible.
+// 'single': one number settles it; 'subset': one number's cells sit inside another's;
+// 'count': the remaining mine total settles every unknown cell.
+export type Deduction = {
+  index: number;
+  mine: boolean;
+  rule: 'single' | 'subset' | 'count';
+  // The number (and for 'subset', the second number) the deduction comes from
+  source?: number;
+  other?: number;
+};
+
+type Constraint = {
+  source: number;
+  // Unknown cells around the number and the fewest and most of them that can be mines
+  // (the same for honest numbers; liar numbers allow one more or one fewer than shown)
+  cells: number[];
+  min: number;
+  max: number;
+};
+
+const buildConstraints = (board: Board, revealed: boolean[], mines: ReadonlySet<number>) => {
+  const constraints: Constraint[] = [];
+
+  revealed.forEach((isRevealed, index) => {
+    const cell = board.cells[index];
+    if (!isRevealed || cell.type === CELL_TYPES.BOMB) return;
+
+    const around = neighbours(board, index);
+    const cells = around.filter(n => !revealed[n] && !mines.has(n));
+    if (cells.length === 0) return;
+
+    const knownMines = around.filter(n => mines.has(n)).length;
+    const counts = VARIANTS[board.variant].lies ? [cell.value - 1, cell.value + 1] : [cell.value];
+    // Only keep the counts the unknown cells can still make up
+    const possible = counts.map(n => n - knownMines).filter(n => n >= 0 && n <= cells.length);
+    if (possible.length === 0) return;
+
+    constraints.push({ source: index, cells, min: Math.min(...possible), max: Math.max(...possible) });
+  });
+
+  return constraints;
+};
+
+// Collect deductions without repeating a cell
+const collect = (found: Map<number, Deduction>, cells: number[], deduction: Omit<Deduction, 'index'>) => {
+  cells.forEach(index => {
+    if (!found.has(index)) found.set(index, { index, ...deduction });
+  });
+};
+
+const singleRule = (constraints: Constraint[]) => {
+  const found = new Map<number, Deduction>();
+  constraints.forEach(({ source, cells, min, max }) => {
+    if (max === 0) collect(found, cells, { mine: false, rule: 'single', source });
+    else if (min === cells.length) collect(found, cells, { mine: true, rule: 'single', source });
+  });
+  return [...found.values()];
+};
+
+const subsetRule = (constraints: Constraint[]) => {
+  const found = new Map<number, Deduction>();
+
+  // Only numbers that share an unknown cell can be compared
+  const byCell = new Map<number, Constraint[]>();
+  constraints.forEach(constraint => {
+    constraint.cells.forEach(index => byCell.set(index, [...(byCell.get(index) || []), constraint]));
+  });
+
+  constraints.forEach(inner => {
+    const candidates = new Set(byCell.get(inner.cells[0]) || []);
+    candidates.forEach(outer => {
+      if (outer === inner || outer.cells.length <= inner.cells.length) return;
+      if (!inner.cells.every(index => outer.cells.includes(index))) return;
+
+      const rest = outer.cells.filter(index => !inner.cells.includes(index));
+      const deduction = { rule: 'subset' as const, source: outer.source, other: inner.source };
+      if (outer.max - inner.min <= 0) collect(found, rest, { ...deduction, mine: false });
+      else if (outer.min - inner.max >= rest.length) collect(found, rest, { ...deduction, mine: true });
+    });
+  });
+
+  return [...found.values()];
+};
+
+const countRule = (board: Board, revealed: boolean[], mines: ReadonlySet<number>) => {
+  const unknown = board.cells.map((_, index) => index).filter(index => !revealed[index] && !mines.has(index));
+  const remaining = board.bombCount - mines.size;
+  if (unknown.length === 0) return [];
+
+  const found = new Map<number, Deduction>();
+  if (remaining === 0) collect(found, unknown, { mine: false, rule: 'count' });
+  else if (remaining === unknown.length) collect(found, unknown, { mine: true, rule: 'count' });
+  return [...found.values()];
+};
+
+// Every deduction from the simplest rule that yields one, given which cells are
+// revealed and which are known mines
+const deduce = (board: Board, revealed: boolean[], mines: ReadonlySet<number>) => {
+  const constraints = buildConstraints(board, revealed, mines);
+
+  const single = singleRule(constraints);
+  if (single.length > 0) return single;
+
+  const subset = subsetRule(constraints);
+  if (subset.length > 0) return subset;
+
+  return countRule(board, revealed, mines);
+};
+
+// Deductions from the board as the player sees it, treating knownMines as settled
+export const findDeductions = (board: Board, knownMines: ReadonlySet<number>) =>
+  deduce(board, board.cells.map(cell => cell.revealed), knownMines);
+
+// Play a board with mines placed from its first click using deductions only,
+// and report whether every safe cell can be reached without guessing
+export const isNoGuess = (board: Board, startIndex: number) => {
+  if (board.cells[startIndex].type === CELL_TYPES.BOMB) return false;
+
+  const revealed = board.cells.map(() => false);
+  const mines = new Set<number>();
+  const safeCells = board.cells.length - board.bombCount;
+  let revealedCount = 0;
+
+  const reveal = (index: number) => {
+    if (revealed[index]) return;
+    revealed[index] = true;
+    revealedCount++;
+  };
+
+  reveal(startIndex);
+  while (revealedCount < safeCells) {
+    const deductions = deduce(board, revealed, mines);
+    if (deductions.length === 0) return false;
+
+    deductions.forEach(({ index, mine }) => (mine ? mines.add(index) : reveal(index)));
+  }
+  return true;
+};
+
+// Rough chance of each unknown cell being a mine, for when nothing can be deduced:
+// the tightest number touching the cell, or the overall mine density away from the numbers
+export const estimateMineChances = (board: Board, knownMines: ReadonlySet<number>) => {
+  const revealed = board.cells.map(cell => cell.revealed);
+  const unknown = board.cells.map((_, index) => index).filter(index => !revealed[index] && !knownMines.has(index));
+  const density = unknown.length > 0 ? Math.max(0, board.bombCount - knownMines.size) / unknown.length : 0;
+
+  const chances = new Map<number, number>(unknown.map(index => [index, density]));
+  const touched = new Set<number>();
+  buildConstraints(board, revealed, knownMines).forEach(({ cells, min, max }) => {
+    const chance = Math.min(1, Math.max(0, (min + max) / 2 / cells.length));
+    cells.forEach(index => {
+      chances.set(index, touched.has(index) ? Math.max(chances.get(index) ?? 0, chance) : chance);
+      touched.add(index);
+    });
+  });
+
+  return chances;
+};
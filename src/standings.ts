@@ -0,0 +1,61 @@
+// Subreddit-wide standings: points, wins and best times gathered from every Crossmines post
+import { Variant } from './engine.js';
+
+export const STANDINGS_SCOPES = {
+  post: { name: 'This Post' },
+  all: { name: 'All-Time' },
+  week: { name: 'This Week' },
+  season: { name: 'Season' },
+} as const;
+
+export type StandingsScope = keyof typeof STANDINGS_SCOPES;
+
+export const isStandingsScope = (value: string): value is StandingsScope =>
+  Object.prototype.hasOwnProperty.call(STANDINGS_SCOPES, value);
+
+// How many players a subreddit leaderboard lists
+export const STANDINGS_SIZE = 20;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A player's place in the subreddit standings
+export type Standing = {
+  userId: string;
+  username: string;
+  score: number;
+  wins: number;
+};
+
+// The Monday (UTC) starting the week, e.g. "2024-04-29"; weekly standings reset then
+export const weekStart = (now = Date.now()) => {
+  const daysSinceMonday = (new Date(now).getUTCDay() + 6) % 7;
+  return new Date(now - daysSinceMonday * DAY_MS).toISOString().slice(0, 10);
+};
+
+// The stored period a subreddit scope reads from: all-time, or the current week
+export const standingsPeriod = (scope: 'all' | 'week', now = Date.now()) =>
+  scope === 'all' ? 'all' : `week_${weekStart(now)}`;
+
+export const seasonPeriod = (number: number) => `season_${number}`;
+
+// Seasons run for a length of days set by the subreddit's moderators, after which a
+// scheduled job archives the top of the standings and a new season starts from zero
+export const DEFAULT_SEASON_DAYS = 30;
+
+// How many players per variant a closed season keeps
+export const SEASON_ARCHIVE_SIZE = 10;
+
+export type Season = {
+  number: number;
+  startedAt: number;
+};
+
+// The final standings of a closed season, per rule variant
+export type SeasonArchive = Season & {
+  endedAt: number;
+  standings: Partial<Record<Variant, Standing[]>>;
+};
+
+export const seasonEndsAt = (season: Season, days: number) => season.startedAt + days * DAY_MS;
+
+export const isSeasonOver = (season: Season, days: number, now = Date.now()) => now >= seasonEndsAt(season, days);
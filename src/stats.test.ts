@@ -0,0 +1,66 @@
+import { CELL_TYPES, createBoard, revealCell, toggleFlag } from './engine.js';
+import { GameRecord, addGameRecord, addMatch, averageWinTime, emptyStats, flagAccuracy, gameRecord, winRate } from './stats.js';
+
+const record = (result: GameRecord['result'], time: number, width = 10): GameRecord => ({
+  finishedAt: 0,
+  result,
+  difficulty: 'EASY',
+  variant: 'classic',
+  topology: 'square',
+  width,
+  height: 10,
+  time,
+  moves: 10,
+  revealed: 50,
+  flags: 4,
+  correctFlags: 3,
+});
+
+describe('player stats', () => {
+  it('add up games, streaks and best times', () => {
+    const games = [record('won', 50), record('won', 40, 12), record('lost', 10), record('won', 45)];
+    const stats = games.reduce(addGameRecord, emptyStats());
+    expect(stats).toMatchObject({
+      games: 4,
+      wins: 3,
+      winningTime: 135,
+      currentStreak: 1,
+      longestStreak: 2,
+      bestByDifficulty: { EASY: 40 },
+      bestBySize: { '10x10': 45, '12x10': 40 },
+    });
+    expect(winRate(stats)).toBe(75);
+    expect(averageWinTime(stats)).toBe(45);
+    expect(flagAccuracy(stats)).toBe(75);
+  });
+
+  it('end a streak with an abandoned game', () => {
+    const stats = [record('won', 50), record('abandoned', 5)].reduce(addGameRecord, emptyStats());
+    expect(stats).toMatchObject({ games: 2, wins: 1, currentStreak: 0, longestStreak: 1 });
+  });
+
+  it('count matches apart from games', () => {
+    const stats = addMatch(addMatch(emptyStats(), true), false);
+    expect(stats).toMatchObject({ games: 0, matches: 2, matchesWon: 1 });
+  });
+
+  it('have no rates before there is anything to work them out from', () => {
+    expect([winRate(emptyStats()), averageWinTime(emptyStats()), flagAccuracy(emptyStats())]).toEqual([null, null, null]);
+  });
+
+  it('record how a finished board was played', () => {
+    const { board } = revealCell(createBoard('EASY', { seed: 'record' }), 0);
+    const mine = board.cells.findIndex(cell => cell.type === CELL_TYPES.BOMB);
+    const safe = board.cells.findIndex(cell => !cell.revealed && cell.type !== CELL_TYPES.BOMB);
+    const flagged = toggleFlag(toggleFlag(board, mine).board, safe).board;
+    expect(gameRecord(flagged, 7, 30, 'lost', 1000)).toMatchObject({
+      finishedAt: 1000,
+      result: 'lost',
+      difficulty: 'EASY',
+      time: 30,
+      moves: 7,
+      flags: 2,
+      correctFlags: 1,
+    });
+  });
+});
@@ -0,0 +1,117 @@
+// Personal statistics built up from each player's finished games, across every post in the subreddit
+import { Board, CELL_TYPES, Difficulty, Topology, Variant, countFlags, countRevealed } from './engine.js';
+
+// Abandoned games count as losses, but are told apart in the history
+export type GameResult = 'won' | 'lost' | 'abandoned';
+
+// One finished game as kept in a player's history
+export type GameRecord = {
+  finishedAt: number;
+  result: GameResult;
+  difficulty: Difficulty;
+  variant: Variant;
+  topology: Topology;
+  width: number;
+  height: number;
+  // Seconds on the clock when the game ended
+  time: number;
+  moves: number;
+  revealed: number;
+  flags: number;
+  // Flags that sat on a mine
+  correctFlags: number;
+};
+
+export type PlayerStats = {
+  games: number;
+  wins: number;
+  // Seconds spent on won games, for the average winning time
+  winningTime: number;
+  cellsRevealed: number;
+  flagsPlaced: number;
+  correctFlags: number;
+  // Consecutive wins; a loss or an abandoned game ends the streak
+  currentStreak: number;
+  longestStreak: number;
+  // Fastest win in seconds per difficulty, and per board size such as "10x10"
+  bestByDifficulty: Partial<Record<Difficulty, number>>;
+  bestBySize: Record<string, number>;
+  // Versus races, hot potato games and tournament matches, which are counted apart from games
+  matches: number;
+  matchesWon: number;
+};
+
+// How many recent games a player's history keeps
+export const HISTORY_SIZE = 20;
+
+export const emptyStats = (): PlayerStats => ({
+  games: 0,
+  wins: 0,
+  winningTime: 0,
+  cellsRevealed: 0,
+  flagsPlaced: 0,
+  correctFlags: 0,
+  currentStreak: 0,
+  longestStreak: 0,
+  bestByDifficulty: {},
+  bestBySize: {},
+  matches: 0,
+  matchesWon: 0,
+});
+
+export const sizeKey = (width: number, height: number) => `${width}x${height}`;
+
+export const gameRecord = (board: Board, moves: number, time: number, result: GameResult, now = Date.now()): GameRecord => ({
+  finishedAt: now,
+  result,
+  difficulty: board.difficulty,
+  variant: board.variant,
+  topology: board.topology,
+  width: board.width,
+  height: board.height,
+  time,
+  moves,
+  revealed: countRevealed(board),
+  flags: countFlags(board),
+  // Before the first reveal there are no mines for a flag to be right about
+  correctFlags: board.cells.filter(cell => cell.flagged && cell.type === CELL_TYPES.BOMB).length,
+});
+
+const faster = (time: number, best: number | undefined) => (best === undefined ? time : Math.min(time, best));
+
+export const addGameRecord = (stats: PlayerStats, record: GameRecord): PlayerStats => {
+  const won = record.result === 'won';
+  const currentStreak = won ? stats.currentStreak + 1 : 0;
+  const size = sizeKey(record.width, record.height);
+
+  return {
+    games: stats.games + 1,
+    wins: stats.wins + (won ? 1 : 0),
+    winningTime: stats.winningTime + (won ? record.time : 0),
+    cellsRevealed: stats.cellsRevealed + record.revealed,
+    flagsPlaced: stats.flagsPlaced + record.flags,
+    correctFlags: stats.correctFlags + record.correctFlags,
+    currentStreak,
+    longestStreak: Math.max(stats.longestStreak, currentStreak),
+    bestByDifficulty: won
+      ? { ...stats.bestByDifficulty, [record.difficulty]: faster(record.time, stats.bestByDifficulty[record.difficulty]) }
+      : stats.bestByDifficulty,
+    bestBySize: won ? { ...stats.bestBySize, [size]: faster(record.time, stats.bestBySize[size]) } : stats.bestBySize,
+    matches: stats.matches,
+    matchesWon: stats.matchesWon,
+  };
+};
+
+export const addMatch = (stats: PlayerStats, won: boolean): PlayerStats => ({
+  ...stats,
+  matches: stats.matches + 1,
+  matchesWon: stats.matchesWon + (won ? 1 : 0),
+});
+
+// Percentages and averages, null until there's something to work them out from
+export const winRate = (stats: PlayerStats) => (stats.games > 0 ? Math.round((stats.wins / stats.games) * 100) : null);
+
+export const averageWinTime = (stats: PlayerStats) => (stats.wins > 0 ? Math.round(stats.winningTime / stats.wins) : null);
+
+export const flagAccuracy = (stats: PlayerStats) =>
+  stats.flagsPlaced > 0 ? Math.round((stats.correctFlags / stats.flagsPlaced) * 100) : null;
@@ -0,0 +1,1491 @@
+// Redis storage for a post's shared data: player profiles as hashes, scores as sorted sets
+// and best times as a hash, so concurrent writers update fields instead of whole blobs.
+// Each player's settings and game in the post have keys of their own, and the
+// subreddit-wide standings and personal stats are kept alongside in the same shapes.
+// Games are counted by appending their outcome to the game ledger (see ledger.ts), which
+// updates all of those in the same transaction and can rebuild them.
+import type { RedisClient, TxClientLike } from '@devvit/public-api';
+import { elapsedSeconds, recordMoveTime, startClock } from './clock.js';
+import { CoopGame, CoopTally, addCoopGame, applyCoopMove, emptyCoopTally } from './coop.js';
+import { DailyAttempt, DailyResult, DailyStreak, dailyResult, emptyDailyStreak, updateDailyStreak } from './daily.js';
+import { Board, CellAction, MoveResult, VARIANTS, Variant, actOnCell, calculateScore } from './engine.js';
+import {
+  CoopOutcomeEvent,
+  DailyOutcomeEvent,
+  GameEvent,
+  GameOutcomeEvent,
+  GameStartedEvent,
+  MatchEvent,
+  PostImportedEvent,
+  PotatoOutcomeEvent,
+  RaceOutcomeEvent,
+  TournamentRoundEvent,
+  coopGameId,
+  dailyGameId,
+  gameId,
+  isBetterScore,
+  matchResults,
+  outcomeBestScore,
+  potatoGameId,
+  replayLedger,
+  tournamentRoundId,
+} from './ledger.js';
+import { PotatoGame, PotatoPlayer, addToPotatoThread, joinPotato, runOutClock, startPotato, takeTurn } from './potato.js';
+import {
+  Race,
+  RaceEntrant,
+  createRaceBoard,
+  isEntrant,
+  raceDeadline,
+  raceEntrants,
+  recordRaceProgress,
+  runOutRace,
+  startRace,
+} from './race.js';
+import { CommunityGame, VoteMove, Voter, castVote, closeRound, communityOutcome } from './vote.js';
+import {
+  Tournament,
+  canStartRun,
+  currentRound,
+  recordRun,
+  register,
+  runOutTournamentClock,
+  startRun,
+} from './tournament.js';
+import {
+  BestScore,
+  COMMENT_SESSION_FIELDS_V4,
+  GameSession,
+  Player,
+  PostSession,
+  PostState,
+  SCHEMA_VERSION,
+  bestScoreKey,
+  commentGameFromHashV4,
+  gameFromCommentSessionV4,
+  isUnfinished,
+  newPlayer,
+  parseBestScore,
+  parseCommunityGame,
+  parseCoopGame,
+  parseCoopTally,
+  parseDailyAttempt,
+  parseDailyResult,
+  parseDailyStreak,
+  parseGameEvent,
+  parseGameRecord,
+  parseGameSession,
+  parsePostRecord,
+  parsePostSession,
+  parsePostSessionV4,
+  parsePlayerStats,
+  parsePostStateV1,
+  parsePotatoGame,
+  parseRace,
+  parseSeason,
+  parseSeasonArchive,
+  parseTournament,
+  playerFromHash,
+  playerToHash,
+  postSessionVersion,
+  serializeCommunityGame,
+  serializeCoopGame,
+  serializeDailyAttempt,
+  serializeGameSession,
+  serializePotatoGame,
+  splitPostSessionV4,
+} from './schema.js';
+import {
+  SEASON_ARCHIVE_SIZE,
+  STANDINGS_SIZE,
+  Season,
+  SeasonArchive,
+  Standing,
+  isSeasonOver,
+  seasonPeriod,
+  standingsPeriod,
+} from './standings.js';
+import { GameRecord, GameResult, HISTORY_SIZE, PlayerStats, addGameRecord, addMatch, emptyStats, gameRecord } from './stats.js';
+
+// How often a transaction is retried when a watched key changes under it
+const TX_ATTEMPTS = 5;
+
+const postKeys = (postId: string) => ({
+  // The post record, which only carries the schema version now
+  record: `bombsweeper_${postId}`,
+  // Player ids by join time
+  players: `bombsweeper_${postId}_players`,
+  player: (userId: string) => `bombsweeper_${postId}_player_${userId}`,
+  // Points per player, one sorted set per rule variant
+  scores: (variant: Variant) => `bombsweeper_${postId}_scores_${variant}`,
+  // Best time per best-score key
+  best: `bombsweeper_${postId}_best`,
+  // A viewer's settings in the post
+  session: (userId: string) => `bombsweeper_${postId}_${userId}`,
+  // A player's game, shared by the custom post and comment commands
+  game: (userId: string) => `bombsweeper_${postId}_game_${userId}`,
+  // The co-op board everyone who joined plays together, and the post's co-op record
+  coop: `bombsweeper_${postId}_coop`,
+  coopTally: `bombsweeper_${postId}_coop_tally`,
+  // Versus races, each player's latest race, and each player's board in a race
+  race: (raceId: string) => `bombsweeper_${postId}_race_${raceId}`,
+  raceOf: (userId: string) => `bombsweeper_${postId}_race_of_${userId}`,
+  raceRun: (raceId: string, userId: string) => `bombsweeper_${postId}_race_${raceId}_run_${userId}`,
+  // The post's hot potato game, played in a comment thread
+  potato: `bombsweeper_${postId}_potato`,
+  // The board the subreddit plays by voting in the comments
+  community: `bombsweeper_${postId}_community`,
+  // The post's latest tournament, and each player's board in each of its rounds
+  tournament: `bombsweeper_${postId}_tournament`,
+  tournamentRun: (tournamentId: string, round: number, userId: string) =>
+    `bombsweeper_${postId}_tournament_${tournamentId}_round_${round}_run_${userId}`,
+});
+
+type PostKeys = ReturnType<typeof postKeys>;
+
+// Standings for a period of the whole subreddit: "all", or "week_<monday>" for a week
+const standingsKeys = (period: string) => ({
+  scores: (variant: Variant) => `bombsweeper_standings_${period}_scores_${variant}`,
+  wins: (variant: Variant) => `bombsweeper_standings_${period}_wins_${variant}`,
+  best: `bombsweeper_standings_${period}_best`,
+});
+
+// Latest username per user id, for naming players in the subreddit standings
+const USERNAMES_KEY = 'bombsweeper_usernames';
+
+// The season in progress, and the final standings of each closed one
+const SEASON_KEY = 'bombsweeper_season';
+const seasonArchiveKey = (number: number) => `bombsweeper_season_${number}_archive`;
+
+// The most recently created Crossmines post, where season results are announced
+const LATEST_POST_KEY = 'bombsweeper_latest_post';
+
+// A player's statistics over the whole subreddit, and their recent games by finish time
+const statsKeys = (userId: string) => ({
+  stats: `bombsweeper_stats_${userId}`,
+  history: `bombsweeper_history_${userId}`,
+});
+
+// Each player's Daily Challenge attempt, the day's finished attempts by time, and each player's
+// daily streak. Results used to be a JSON list under bombsweeper_daily_<date>, so the set has its own key.
+const dailyKeys = {
+  attempt: (date: string, userId: string) => `bombsweeper_daily_${date}_${userId}`,
+  results: (date: string) => `bombsweeper_daily_${date}_results`,
+  streak: (userId: string) => `bombsweeper_daily_streak_${userId}`,
+};
+
+// Every game event, by the time it happened
+const LEDGER_KEY = 'bombsweeper_ledger';
+// A game's outcome event, so a game that's reported again isn't counted again
+const outcomeKey = (gameId: string) => `bombsweeper_outcome_${gameId}`;
+
+// Weekly standings are kept for a few weeks after they close, then left to expire
+const WEEK_TTL_SECONDS = 5 * 7 * 24 * 60 * 60;
+
+const currentPeriods = (season: Season, now: number) => [
+  standingsPeriod('all', now),
+  standingsPeriod('week', now),
+  seasonPeriod(season.number),
+];
+
+const isWeek = (period: string) => period.startsWith('week_');
+
+const expiresWithWeek = async (tx: TxClientLike, period: string, key: string) => {
+  if (isWeek(period)) await tx.expire(key, WEEK_TTL_SECONDS);
+};
+
+const VARIANT_KEYS = Object.keys(VARIANTS) as Variant[];
+
+// exec fails when a watched key changed since watch; treat that as "try again"
+const tryExec = async (tx: TxClientLike) => {
+  try {
+    return (await tx.exec()) !== null;
+  } catch (error) {
+    console.error('Redis transaction failed:', error);
+    return false;
+  }
+};
+
+// Version 1 (or older) kept everything in the post record's JSON blob: move it into hashes and sorted sets
+const splitPostBlob = async (tx: TxClientLike, keys: PostKeys, stored: string) => {
+  const legacy = parsePostStateV1(stored);
+  const best = Object.entries(legacy.bestScore).filter(([, score]) => score.time !== null);
+
+  for (const [index, player] of legacy.players.entries()) {
+    await tx.hSet(keys.player(player.id), playerToHash(player));
+    await tx.zAdd(keys.players, { member: player.id, score: index });
+    const game = gameFromCommentSessionV4(player);
+    if (game) await tx.set(keys.game(player.id), serializeGameSession(game));
+    await tx.zAdd(keys.scores('classic'), { member: player.id, score: player.score });
+    for (const [variant, score] of Object.entries(player.variantScores)) {
+      await tx.zAdd(keys.scores(variant as Variant), { member: player.id, score: score ?? 0 });
+    }
+  }
+  if (best.length > 0) {
+    await tx.hSet(keys.best, Object.fromEntries(best.map(([key, score]) => [key, JSON.stringify(score)])));
+  }
+};
+
+// Versions up to 4 kept games in sessions and player hashes, and before version 2 everything
+// was in the post record's blob. Returns the version reached, or null when there's no record.
+const migratePostToV5 = async (redis: RedisClient, postId: string): Promise<number | null> => {
+  const keys = postKeys(postId);
+
+  for (let attempt = 0; attempt < TX_ATTEMPTS; attempt++) {
+    // Comment games move out of the player hashes, so those are watched along with the record
+    const roster = await redis.zRange(keys.players, 0, -1, { by: 'rank' });
+    const playerKeys = roster.map(({ member }) => keys.player(member));
+    const tx = await redis.watch(keys.record, ...playerKeys);
+    const stored = await redis.get(keys.record);
+    const version = stored ? parsePostRecord(stored).schemaVersion : SCHEMA_VERSION;
+    if (!stored || version >= 5) {
+      await tx.unwatch();
+      return stored ? version : null;
+    }
+
+    // Versions 2 to 4 kept each player's comment game in their hash
+    const hashes = version < 2 ? [] : await Promise.all(playerKeys.map(key => redis.hGetAll(key)));
+
+    await tx.multi();
+    if (version < 2) {
+      await splitPostBlob(tx, keys, stored);
+    }
+    for (const [index, hash] of hashes.entries()) {
+      const game = commentGameFromHashV4(hash ?? {});
+      if (game) await tx.set(keys.game(roster[index].member), serializeGameSession(game));
+      await tx.hDel(playerKeys[index], COMMENT_SESSION_FIELDS_V4);
+    }
+    await tx.set(keys.record, JSON.stringify({ schemaVersion: 5 }));
+    if (await tryExec(tx)) return 5;
+  }
+
+  throw new Error(`Couldn't migrate post ${postId}: it kept changing`);
+};
+
+// Version 6 counts games through the ledger: the post's counters and best times so far
+// go into it as one imported event, so rebuilding from the ledger keeps them
+const importPostToLedger = async (redis: RedisClient, postId: string, now = Date.now()) => {
+  const keys = postKeys(postId);
+
+  for (let attempt = 0; attempt < TX_ATTEMPTS; attempt++) {
+    const roster = await redis.zRange(keys.players, 0, -1, { by: 'rank' });
+    const tx = await redis.watch(keys.record, keys.best, ...roster.map(({ member }) => keys.player(member)));
+    const stored = await redis.get(keys.record);
+    if (!stored || parsePostRecord(stored).schemaVersion >= SCHEMA_VERSION) {
+      await tx.unwatch();
+      return;
+    }
+
+    const [players, best] = await Promise.all([loadPlayers(redis, postId), loadBestScores(redis, postId)]);
+    const event: PostImportedEvent = {
+      type: 'imported',
+      at: now,
+      postId,
+      players: players.map(player => ({
+        userId: player.id,
+        username: player.username,
+        played: player.totalGamesPlayed,
+        won: player.totalGamesWon,
+        scores: { classic: player.score, ...player.variantScores },
+      })),
+      bestScore: Object.fromEntries(Object.entries(best).filter(([, score]) => score.time !== null)),
+    };
+
+    await tx.multi();
+    await tx.zAdd(LEDGER_KEY, { member: JSON.stringify(event), score: now });
+    await tx.set(keys.record, JSON.stringify({ schemaVersion: SCHEMA_VERSION }));
+    if (await tryExec(tx)) return;
+  }
+
+  throw new Error(`Couldn't migrate post ${postId}: it kept changing`);
+};
+
+// Bring a post's stored data up to the current schema version.
+// Returns false when the post has no Crossmines record at all.
+export const migratePost = async (redis: RedisClient, postId: string): Promise<boolean> => {
+  const version = await migratePostToV5(redis, postId);
+  if (version === null) return false;
+
+  if (version < SCHEMA_VERSION) await importPostToLedger(redis, postId);
+  return true;
+};
+
+// Create the post record if it's missing and bring an existing one up to date
+export const preparePost = async (redis: RedisClient, postId: string) => {
+  if (await migratePost(redis, postId)) return;
+  await redis.set(postKeys(postId).record, JSON.stringify({ schemaVersion: SCHEMA_VERSION }), { nx: true });
+};
+
+export const loadPlayer = async (redis: RedisClient, postId: string, userId: string): Promise<Player | null> => {
+  const keys = postKeys(postId);
+  const hash = await redis.hGetAll(keys.player(userId));
+  if (!hash || Object.keys(hash).length === 0) return null;
+
+  const scores = await Promise.all(VARIANT_KEYS.map(variant => redis.zScore(keys.scores(variant), userId)));
+  const variantScores = Object.fromEntries(
+    VARIANT_KEYS.map((variant, index) => [variant, scores[index]]).filter(([variant, score]) => variant !== 'classic' && score !== undefined)
+  );
+  return playerFromHash(hash, { score: scores[VARIANT_KEYS.indexOf('classic')] ?? 0, variantScores });
+};
+
+export const loadPlayers = async (redis: RedisClient, postId: string): Promise<Player[]> => {
+  const roster = await redis.zRange(postKeys(postId).players, 0, -1, { by: 'rank' });
+  const players = await Promise.all(roster.map(({ member }) => loadPlayer(redis, postId, member)));
+  return players.filter((player): player is Player => player !== null);
+};
+
+const loadBestHash = async (redis: RedisClient, hash: string): Promise<Record<string, BestScore>> => {
+  const stored = await redis.hGetAll(hash);
+  return Object.fromEntries(Object.entries(stored ?? {}).map(([key, json]) => [key, parseBestScore(json)]));
+};
+
+export const loadBestScores = (redis: RedisClient, postId: string) => loadBestHash(redis, postKeys(postId).best);
+
+export const loadPostState = async (redis: RedisClient, postId: string): Promise<PostState> => {
+  const [players, bestScore] = await Promise.all([loadPlayers(redis, postId), loadBestScores(redis, postId)]);
+  return { players, bestScore };
+};
+
+// Join a post; false when the player had already joined
+export const addPlayer = async (redis: RedisClient, postId: string, userId: string, username: string) => {
+  const keys = postKeys(postId);
+  // hSetNX makes the id field a join lock, so two joins at once can't both create the profile
+  if (!(await redis.hSetNX(keys.player(userId), 'id', userId))) return false;
+
+  await redis.hSet(keys.player(userId), playerToHash(newPlayer(userId, username)));
+  await redis.zAdd(keys.players, { member: userId, score: Date.now() });
+  return true;
+};
+
+// A viewer's settings in the post. Sessions from before version 5 also held the viewer's game,
+// which moves to the game key unless a comment game played more recently is already there.
+export const loadPostSession = async (redis: RedisClient, postId: string, userId: string): Promise<PostSession | null> => {
+  const keys = postKeys(postId);
+
+  for (let attempt = 0; attempt < TX_ATTEMPTS; attempt++) {
+    const tx = await redis.watch(keys.session(userId), keys.game(userId));
+    const stored = await redis.get(keys.session(userId));
+    if (!stored || postSessionVersion(stored) >= 5) {
+      await tx.unwatch();
+      return stored ? parsePostSession(stored) : null;
+    }
+
+    const { session, game } = splitPostSessionV4(parsePostSessionV4(stored));
+    const current = await loadGame(redis, postId, userId);
+    const keepCurrent = current && isUnfinished(current) && (!game || current.clock.lastMoveAt > game.clock.lastMoveAt);
+
+    await tx.multi();
+    await tx.set(keys.session(userId), JSON.stringify(session));
+    if (game && !keepCurrent) await tx.set(keys.game(userId), serializeGameSession(game));
+    if (await tryExec(tx)) return session;
+  }
+
+  throw new Error(`Couldn't upgrade the session of ${userId}: it kept changing`);
+};
+
+export const savePostSession = async (redis: RedisClient, postId: string, userId: string, session: PostSession) => {
+  await redis.set(postKeys(postId).session(userId), JSON.stringify(session));
+};
+
+export const loadGame = async (redis: RedisClient, postId: string, userId: string): Promise<GameSession | null> => {
+  const stored = await redis.get(postKeys(postId).game(userId));
+  return stored ? parseGameSession(stored) : null;
+};
+
+export const saveGame = async (redis: RedisClient, postId: string, userId: string, game: GameSession) => {
+  await redis.set(postKeys(postId).game(userId), serializeGameSession(game));
+};
+
+// Save a game the player has just started, in place of any they had, and note its start in the ledger with it
+export const saveNewGame = async (redis: RedisClient, postId: string, userId: string, game: GameSession) => {
+  const event: GameStartedEvent = {
+    type: 'started',
+    gameId: gameId(postId, userId, game.clock.startedAt),
+    at: game.clock.startedAt,
+    postId,
+    userId,
+  };
+  const key = postKeys(postId).game(userId);
+
+  for (let attempt = 0; attempt < TX_ATTEMPTS; attempt++) {
+    const tx = await redis.watch(key);
+    await tx.multi();
+    await tx.set(key, serializeGameSession(game));
+    await tx.zAdd(LEDGER_KEY, { member: JSON.stringify(event), score: event.at });
+    if (await tryExec(tx)) return;
+  }
+
+  throw new Error(`Couldn't start a game for ${userId}: it kept changing`);
+};
+
+// Save a move on a player's game, unless the game stored is no longer that one: another game was
+// started over it, or it was abandoned, from the comments. Returns whether the move was saved.
+export const saveGameMove = async (redis: RedisClient, postId: string, userId: string, game: GameSession): Promise<boolean> => {
+  const key = postKeys(postId).game(userId);
+
+  for (let attempt = 0; attempt < TX_ATTEMPTS; attempt++) {
+    const tx = await redis.watch(key);
+    const current = await loadGame(redis, postId, userId);
+    if (current?.clock.startedAt !== game.clock.startedAt) {
+      await tx.unwatch();
+      return false;
+    }
+
+    await tx.multi();
+    await tx.set(key, serializeGameSession(game));
+    if (await tryExec(tx)) return true;
+  }
+
+  throw new Error(`Couldn't save a move on the game of ${userId}: it kept changing`);
+};
+
+const loadBest = async (redis: RedisClient, hash: string, key: string) => {
+  const stored = await redis.hGet(hash, key);
+  return stored ? parseBestScore(stored) : null;
+};
+
+// A game outcome as recorded, with the player's stats and the post's best score for the board afterwards
+export type RecordedOutcome = {
+  event: GameOutcomeEvent;
+  stats: PlayerStats;
+  best: BestScore | null;
+};
+
+// Write a finished game's outcome to the ledger once, together with everything it counts towards:
+// the player's stats and history, the post's counters and best time, and, for a win by a joined
+// player, their points and the subreddit standings. Returns null when the game's outcome was
+// already recorded, so reporting it again from the post and the comments can't count it twice.
+export const recordOutcome = async (
+  redis: RedisClient,
+  postId: string,
+  userId: string,
+  game: GameSession,
+  result: GameResult,
+  now = Date.now()
+): Promise<RecordedOutcome | null> => {
+  const keys = postKeys(postId);
+  const { stats: statsKey, history } = statsKeys(userId);
+  const id = gameId(postId, userId, game.clock.startedAt);
+  const record = gameRecord(game.board, game.moveCount, elapsedSeconds(game.clock, now), result, now);
+  const bestKey = bestScoreKey(record.difficulty, record.variant);
+  const won = result === 'won';
+
+  for (let attempt = 0; attempt < TX_ATTEMPTS; attempt++) {
+    // The standings best times are watched too, and which ones depends on the season. Watching the
+    // season means a game ending as the season closes counts towards the new one.
+    const season = await loadSeason(redis, now);
+    const periods = currentPeriods(season, now);
+    const tx = await redis.watch(
+      outcomeKey(id),
+      SEASON_KEY,
+      statsKey,
+      keys.best,
+      ...periods.map(period => standingsKeys(period).best)
+    );
+    if (await redis.get(outcomeKey(id))) {
+      await tx.unwatch();
+      return null;
+    }
+    if ((await loadSeason(redis, now)).number !== season.number) {
+      await tx.unwatch();
+      continue;
+    }
+
+    // Only players who joined the post are counted in it and score points
+    const username = (await redis.hGet(keys.player(userId), 'username')) ?? null;
+    const event: GameOutcomeEvent = {
+      type: result,
+      gameId: id,
+      at: now,
+      postId,
+      userId,
+      username,
+      season: season.number,
+      points: won && username !== null ? calculateScore(game.board, record.time) : 0,
+      record,
+    };
+    const storedStats = await redis.get(statsKey);
+    const stats = addGameRecord(storedStats ? parsePlayerStats(storedStats) : emptyStats(), record);
+    const score = outcomeBestScore(event);
+    const postBest = won ? await loadBest(redis, keys.best, bestKey) : null;
+    const standingsBests = won && username !== null
+      ? await Promise.all(periods.map(period => loadBest(redis, standingsKeys(period).best, bestKey)))
+      : [];
+
+    await tx.multi();
+    await tx.set(outcomeKey(id), JSON.stringify(event));
+    await tx.zAdd(LEDGER_KEY, { member: JSON.stringify(event), score: now });
+    await tx.set(statsKey, JSON.stringify(stats));
+    await tx.zAdd(history, { member: JSON.stringify(record), score: record.finishedAt });
+    await tx.zRemRangeByRank(history, 0, -HISTORY_SIZE - 1);
+    if (won && isBetterScore(score, postBest)) await tx.hSet(keys.best, { [bestKey]: JSON.stringify(score) });
+    if (username !== null) await tx.hIncrBy(keys.player(userId), 'totalGamesPlayed', 1);
+    if (won && username !== null) {
+      await tx.hIncrBy(keys.player(userId), 'totalGamesWon', 1);
+      await tx.zIncrBy(keys.scores(record.variant), userId, event.points);
+      await tx.hSet(USERNAMES_KEY, { [userId]: username });
+      for (const [index, period] of periods.entries()) {
+        const standings = standingsKeys(period);
+        await tx.zIncrBy(standings.scores(record.variant), userId, event.points);
+        await tx.zIncrBy(standings.wins(record.variant), userId, 1);
+        if (isBetterScore(score, standingsBests[index])) await tx.hSet(standings.best, { [bestKey]: JSON.stringify(score) });
+        await expiresWithWeek(tx, period, standings.scores(record.variant));
+        await expiresWithWeek(tx, period, standings.wins(record.variant));
+        await expiresWithWeek(tx, period, standings.best);
+      }
+    }
+    if (await tryExec(tx)) {
+      return { event, stats, best: won ? (isBetterScore(score, postBest) ? score : postBest) : null };
+    }
+  }
+
+  throw new Error(`Couldn't record the outcome of game ${id}: it kept changing`);
+};
+
+// Give up an unfinished game, which counts as a loss. Returns the recorded outcome,
+// or null when there was no unfinished game or its outcome was already recorded elsewhere.
+export const abandonGame = async (
+  redis: RedisClient,
+  postId: string,
+  userId: string,
+  now = Date.now()
+): Promise<RecordedOutcome | null> => {
+  const keys = postKeys(postId);
+  const game = await loadGame(redis, postId, userId);
+  if (!game || !isUnfinished(game)) return null;
+
+  const outcome = await recordOutcome(redis, postId, userId, game, 'abandoned', now);
+
+  // Clear the abandoned game, unless a new one has been started over it meanwhile
+  const tx = await redis.watch(keys.game(userId));
+  const current = await loadGame(redis, postId, userId);
+  if (current?.clock.startedAt !== game.clock.startedAt) {
+    await tx.unwatch();
+    return outcome;
+  }
+  await tx.multi();
+  await tx.del(keys.game(userId));
+  await tryExec(tx);
+  return outcome;
+};
+
+export const loadDailyAttempt = async (redis: RedisClient, date: string, userId: string): Promise<DailyAttempt | null> => {
+  const stored = await redis.get(dailyKeys.attempt(date, userId));
+  return stored ? parseDailyAttempt(stored) : null;
+};
+
+// Save a new attempt at the day's board, unless the player opened one meanwhile; returns the attempt they have
+export const openDailyAttempt = async (redis: RedisClient, attempt: DailyAttempt): Promise<DailyAttempt> => {
+  await redis.set(dailyKeys.attempt(attempt.date, attempt.userId), serializeDailyAttempt(attempt), { nx: true });
+  return (await loadDailyAttempt(redis, attempt.date, attempt.userId)) ?? attempt;
+};
+
+// The day's finished attempts, fastest first
+export const loadDailyResults = async (redis: RedisClient, date: string): Promise<DailyResult[]> => {
+  const results = await redis.zRange(dailyKeys.results(date), 0, -1, { by: 'rank' });
+  return results.map(({ member }) => parseDailyResult(member));
+};
+
+export const loadDailyStreak = async (redis: RedisClient, userId: string): Promise<DailyStreak> => {
+  const stored = await redis.get(dailyKeys.streak(userId));
+  return stored ? parseDailyStreak(stored) : emptyDailyStreak();
+};
+
+// A daily attempt as saved, with the player's streak once the attempt is finished
+export type DailyMove = {
+  attempt: DailyAttempt;
+  streak: DailyStreak | null;
+};
+
+// Save a move on a daily attempt played in a post. The move that finishes it writes it to the ledger,
+// the day's results, the player's streak and their stats in the same transaction. Returns null when
+// the stored attempt had already finished, so an attempt played on in two places can't be counted twice.
+export const saveDailyMove = async (redis: RedisClient, postId: string, daily: DailyAttempt): Promise<DailyMove | null> => {
+  const attemptKey = dailyKeys.attempt(daily.date, daily.userId);
+  const streakKey = dailyKeys.streak(daily.userId);
+  const { stats: statsKey, history } = statsKeys(daily.userId);
+  const finished = daily.outcome !== 'playing';
+
+  for (let attempt = 0; attempt < TX_ATTEMPTS; attempt++) {
+    const tx = await redis.watch(attemptKey, streakKey, statsKey);
+    const current = await loadDailyAttempt(redis, daily.date, daily.userId);
+    if (current && current.outcome !== 'playing') {
+      await tx.unwatch();
+      return null;
+    }
+
+    const streak = finished ? updateDailyStreak(await loadDailyStreak(redis, daily.userId), daily.date, daily.outcome === 'won') : null;
+    const { stats } = finished ? await loadPlayerStats(redis, daily.userId) : { stats: null };
+
+    await tx.multi();
+    await tx.set(attemptKey, serializeDailyAttempt(daily));
+    if (streak && stats && daily.outcome !== 'playing') {
+      const result = dailyResult(daily);
+      const at = daily.finishedAt ?? Date.now();
+      const event: DailyOutcomeEvent = {
+        type: 'daily',
+        gameId: dailyGameId(daily.date, daily.userId),
+        at,
+        postId,
+        userId: daily.userId,
+        date: daily.date,
+        record: gameRecord(daily.board, daily.moves, result.time, daily.outcome, at),
+      };
+      await tx.zAdd(LEDGER_KEY, { member: JSON.stringify(event), score: at });
+      await tx.zAdd(dailyKeys.results(daily.date), { member: JSON.stringify(result), score: result.time });
+      await tx.set(streakKey, JSON.stringify(streak));
+      await tx.set(statsKey, JSON.stringify(addGameRecord(stats, event.record)));
+      await tx.zAdd(history, { member: JSON.stringify(event.record), score: at });
+      await tx.zRemRangeByRank(history, 0, -HISTORY_SIZE - 1);
+    }
+    if (await tryExec(tx)) return { attempt: daily, streak };
+  }
+
+  throw new Error(`Couldn't save the daily attempt of ${daily.userId}: it kept changing`);
+};
+
+export const loadCoopGame = async (redis: RedisClient, postId: string): Promise<CoopGame | null> => {
+  const stored = await redis.get(postKeys(postId).coop);
+  return stored ? parseCoopGame(stored) : null;
+};
+
+export const loadCoopTally = async (redis: RedisClient, postId: string): Promise<CoopTally> => {
+  const stored = await redis.get(postKeys(postId).coopTally);
+  return stored ? parseCoopTally(stored) : emptyCoopTally();
+};
+
+// Put a new co-op board up, unless one is still being played; returns the board in play either way
+export const startCoopGame = async (redis: RedisClient, postId: string, game: CoopGame): Promise<CoopGame> => {
+  const key = postKeys(postId).coop;
+
+  for (let attempt = 0; attempt < TX_ATTEMPTS; attempt++) {
+    const tx = await redis.watch(key);
+    const current = await loadCoopGame(redis, postId);
+    if (current && isUnfinished(current)) {
+      await tx.unwatch();
+      return current;
+    }
+
+    await tx.multi();
+    await tx.set(key, serializeCoopGame(game));
+    if (await tryExec(tx)) return game;
+  }
+
+  throw new Error(`Couldn't start a co-op game in post ${postId}: it kept changing`);
+};
+
+// A co-op move as played on the stored board, and the post's co-op record once the board is finished
+export type CoopMove = {
+  game: CoopGame;
+  result: MoveResult;
+  tally: CoopTally | null;
+};
+
+// Play a move on the co-op board as it's stored, so moves made at the same time all count.
+// The move that finishes the board also writes it to the ledger and the post's co-op record.
+// Returns null when there's no co-op board being played.
+export const playCoopMove = async (
+  redis: RedisClient,
+  postId: string,
+  player: { id: string; username: string },
+  action: CellAction,
+  index: number,
+  now = Date.now()
+): Promise<CoopMove | null> => {
+  const keys = postKeys(postId);
+
+  for (let attempt = 0; attempt < TX_ATTEMPTS; attempt++) {
+    const tx = await redis.watch(keys.coop, keys.coopTally);
+    const current = await loadCoopGame(redis, postId);
+    if (!current || !isUnfinished(current)) {
+      await tx.unwatch();
+      return null;
+    }
+
+    const { game, result } = applyCoopMove(current, player, action, index, now);
+    if (!result.changed) {
+      await tx.unwatch();
+      return { game, result, tally: null };
+    }
+
+    const tally = result.outcome !== 'playing' ? addCoopGame(await loadCoopTally(redis, postId), game) : null;
+
+    await tx.multi();
+    await tx.set(keys.coop, serializeCoopGame(game));
+    if (result.outcome !== 'playing' && tally) {
+      const event: CoopOutcomeEvent = {
+        type: 'coop',
+        gameId: coopGameId(postId, game.clock.startedAt),
+        at: now,
+        postId,
+        openedBy: game.openedBy,
+        players: game.players,
+        lostBy: game.lostBy,
+        record: gameRecord(game.board, game.moveCount, elapsedSeconds(game.clock, now), result.outcome, now),
+      };
+      await tx.zAdd(LEDGER_KEY, { member: JSON.stringify(event), score: now });
+      await tx.set(keys.coopTally, JSON.stringify(tally));
+    }
+    if (await tryExec(tx)) return { game, result, tally };
+  }
+
+  throw new Error(`Couldn't play on the co-op board of post ${postId}: it kept changing`);
+};
+
+const loadRaceById = async (redis: RedisClient, postId: string, raceId: string): Promise<Race | null> => {
+  const stored = await redis.get(postKeys(postId).race(raceId));
+  return stored ? parseRace(stored) : null;
+};
+
+// A player's latest race in the post, whether it's waiting to be accepted, running or finished
+export const loadRace = async (redis: RedisClient, postId: string, userId: string): Promise<Race | null> => {
+  const raceId = await redis.get(postKeys(postId).raceOf(userId));
+  return raceId ? loadRaceById(redis, postId, raceId) : null;
+};
+
+export const loadRaceRun = async (redis: RedisClient, postId: string, raceId: string, userId: string): Promise<GameSession | null> => {
+  const stored = await redis.get(postKeys(postId).raceRun(raceId, userId));
+  return stored ? parseGameSession(stored) : null;
+};
+
+// Put a challenge up; false when either player is already in a race that isn't finished
+export const createRace = async (redis: RedisClient, race: Race): Promise<boolean> => {
+  const keys = postKeys(race.postId);
+  const entrants = raceEntrants(race);
+
+  for (let attempt = 0; attempt < TX_ATTEMPTS; attempt++) {
+    const tx = await redis.watch(...entrants.map(({ userId }) => keys.raceOf(userId)));
+    const current = await Promise.all(entrants.map(({ userId }) => loadRace(redis, race.postId, userId)));
+    if (current.some(other => other && other.status !== 'finished')) {
+      await tx.unwatch();
+      return false;
+    }
+
+    await tx.multi();
+    await tx.set(keys.race(race.id), JSON.stringify(race));
+    for (const { userId } of entrants) await tx.set(keys.raceOf(userId), race.id);
+    if (await tryExec(tx)) return true;
+  }
+
+  throw new Error(`Couldn't create race ${race.id}: it kept changing`);
+};
+
+// Accept the challenge waiting on a player: both get the race board and their clocks start.
+// Returns the started race, or null when no challenge is waiting on them.
+export const acceptRace = async (redis: RedisClient, postId: string, userId: string, now = Date.now()): Promise<Race | null> => {
+  const keys = postKeys(postId);
+
+  for (let attempt = 0; attempt < TX_ATTEMPTS; attempt++) {
+    const raceId = await redis.get(keys.raceOf(userId));
+    if (!raceId) return null;
+
+    const tx = await redis.watch(keys.race(raceId));
+    const race = await loadRaceById(redis, postId, raceId);
+    if (!race || race.status !== 'pending' || race.opponent.userId !== userId) {
+      await tx.unwatch();
+      return null;
+    }
+
+    const board = createRaceBoard(race.settings);
+    const started = startRace(race, board, now);
+    await tx.multi();
+    await tx.set(keys.race(raceId), JSON.stringify(started));
+    for (const entrant of raceEntrants(race)) {
+      await tx.set(keys.raceRun(raceId, entrant.userId), serializeGameSession({ board, moveCount: 0, clock: startClock(now) }));
+    }
+    if (await tryExec(tx)) return started;
+  }
+
+  throw new Error(`Couldn't accept a race in post ${postId}: it kept changing`);
+};
+
+// Withdraw a challenge, or decline one, before it starts. Returns the dropped race.
+export const cancelRace = async (redis: RedisClient, postId: string, userId: string): Promise<Race | null> => {
+  const keys = postKeys(postId);
+
+  for (let attempt = 0; attempt < TX_ATTEMPTS; attempt++) {
+    const raceId = await redis.get(keys.raceOf(userId));
+    if (!raceId) return null;
+
+    const tx = await redis.watch(keys.race(raceId));
+    const race = await loadRaceById(redis, postId, raceId);
+    if (!race || race.status !== 'pending') {
+      await tx.unwatch();
+      return null;
+    }
+
+    await tx.multi();
+    await tx.del(keys.race(raceId), ...raceEntrants(race).map(entrant => keys.raceOf(entrant.userId)));
+    if (await tryExec(tx)) return race;
+  }
+
+  throw new Error(`Couldn't cancel a race in post ${postId}: it kept changing`);
+};
+
+// A move in a race: the race with the player's progress, their board after it, and the move itself
+export type RaceMove = {
+  race: Race;
+  run: GameSession;
+  result: MoveResult;
+};
+
+// The stats of each player in an event's matches, in the order matchResults lists them
+const loadMatchStats = (redis: RedisClient, event: MatchEvent) =>
+  Promise.all(matchResults(event).map(async ({ userId }) => (await loadPlayerStats(redis, userId)).stats));
+
+// Queue writing finished matches to the ledger and counting them in each player's stats, as loadMatchStats read them
+const queueMatches = async (tx: TxClientLike, event: MatchEvent, stats: PlayerStats[]) => {
+  await tx.zAdd(LEDGER_KEY, { member: JSON.stringify(event), score: event.at });
+  for (const [index, { userId, won }] of matchResults(event).entries()) {
+    await tx.set(statsKeys(userId).stats, JSON.stringify(addMatch(stats[index], won)));
+  }
+};
+
+const raceOutcome = (race: Race, now: number): RaceOutcomeEvent => ({
+  type: 'race',
+  gameId: race.id,
+  at: now,
+  postId: race.postId,
+  players: raceEntrants(race),
+  winner: race.winner,
+});
+
+// Play on a player's board in their running race and note their progress on the race.
+// The move that finishes the race writes it to the ledger and counts it in both players' stats.
+// Returns null when the player isn't racing.
+const playRace = async (
+  redis: RedisClient,
+  postId: string,
+  userId: string,
+  move: (board: Board) => MoveResult,
+  moves: number,
+  now: number
+): Promise<RaceMove | null> => {
+  const keys = postKeys(postId);
+
+  for (let attempt = 0; attempt < TX_ATTEMPTS; attempt++) {
+    const raceId = await redis.get(keys.raceOf(userId));
+    if (!raceId) return null;
+
+    const race = await loadRaceById(redis, postId, raceId);
+    const entrants = race ? raceEntrants(race) : [];
+    const tx = await redis.watch(
+      keys.race(raceId),
+      keys.raceRun(raceId, userId),
+      ...entrants.map(entrant => statsKeys(entrant.userId).stats)
+    );
+    const current = await loadRaceById(redis, postId, raceId);
+    const run = await loadRaceRun(redis, postId, raceId, userId);
+    if (!current || !run || current.status !== 'racing' || !isEntrant(current, userId) || current.progress[userId]?.outcome !== 'playing') {
+      await tx.unwatch();
+      return null;
+    }
+
+    const result = move(run.board);
+    if (!result.changed) {
+      await tx.unwatch();
+      return { race: current, run, result };
+    }
+
+    const moved: GameSession = {
+      board: result.board,
+      moveCount: run.moveCount + moves,
+      clock: recordMoveTime(run.clock, result.outcome !== 'playing', now),
+    };
+    const updated = recordRaceProgress(current, userId, result.board, result.outcome, now);
+    const event = updated.status === 'finished' ? raceOutcome(updated, now) : null;
+    const stats = event ? await loadMatchStats(redis, event) : [];
+
+    await tx.multi();
+    await tx.set(keys.raceRun(raceId, userId), serializeGameSession(moved));
+    await tx.set(keys.race(raceId), JSON.stringify(updated));
+    if (event) await queueMatches(tx, event, stats);
+    if (await tryExec(tx)) return { race: updated, run: moved, result };
+  }
+
+  throw new Error(`Couldn't play in a race in post ${postId}: it kept changing`);
+};
+
+export const playRaceMove = (
+  redis: RedisClient,
+  postId: string,
+  userId: string,
+  action: CellAction,
+  index: number,
+  now = Date.now()
+) => playRace(redis, postId, userId, board => actOnCell(board, action, index), 1, now);
+
+// Give up a running race, which ends the player's run as if they'd hit a bomb
+export const forfeitRace = (redis: RedisClient, postId: string, userId: string, now = Date.now()) =>
+  playRace(redis, postId, userId, board => ({ board, outcome: 'lost', revealed: [], changed: true }), 0, now);
+
+// Act on a race's deadline once it has passed: a challenge nobody accepted is dropped, and a
+// race still running is stopped and settled on how far each run got. Returns the dropped
+// challenge or the finished race, or null when the race has moved on from that deadline.
+export const expireRace = async (
+  redis: RedisClient,
+  postId: string,
+  raceId: string,
+  deadline: number,
+  now = Date.now()
+): Promise<Race | null> => {
+  const keys = postKeys(postId);
+
+  for (let attempt = 0; attempt < TX_ATTEMPTS; attempt++) {
+    const race = await loadRaceById(redis, postId, raceId);
+    const entrants = race ? raceEntrants(race) : [];
+    const tx = await redis.watch(keys.race(raceId), ...entrants.map(entrant => statsKeys(entrant.userId).stats));
+    const current = await loadRaceById(redis, postId, raceId);
+    if (!current || raceDeadline(current) !== deadline) {
+      await tx.unwatch();
+      return null;
+    }
+
+    if (current.status === 'pending') {
+      await tx.multi();
+      await tx.del(keys.race(raceId), ...entrants.map(entrant => keys.raceOf(entrant.userId)));
+      if (await tryExec(tx)) return current;
+      continue;
+    }
+
+    const stoppedAt = Math.max(now, deadline);
+    const finished = runOutRace(current, stoppedAt);
+    if (!finished) {
+      await tx.unwatch();
+      return null;
+    }
+    const event = raceOutcome(finished, stoppedAt);
+    const stats = await loadMatchStats(redis, event);
+
+    await tx.multi();
+    await tx.set(keys.race(raceId), JSON.stringify(finished));
+    await queueMatches(tx, event, stats);
+    if (await tryExec(tx)) return finished;
+  }
+
+  throw new Error(`Couldn't expire race ${raceId} in post ${postId}: it kept changing`);
+};
+
+export const loadPotatoGame = async (redis: RedisClient, postId: string): Promise<PotatoGame | null> => {
+  const stored = await redis.get(postKeys(postId).potato);
+  return stored ? parsePotatoGame(stored) : null;
+};
+
+// Open signups for a hot potato game, unless one is still going. Returns whether it was set up.
+export const hostPotatoGame = async (redis: RedisClient, game: PotatoGame): Promise<boolean> => {
+  const key = postKeys(game.postId).potato;
+
+  for (let attempt = 0; attempt < TX_ATTEMPTS; attempt++) {
+    const tx = await redis.watch(key);
+    const current = await loadPotatoGame(redis, game.postId);
+    if (current && current.status !== 'finished') {
+      await tx.unwatch();
+      return false;
+    }
+
+    await tx.multi();
+    await tx.set(key, serializePotatoGame(game));
+    if (await tryExec(tx)) return true;
+  }
+
+  throw new Error(`Couldn't host a hot potato game in post ${game.postId}: it kept changing`);
+};
+
+// A change to a game kept in one key: the game as it was, and as it is now
+export type GameChange<T> = {
+  before: T;
+  game: T;
+};
+
+export type PotatoChange = GameChange<PotatoGame>;
+
+// A change to a game as it's stored now, without saving it
+const readChange = async <T>(
+  redis: RedisClient,
+  key: string,
+  parse: (json: string) => T,
+  change: (game: T) => T | null
+): Promise<GameChange<T> | null> => {
+  const stored = await redis.get(key);
+  const before = stored ? parse(stored) : null;
+  const game = before === null ? null : change(before);
+  return before === null || game === null ? null : { before, game };
+};
+
+const matchStatsKeys = (event: MatchEvent | null) => (event ? matchResults(event).map(({ userId }) => statsKeys(userId).stats) : []);
+
+// Apply a change to a game kept in one key, as it's stored; null when there's no game or the change doesn't apply.
+// Matches the change settles are written to the ledger and counted in their players' stats in the same transaction.
+const changeStoredGame = async <T>(
+  redis: RedisClient,
+  key: string,
+  parse: (json: string) => T,
+  serialize: (game: T) => string,
+  change: (game: T) => T | null,
+  settles: (changed: GameChange<T>) => MatchEvent | null = () => null
+): Promise<GameChange<T> | null> => {
+  for (let attempt = 0; attempt < TX_ATTEMPTS; attempt++) {
+    // A first look at the change tells whose stats it counts in, so they're watched along with the game
+    const preview = await readChange(redis, key, parse, change);
+    const watched = matchStatsKeys(preview && settles(preview));
+    const tx = await redis.watch(key, ...watched);
+    const changed = await readChange(redis, key, parse, change);
+    if (!changed) {
+      await tx.unwatch();
+      return null;
+    }
+    const event = settles(changed);
+    if (matchStatsKeys(event).some(statsKey => !watched.includes(statsKey))) {
+      await tx.unwatch();
+      continue;
+    }
+    const stats = event ? await loadMatchStats(redis, event) : [];
+
+    await tx.multi();
+    await tx.set(key, serialize(changed.game));
+    if (event) await queueMatches(tx, event, stats);
+    if (await tryExec(tx)) return changed;
+  }
+
+  throw new Error(`Couldn't update ${key}: it kept changing`);
+};
+
+// A game that was played out, as the change that finished it writes it to the ledger
+const potatoOutcome = ({ before, game }: PotatoChange, now: number): PotatoOutcomeEvent | null =>
+  before.status === 'playing' && game.status === 'finished'
+    ? {
+        type: 'potato',
+        gameId: potatoGameId(game.postId, game.createdAt),
+        at: now,
+        postId: game.postId,
+        players: game.players,
+        winner: game.winner,
+      }
+    : null;
+
+const changePotatoGame = (
+  redis: RedisClient,
+  postId: string,
+  change: (game: PotatoGame) => PotatoGame | null,
+  now = Date.now()
+) => changeStoredGame(redis, postKeys(postId).potato, parsePotatoGame, serializePotatoGame, change, changed => potatoOutcome(changed, now));
+
+export const joinPotatoGame = (redis: RedisClient, postId: string, player: PotatoPlayer) =>
+  changePotatoGame(redis, postId, game => joinPotato(game, player));
+
+// Only the host can close signups early
+export const startPotatoGame = (redis: RedisClient, postId: string, userId: string, now = Date.now()) =>
+  changePotatoGame(redis, postId, game => (game.host.userId === userId ? startPotato(game, now) : null));
+
+export const playPotatoTurn = (redis: RedisClient, postId: string, userId: string, index: number, now = Date.now()) =>
+  changePotatoGame(redis, postId, game => takeTurn(game, userId, index, now), now);
+
+// Act on a deadline a job was scheduled for, unless the game has moved on since.
+// A job that runs a moment early still counts as on time.
+export const expirePotatoDeadline = (redis: RedisClient, postId: string, deadline: number, now = Date.now()) =>
+  changePotatoGame(redis, postId, game => (game.deadline === deadline ? runOutClock(game, Math.max(now, deadline)) : null), now);
+
+// Count comments as part of the game's thread, so replies to them are taken as game commands
+export const notePotatoComments = (redis: RedisClient, postId: string, commentIds: string[]) =>
+  changePotatoGame(redis, postId, game => addToPotatoThread(game, commentIds));
+
+export type CommunityChange = GameChange<CommunityGame>;
+
+export const loadCommunityGame = async (redis: RedisClient, postId: string): Promise<CommunityGame | null> => {
+  const stored = await redis.get(postKeys(postId).community);
+  return stored ? parseCommunityGame(stored) : null;
+};
+
+// Put up a new community board, unless one is still being played. Returns whether it was put up.
+export const startCommunityGame = async (redis: RedisClient, game: CommunityGame): Promise<boolean> => {
+  const key = postKeys(game.postId).community;
+
+  for (let attempt = 0; attempt < TX_ATTEMPTS; attempt++) {
+    const tx = await redis.watch(key);
+    const current = await loadCommunityGame(redis, game.postId);
+    if (current && communityOutcome(current) === 'playing') {
+      await tx.unwatch();
+      return false;
+    }
+
+    await tx.multi();
+    await tx.set(key, serializeCommunityGame(game));
+    if (await tryExec(tx)) return true;
+  }
+
+  throw new Error(`Couldn't start a community board in post ${game.postId}: it kept changing`);
+};
+
+const changeCommunityGame = (redis: RedisClient, postId: string, change: (game: CommunityGame) => CommunityGame | null) =>
+  changeStoredGame(redis, postKeys(postId).community, parseCommunityGame, serializeCommunityGame, change);
+
+// Remember the bot's pinned comment that shows the board
+export const pinCommunityComment = (redis: RedisClient, postId: string, commentId: string) =>
+  changeCommunityGame(redis, postId, game => ({ ...game, commentId }));
+
+export const voteOnCommunityGame = (redis: RedisClient, postId: string, voter: Voter, move: VoteMove, now = Date.now()) =>
+  changeCommunityGame(redis, postId, game => castVote(game, voter, move, now));
+
+// Close the round a job was scheduled for, unless it has closed already
+export const closeCommunityRound = (redis: RedisClient, postId: string, endsAt: number, now = Date.now()) =>
+  changeCommunityGame(redis, postId, game => (game.roundEndsAt === endsAt ? closeRound(game, Math.max(now, endsAt)) : null));
+
+export type TournamentChange = GameChange<Tournament>;
+
+export const loadTournament = async (redis: RedisClient, postId: string): Promise<Tournament | null> => {
+  const stored = await redis.get(postKeys(postId).tournament);
+  return stored ? parseTournament(stored) : null;
+};
+
+export const loadTournamentRun = async (
+  redis: RedisClient,
+  tournament: Tournament,
+  round: number,
+  userId: string
+): Promise<GameSession | null> => {
+  const stored = await redis.get(postKeys(tournament.postId).tournamentRun(tournament.id, round, userId));
+  return stored ? parseGameSession(stored) : null;
+};
+
+// Open registration for a tournament, unless one is still going. Returns whether it was set up.
+export const createTournament = async (redis: RedisClient, tournament: Tournament): Promise<boolean> => {
+  const key = postKeys(tournament.postId).tournament;
+
+  for (let attempt = 0; attempt < TX_ATTEMPTS; attempt++) {
+    const tx = await redis.watch(key);
+    const current = await loadTournament(redis, tournament.postId);
+    if (current && current.status !== 'finished') {
+      await tx.unwatch();
+      return false;
+    }
+
+    await tx.multi();
+    await tx.set(key, JSON.stringify(tournament));
+    if (await tryExec(tx)) return true;
+  }
+
+  throw new Error(`Couldn't create a tournament in post ${tournament.postId}: it kept changing`);
+};
+
+// The round a change closed, as it's written to the ledger; null when it didn't close one
+const closedRound = ({ before, game }: TournamentChange, now: number): TournamentRoundEvent | null => {
+  const round = before.status === 'playing' ? currentRound(before) : null;
+  const closed = round && game.rounds.find(other => other.number === round.number);
+  if (!round || !closed || closed.matches.some(match => match.winner === null)) return null;
+
+  return {
+    type: 'tournament',
+    gameId: tournamentRoundId(game.postId, game.id, closed.number),
+    at: now,
+    postId: game.postId,
+    round: closed.number,
+    matches: closed.matches,
+  };
+};
+
+const changeTournament = (
+  redis: RedisClient,
+  postId: string,
+  change: (tournament: Tournament) => Tournament | null,
+  settles?: (changed: TournamentChange) => TournamentRoundEvent | null
+) => changeStoredGame(redis, postKeys(postId).tournament, parseTournament, tournament => JSON.stringify(tournament), change, settles);
+
+export const registerForTournament = (redis: RedisClient, postId: string, player: RaceEntrant) =>
+  changeTournament(redis, postId, tournament => register(tournament, player));
+
+// Act on a deadline a job was scheduled for, unless the tournament has moved on since. Registration
+// closes with entrants seeded by their classic points in the post, or a round closes and is written
+// to the ledger.
+export const expireTournamentDeadline = async (redis: RedisClient, postId: string, deadline: number, now = Date.now()) => {
+  const players = await loadPlayers(redis, postId);
+  const scores = Object.fromEntries(players.map(player => [player.id, player.score]));
+  return changeTournament(
+    redis,
+    postId,
+    tournament => (tournament.deadline === deadline ? runOutTournamentClock(tournament, scores, Math.max(now, deadline)) : null),
+    changed => closedRound(changed, now)
+  );
+};
+
+// Deal a player their board in the current round and start their clock. Returns the tournament
+// and the board, or null when the player has no board to play or has already opened it.
+export const startTournamentRun = async (
+  redis: RedisClient,
+  postId: string,
+  userId: string,
+  now = Date.now()
+): Promise<{ tournament: Tournament; run: GameSession } | null> => {
+  const keys = postKeys(postId);
+
+  for (let attempt = 0; attempt < TX_ATTEMPTS; attempt++) {
+    const tx = await redis.watch(keys.tournament);
+    const current = await loadTournament(redis, postId);
+    const round = current && currentRound(current);
+    if (!current || !round || !canStartRun(current, userId, now)) {
+      await tx.unwatch();
+      return null;
+    }
+
+    const board = createRaceBoard(round.settings);
+    const tournament = startRun(current, userId, board, now) ?? current;
+    const run: GameSession = { board, moveCount: 0, clock: startClock(now) };
+    await tx.multi();
+    await tx.set(keys.tournament, JSON.stringify(tournament));
+    await tx.set(keys.tournamentRun(tournament.id, round.number, userId), serializeGameSession(run));
+    if (await tryExec(tx)) return { tournament, run };
+  }
+
+  throw new Error(`Couldn't start a tournament run in post ${postId}: it kept changing`);
+};
+
+// A move in a tournament round: the tournament before and after it, the player's board and the move
+export type TournamentMove = TournamentChange & {
+  run: GameSession;
+  result: MoveResult;
+};
+
+// Play on a player's board in the given round and note how far they've got. The move that plays out
+// the round's last match closes the round and writes it to the ledger. Returns null once the round or the player's run is over.
+export const playTournamentMove = async (
+  redis: RedisClient,
+  postId: string,
+  userId: string,
+  round: number,
+  action: CellAction,
+  index: number,
+  now = Date.now()
+): Promise<TournamentMove | null> => {
+  const keys = postKeys(postId);
+
+  for (let attempt = 0; attempt < TX_ATTEMPTS; attempt++) {
+    const stored = await loadTournament(redis, postId);
+    if (!stored) return null;
+
+    // The move may close the round, counting it in the stats of everyone who played in it
+    const runKey = keys.tournamentRun(stored.id, round, userId);
+    const players = stored.rounds.find(other => other.number === round)?.matches.flatMap(match => match.players) ?? [];
+    const watched = players.map(player => statsKeys(player).stats);
+    const tx = await redis.watch(keys.tournament, runKey, ...watched);
+    const before = await loadTournament(redis, postId);
+    const run = before && (await loadTournamentRun(redis, before, round, userId));
+    if (!before || !run || before.id !== stored.id) {
+      await tx.unwatch();
+      return null;
+    }
+
+    const result = actOnCell(run.board, action, index);
+    const tournament = recordRun(before, round, userId, result.board, result.outcome, now);
+    if (!tournament || !result.changed) {
+      await tx.unwatch();
+      return tournament && { before, game: before, run, result };
+    }
+
+    const event = closedRound({ before, game: tournament }, now);
+    if (matchStatsKeys(event).some(statsKey => !watched.includes(statsKey))) {
+      await tx.unwatch();
+      continue;
+    }
+    const stats = event ? await loadMatchStats(redis, event) : [];
+
+    const moved: GameSession = {
+      board: result.board,
+      moveCount: run.moveCount + 1,
+      clock: recordMoveTime(run.clock, result.outcome !== 'playing', now),
+    };
+    await tx.multi();
+    await tx.set(runKey, serializeGameSession(moved));
+    await tx.set(keys.tournament, JSON.stringify(tournament));
+    if (event) await queueMatches(tx, event, stats);
+    if (await tryExec(tx)) return { before, game: tournament, run: moved, result };
+  }
+
+  throw new Error(`Couldn't play in a tournament in post ${postId}: it kept changing`);
+};
+
+// The top of the subreddit standings for a rule variant, most points first
+export const loadStandings = async (
+  redis: RedisClient,
+  period: string,
+  variant: Variant,
+  limit = STANDINGS_SIZE
+): Promise<Standing[]> => {
+  const keys = standingsKeys(period);
+  const top = await redis.zRange(keys.scores(variant), 0, limit - 1, { by: 'rank', reverse: true });
+  if (top.length === 0) return [];
+
+  const userIds = top.map(({ member }) => member);
+  const [wins, usernames] = await Promise.all([
+    Promise.all(userIds.map(userId => redis.zScore(keys.wins(variant), userId))),
+    redis.hMGet(USERNAMES_KEY, userIds),
+  ]);
+  return top.map(({ member, score }, index) => ({
+    userId: member,
+    username: usernames[index] ?? member,
+    score,
+    wins: wins[index] ?? 0,
+  }));
+};
+
+export const loadStandingsBest = (redis: RedisClient, period: string) => loadBestHash(redis, standingsKeys(period).best);
+
+// The season in progress; the first one starts with the first win recorded
+export const loadSeason = async (redis: RedisClient, now = Date.now()): Promise<Season> => {
+  const stored = await redis.get(SEASON_KEY);
+  if (stored) return parseSeason(stored);
+
+  const first: Season = { number: 1, startedAt: now };
+  await redis.set(SEASON_KEY, JSON.stringify(first), { nx: true });
+  return parseSeason((await redis.get(SEASON_KEY)) ?? JSON.stringify(first));
+};
+
+export const loadSeasonArchive = async (redis: RedisClient, number: number): Promise<SeasonArchive | null> => {
+  const stored = await redis.get(seasonArchiveKey(number));
+  return stored ? parseSeasonArchive(stored) : null;
+};
+
+// Close the season once it has run for the given number of days: its top players are archived,
+// its standings are cleared and the next season starts. Returns the archive, or null while
+// the season still has time to run.
+export const closeSeason = async (redis: RedisClient, days: number, now = Date.now()): Promise<SeasonArchive | null> => {
+  for (let attempt = 0; attempt < TX_ATTEMPTS; attempt++) {
+    const tx = await redis.watch(SEASON_KEY);
+    const season = await loadSeason(redis, now);
+    if (!isSeasonOver(season, days, now)) {
+      await tx.unwatch();
+      return null;
+    }
+
+    const period = seasonPeriod(season.number);
+    const standings = await Promise.all(
+      VARIANT_KEYS.map(variant => loadStandings(redis, period, variant, SEASON_ARCHIVE_SIZE))
+    );
+    const archive: SeasonArchive = {
+      ...season,
+      endedAt: now,
+      standings: Object.fromEntries(
+        VARIANT_KEYS.map((variant, index) => [variant, standings[index]]).filter(([, top]) => top.length > 0)
+      ),
+    };
+    const keys = standingsKeys(period);
+
+    await tx.multi();
+    await tx.set(seasonArchiveKey(season.number), JSON.stringify(archive));
+    await tx.set(SEASON_KEY, JSON.stringify({ number: season.number + 1, startedAt: now }));
+    await tx.del(keys.best, ...VARIANT_KEYS.flatMap(variant => [keys.scores(variant), keys.wins(variant)]));
+    if (await tryExec(tx)) return archive;
+  }
+
+  throw new Error("Couldn't close the season: it kept changing");
+};
+
+export const rememberLatestPost = async (redis: RedisClient, postId: string) => {
+  await redis.set(LATEST_POST_KEY, postId);
+};
+
+export const loadLatestPost = async (redis: RedisClient) => (await redis.get(LATEST_POST_KEY)) ?? null;
+
+export const loadPlayerStats = async (
+  redis: RedisClient,
+  userId: string
+): Promise<{ stats: PlayerStats; history: GameRecord[] }> => {
+  const keys = statsKeys(userId);
+  const [stored, history] = await Promise.all([
+    redis.get(keys.stats),
+    redis.zRange(keys.history, 0, HISTORY_SIZE - 1, { by: 'rank', reverse: true }),
+  ]);
+  return {
+    stats: stored ? parsePlayerStats(stored) : emptyStats(),
+    history: history.map(({ member }) => parseGameRecord(member)),
+  };
+};
+
+// Every event in the ledger, oldest first, with the member each is stored as
+const LEDGER_PAGE = 500;
+
+export const loadLedger = async (redis: RedisClient): Promise<GameEvent[]> => {
+  const events: GameEvent[] = [];
+  for (let start = 0; ; start += LEDGER_PAGE) {
+    const page = await redis.zRange(LEDGER_KEY, start, start + LEDGER_PAGE - 1, { by: 'rank' });
+    events.push(...page.map(({ member }) => parseGameEvent(member)));
+    if (page.length < LEDGER_PAGE) return events;
+  }
+};
+
+// Replace every projection of the ledger with what replaying it gives: post counters, scores,
+// best times and co-op records, player stats, history and daily streaks, and the all-time, weekly
+// and season standings. Closed seasons keep their archives. Every outcome is appended to the ledger
+// in the same transaction as its projections, so watching the ledger means a game finishing while
+// this runs makes it start over instead of being lost.
+export const rebuildFromLedger = async (redis: RedisClient, now = Date.now()) => {
+  for (let attempt = 0; attempt < TX_ATTEMPTS; attempt++) {
+    const tx = await redis.watch(LEDGER_KEY, SEASON_KEY);
+    const events = await loadLedger(redis);
+    const season = await loadSeason(redis, now);
+    const projection = replayLedger(events, season, now);
+    const posts = Object.entries(projection.posts);
+    const rosters = await Promise.all(posts.map(([postId]) => redis.zRange(postKeys(postId).players, 0, -1, { by: 'rank' })));
+
+    await tx.multi();
+    for (const [index, [postId, { players, best, coop }]] of posts.entries()) {
+      const keys = postKeys(postId);
+      await tx.del(keys.best, ...VARIANT_KEYS.map(variant => keys.scores(variant)));
+      for (const { member: userId } of rosters[index]) {
+        const tally = players[userId];
+        await tx.hSet(keys.player(userId), {
+          totalGamesPlayed: String(tally?.played ?? 0),
+          totalGamesWon: String(tally?.won ?? 0),
+        });
+        await tx.zAdd(keys.scores('classic'), { member: userId, score: tally?.scores.classic ?? 0 });
+        for (const [variant, score] of Object.entries(tally?.scores ?? {})) {
+          if (variant !== 'classic') await tx.zAdd(keys.scores(variant as Variant), { member: userId, score });
+        }
+      }
+      const bestEntries = Object.entries(best);
+      if (bestEntries.length > 0) {
+        await tx.hSet(keys.best, Object.fromEntries(bestEntries.map(([key, score]) => [key, JSON.stringify(score)])));
+      }
+      if (coop) await tx.set(keys.coopTally, JSON.stringify(coop));
+    }
+
+    for (const [userId, { stats, history }] of Object.entries(projection.players)) {
+      const keys = statsKeys(userId);
+      await tx.set(keys.stats, JSON.stringify(stats));
+      await tx.del(keys.history);
+      for (const record of history) {
+        await tx.zAdd(keys.history, { member: JSON.stringify(record), score: record.finishedAt });
+      }
+    }
+
+    for (const [userId, streak] of Object.entries(projection.dailyStreaks)) {
+      await tx.set(dailyKeys.streak(userId), JSON.stringify(streak));
+    }
+
+    for (const period of currentPeriods(season, now)) {
+      const keys = standingsKeys(period);
+      const tally = projection.standings[period];
+      await tx.del(keys.best, ...VARIANT_KEYS.flatMap(variant => [keys.scores(variant), keys.wins(variant)]));
+      if (!tally) continue;
+
+      for (const variant of VARIANT_KEYS) {
+        for (const [userId, score] of Object.entries(tally.scores[variant] ?? {})) {
+          await tx.zAdd(keys.scores(variant), { member: userId, score });
+        }
+        for (const [userId, wins] of Object.entries(tally.wins[variant] ?? {})) {
+          await tx.zAdd(keys.wins(variant), { member: userId, score: wins });
+        }
+      }
+      const bestEntries = Object.entries(tally.best);
+      if (bestEntries.length > 0) {
+        await tx.hSet(keys.best, Object.fromEntries(bestEntries.map(([key, score]) => [key, JSON.stringify(score)])));
+      }
+      for (const key of [keys.best, ...VARIANT_KEYS.flatMap(variant => [keys.scores(variant), keys.wins(variant)])]) {
+        await expiresWithWeek(tx, period, key);
+      }
+    }
+
+    if (Object.keys(projection.usernames).length > 0) await tx.hSet(USERNAMES_KEY, projection.usernames);
+    if (await tryExec(tx)) return { events: events.length, posts: posts.length, players: Object.keys(projection.players).length };
+  }
+
+  throw new Error("Couldn't rebuild from the ledger: games kept starting and finishing");
+};
@@ -0,0 +1,102 @@
+import { Board, CELL_TYPES, revealCell } from './engine.js';
+import { createRaceBoard } from './race.js';
+import {
+  Tournament,
+  currentRound,
+  eliminatedIn,
+  newTournament,
+  recordRun,
+  register,
+  runOutTournamentClock,
+  startRun,
+  tournamentPlacings,
+} from './tournament.js';
+
+const MINUTE = 60 * 1000;
+const entrant = (name: string) => ({ userId: `t2_${name}`, username: name });
+
+// A tournament with registration closed on the given entrants, seeded by their points
+const drawn = (names: string[], scores: Record<string, number> = {}) => {
+  const open = names.reduce(
+    (tournament, name) => register(tournament, entrant(name)) ?? tournament,
+    newTournament('post', { name: 'Cup', difficulty: 'EASY', board: { seed: 'cup' }, registrationMinutes: 60, roundMinutes: 30 }, 0)
+  );
+  return runOutTournamentClock(open, scores, 60 * MINUTE)!;
+};
+
+// A board a few safe cells further on than the round's own
+const further = (board: Board, cells: number) =>
+  board.cells
+    .flatMap((cell, index) => (!cell.revealed && cell.type !== CELL_TYPES.BOMB ? [index] : []))
+    .slice(0, cells)
+    .reduce((current, index) => revealCell(current, index).board, board);
+
+// Play a player's run in the current round, opened and ended at the given minutes
+const play = (tournament: Tournament, name: string, board: Board, outcome: 'won' | 'lost', from: number, to: number) => {
+  const round = currentRound(tournament)!;
+  const started = startRun(tournament, `t2_${name}`, createRaceBoard(round.settings), from * MINUTE)!;
+  return recordRun(started, round.number, `t2_${name}`, board, outcome, to * MINUTE)!;
+};
+
+describe('tournaments', () => {
+  it('seed entrants by points when registration closes, giving the best seed a bye', () => {
+    const tournament = drawn(['a', 'b', 'c'], { t2_c: 30, t2_b: 20 });
+    expect(tournament.entrants.map(({ username }) => username)).toEqual(['c', 'b', 'a']);
+    expect(currentRound(tournament)?.matches).toEqual([
+      { players: ['t2_c'], winner: 't2_c' },
+      { players: ['t2_b', 't2_a'], winner: null },
+    ]);
+    expect(tournament.deadline).toBe(90 * MINUTE);
+  });
+
+  it('call off a tournament too few registered for', () => {
+    expect(drawn(['a'])).toMatchObject({ status: 'finished', champion: null });
+  });
+
+  it('close a round early once every match is played out, clearing the board beating a longer run', () => {
+    const tournament = drawn(['a', 'b', 'c', 'd']);
+    const board = createRaceBoard(currentRound(tournament)!.settings);
+    const mine = board.cells.findIndex(cell => cell.type === CELL_TYPES.BOMB);
+    const lost = revealCell(further(board, 5), mine).board;
+
+    const first = play(play(tournament, 'a', lost, 'lost', 61, 62), 'd', board, 'won', 61, 70);
+    expect(currentRound(first)?.number).toBe(1);
+    const closed = play(play(first, 'b', lost, 'lost', 61, 63), 'c', lost, 'lost', 61, 64);
+    expect(closed.rounds[0].matches.map(match => match.winner)).toEqual(['t2_d', 't2_b']);
+    expect(currentRound(closed)).toMatchObject({ number: 2, matches: [{ players: ['t2_b', 't2_d'], winner: null }] });
+  });
+
+  it('settle matches on the clock: faster clears, then more cells, and a tie goes to the better seed', () => {
+    const tournament = drawn(['a', 'b', 'c', 'd', 'e', 'f']);
+    const board = createRaceBoard(currentRound(tournament)!.settings);
+    // a v f: both clear, f faster. b v e: e reveals more. c v d: d never plays
+    const played = [
+      ['a', board, 'won', 61, 70],
+      ['f', board, 'won', 61, 65],
+      ['b', further(board, 1), 'lost', 61, 62],
+      ['e', further(board, 3), 'lost', 61, 62],
+      ['c', board, 'lost', 61, 62],
+    ] as const;
+    const closed = runOutTournamentClock(
+      played.reduce((current, [name, run, outcome, from, to]) => play(current, name, run, outcome, from, to), tournament),
+      {},
+      90 * MINUTE
+    )!;
+    expect(closed.rounds[0].matches.map(match => match.winner)).toEqual(['t2_f', 't2_e', 't2_c']);
+
+    const tied = runOutTournamentClock(drawn(['a', 'b']), {}, 90 * MINUTE)!;
+    expect(tied).toMatchObject({ status: 'finished', champion: 't2_a' });
+  });
+
+  it('place entrants by how far they got, then by seed', () => {
+    const final = runOutTournamentClock(runOutTournamentClock(drawn(['a', 'b', 'c', 'd']), {}, 90 * MINUTE)!, {}, 120 * MINUTE)!;
+    expect(final.champion).toBe('t2_a');
+    expect(eliminatedIn(final, 't2_b')).toBe(2);
+    expect(tournamentPlacings(final).map(({ username, reached }) => [username, reached])).toEqual([
+      ['a', Infinity],
+      ['b', 2],
+      ['c', 1],
+      ['d', 1],
+    ]);
+  });
+});
@@ -0,0 +1,276 @@
+// Tournaments: a knockout event run by moderators in a post. Joined players register while it's open,
+// then play it a round at a time. Everyone in a round plays the same seeded board, and in each match
+// whoever played it better goes through, until one player is left.
+import { Board, BoardOptions, Difficulty, Outcome, countRevealed } from './engine.js';
+import { RaceEntrant, RaceSettings, raceSettings } from './race.js';
+import { isValidSeed } from './random.js';
+
+export const DEFAULT_REGISTRATION_MINUTES = 60;
+export const DEFAULT_TOURNAMENT_ROUND_MINUTES = 60;
+
+export const TOURNAMENT_MIN_ENTRANTS = 2;
+
+// Round seeds add a suffix to the tournament's, and still have to be valid seeds
+const TOURNAMENT_SEED_LENGTH = 24;
+
+export const isTournamentSeed = (seed: string) => isValidSeed(seed) && seed.trim().length <= TOURNAMENT_SEED_LENGTH;
+
+// A player's run at a round's board; their clock starts when they open it
+export type TournamentRun = {
+  startedAt: number;
+  revealed: number;
+  outcome: Outcome;
+  finishedAt: number | null;
+};
+
+// Two players drawn against each other, better seed first, or one player with a bye.
+// The winner is settled when the round closes.
+export type TournamentMatch = {
+  players: string[];
+  winner: string | null;
+};
+
+export type TournamentRound = {
+  number: number;
+  // The round's board, the same for everyone in it
+  settings: RaceSettings;
+  startedAt: number;
+  endsAt: number;
+  matches: TournamentMatch[];
+  runs: Record<string, TournamentRun>;
+};
+
+export type Tournament = {
+  id: string;
+  postId: string;
+  name: string;
+  // Every round is played on this board, each with its own seed taken from this one
+  settings: RaceSettings;
+  roundMinutes: number;
+  status: 'registration' | 'playing' | 'finished';
+  // In registration order, then best seed first once registration closes
+  entrants: RaceEntrant[];
+  rounds: TournamentRound[];
+  // When registration closes or the current round does; a scheduled job acts on it if it's still this
+  deadline: number | null;
+  // Null until the final is won, and when too few players registered
+  champion: string | null;
+  createdAt: number;
+};
+
+export type TournamentOptions = {
+  name: string;
+  difficulty: Difficulty;
+  board: BoardOptions;
+  registrationMinutes: number;
+  roundMinutes: number;
+};
+
+const minutes = (count: number) => count * 60 * 1000;
+
+export const newTournament = (postId: string, options: TournamentOptions, now = Date.now()): Tournament => ({
+  id: now.toString(36),
+  postId,
+  name: options.name,
+  settings: raceSettings(options.difficulty, options.board),
+  roundMinutes: options.roundMinutes,
+  status: 'registration',
+  entrants: [],
+  rounds: [],
+  deadline: now + minutes(options.registrationMinutes),
+  champion: null,
+  createdAt: now,
+});
+
+export const roundSeed = (tournament: Tournament, number: number) => `${tournament.settings.seed}-r${number}`;
+
+export const isRegistered = (tournament: Tournament, userId: string) =>
+  tournament.entrants.some(entrant => entrant.userId === userId);
+
+export const tournamentEntrant = (tournament: Tournament, userId: string | null) =>
+  tournament.entrants.find(entrant => entrant.userId === userId) ?? null;
+
+export const currentRound = (tournament: Tournament): TournamentRound | null =>
+  tournament.rounds[tournament.rounds.length - 1] ?? null;
+
+export const roundMatch = (round: TournamentRound, userId: string) =>
+  round.matches.find(match => match.players.includes(userId)) ?? null;
+
+// Sign a player up; null once registration has closed or when they're already in
+export const register = (tournament: Tournament, entrant: RaceEntrant): Tournament | null =>
+  tournament.status !== 'registration' || isRegistered(tournament, entrant.userId)
+    ? null
+    : { ...tournament, entrants: [...tournament.entrants, entrant] };
+
+// Best seed first: the most points in the post, then the earliest to register
+const seedEntrants = (entrants: RaceEntrant[], scores: Record<string, number>) =>
+  entrants
+    .map((entrant, index) => ({ entrant, index }))
+    .sort((a, b) => (scores[b.entrant.userId] ?? 0) - (scores[a.entrant.userId] ?? 0) || a.index - b.index)
+    .map(({ entrant }) => entrant);
+
+// Pair players given best seed first: the best seed meets the worst, the second best the second
+// worst, and so on. With an odd number, the best seed has a bye and goes straight through.
+const drawMatches = (players: string[]): TournamentMatch[] => {
+  const byes = players.length % 2;
+  const drawn = players.slice(byes);
+  return [
+    ...players.slice(0, byes).map(userId => ({ players: [userId], winner: userId })),
+    ...drawn.slice(0, drawn.length / 2).map((userId, index) => ({
+      players: [userId, drawn[drawn.length - 1 - index]],
+      winner: null,
+    })),
+  ];
+};
+
+const startRound = (tournament: Tournament, players: string[], now: number): Tournament => {
+  const number = tournament.rounds.length + 1;
+  const endsAt = now + minutes(tournament.roundMinutes);
+  const round: TournamentRound = {
+    number,
+    settings: { ...tournament.settings, seed: roundSeed(tournament, number) },
+    startedAt: now,
+    endsAt,
+    matches: drawMatches(players),
+    runs: {},
+  };
+  return { ...tournament, status: 'playing', rounds: [...tournament.rounds, round], deadline: endsAt };
+};
+
+const finish = (tournament: Tournament, champion: string | null): Tournament => ({
+  ...tournament,
+  status: 'finished',
+  deadline: null,
+  champion,
+});
+
+// Close registration: entrants are seeded by their points in the post and the first round is drawn.
+// A tournament without enough players is called off.
+const closeRegistration = (tournament: Tournament, scores: Record<string, number>, now: number): Tournament => {
+  const entrants = seedEntrants(tournament.entrants, scores);
+  const seeded = { ...tournament, entrants };
+  return entrants.length < TOURNAMENT_MIN_ENTRANTS
+    ? finish(seeded, null)
+    : startRound(seeded, entrants.map(entrant => entrant.userId), now);
+};
+
+const runTime = (run: TournamentRun) => (run.finishedAt ?? Infinity) - run.startedAt;
+
+// Negative when the first run is the better one: clearing the board beats not clearing it, and a faster
+// clear a slower one; otherwise more cells revealed wins. Not playing at all loses to any run.
+const compareRuns = (a: TournamentRun | undefined, b: TournamentRun | undefined) => {
+  if (!a || !b) return (a ? 0 : 1) - (b ? 0 : 1);
+  if (a.outcome === 'won' || b.outcome === 'won') {
+    if (a.outcome !== b.outcome) return a.outcome === 'won' ? -1 : 1;
+    return runTime(a) - runTime(b);
+  }
+  return b.revealed - a.revealed;
+};
+
+// The better run wins a match, and a tie goes to the better seed
+const settleMatch = (round: TournamentRound, match: TournamentMatch): TournamentMatch => {
+  if (match.winner !== null) return match;
+
+  const [first, second] = match.players;
+  return { ...match, winner: compareRuns(round.runs[first], round.runs[second]) <= 0 ? first : second };
+};
+
+const isRunOver = (run: TournamentRun | undefined) => !!run && run.outcome !== 'playing';
+
+// A round is over early once every match in it has been played out
+const isRoundComplete = (round: TournamentRound) =>
+  round.matches.every(match => match.winner !== null || match.players.every(userId => isRunOver(round.runs[userId])));
+
+// Settle the current round's matches, and draw the next round from the winners in seeding order.
+// The winner of the final is the champion.
+const closeRound = (tournament: Tournament, now: number): Tournament => {
+  const round = currentRound(tournament);
+  if (!round) return tournament;
+
+  const settled = { ...round, matches: round.matches.map(match => settleMatch(round, match)) };
+  const winners = settled.matches.map(match => match.winner);
+  const through = tournament.entrants.map(entrant => entrant.userId).filter(userId => winners.includes(userId));
+  const closed = { ...tournament, rounds: [...tournament.rounds.slice(0, -1), settled] };
+  return through.length === 1 ? finish(closed, through[0]) : startRound(closed, through, now);
+};
+
+const replaceRound = (tournament: Tournament, round: TournamentRound): Tournament => ({
+  ...tournament,
+  rounds: tournament.rounds.map(other => (other.number === round.number ? round : other)),
+});
+
+// Whether a player still has the current round's board to play: they're in a match with someone,
+// and haven't opened the board yet
+export const canStartRun = (tournament: Tournament, userId: string, now = Date.now()) => {
+  const round = currentRound(tournament);
+  const match = round && roundMatch(round, userId);
+  return (
+    tournament.status === 'playing' &&
+    !!round &&
+    now < round.endsAt &&
+    match?.winner === null &&
+    round.runs[userId] === undefined
+  );
+};
+
+// Start a player's run at the current round's board, opened as the given board
+export const startRun = (tournament: Tournament, userId: string, board: Board, now = Date.now()): Tournament | null => {
+  const round = currentRound(tournament);
+  if (!round || !canStartRun(tournament, userId, now)) return null;
+
+  const run: TournamentRun = { startedAt: now, revealed: countRevealed(board), outcome: 'playing', finishedAt: null };
+  return replaceRound(tournament, { ...round, runs: { ...round.runs, [userId]: run } });
+};
+
+// Note a player's board after a move in the given round. The move that plays out the round's
+// last match closes it at once. Null once the round is over or the player's run has ended.
+export const recordRun = (
+  tournament: Tournament,
+  number: number,
+  userId: string,
+  board: Board,
+  outcome: Outcome,
+  now = Date.now()
+): Tournament | null => {
+  const round = currentRound(tournament);
+  const run = round?.runs[userId];
+  if (tournament.status !== 'playing' || !round || round.number !== number || now >= round.endsAt) return null;
+  if (!run || run.outcome !== 'playing') return null;
+
+  const updated = replaceRound(tournament, {
+    ...round,
+    runs: {
+      ...round.runs,
+      [userId]: { ...run, revealed: countRevealed(board), outcome, finishedAt: outcome === 'playing' ? null : now },
+    },
+  });
+  return isRoundComplete(currentRound(updated) ?? round) ? closeRound(updated, now) : updated;
+};
+
+// Act on a deadline that has passed: registration closes, or the current round does with
+// every run counted as far as it got
+export const runOutTournamentClock = (
+  tournament: Tournament,
+  scores: Record<string, number>,
+  now = Date.now()
+): Tournament | null => {
+  if (tournament.deadline === null || tournament.deadline > now) return null;
+
+  if (tournament.status === 'registration') return closeRegistration(tournament, scores, now);
+  return tournament.status === 'playing' ? closeRound(tournament, now) : null;
+};
+
+// The round a player went out in, or null while they're still in or when they won it all
+export const eliminatedIn = (tournament: Tournament, userId: string) =>
+  tournament.rounds.find(round =>
+    round.matches.some(match => match.players.includes(userId) && match.winner !== null && match.winner !== userId)
+  )?.number ?? null;
+
+// Entrants by how far they got, then by seed: the champion first, then the runner-up, and so on
+export const tournamentPlacings = (tournament: Tournament) => {
+  const reached = (userId: string) =>
+    userId === tournament.champion ? Infinity : eliminatedIn(tournament, userId) ?? tournament.rounds.length;
+  return tournament.entrants
+    .map((entrant, index) => ({ ...entrant, seed: index + 1, reached: reached(entrant.userId) }))
+    .sort((a, b) => b.reached - a.reached || a.seed - b.seed);
+};
@@ -0,0 +1,63 @@
+import { CELL_TYPES, createBoard, revealCell } from './engine.js';
+import { castVote, closeRound, communityOutcome, isPlayableMove, newCommunityGame, tallyVotes } from './vote.js';
+
+const MINUTE = 60 * 1000;
+const alice = { userId: 't2_a', username: 'alice' };
+const bob = { userId: 't2_b', username: 'bob' };
+const carol = { userId: 't2_c', username: 'carol' };
+
+const board = revealCell(createBoard('MEDIUM', { seed: 'vote' }), 0).board;
+const [first, second] = board.cells.flatMap((cell, index) => (!cell.revealed && cell.type !== CELL_TYPES.BOMB ? [index] : []));
+const mine = board.cells.findIndex(cell => cell.type === CELL_TYPES.BOMB);
+
+describe('community vote', () => {
+  it('opens a round with its first vote and lets voters change their mind', () => {
+    const game = newCommunityGame('post', board, 10, 0);
+    const voted = castVote(game, alice, { action: 'reveal', index: first }, MINUTE)!;
+    expect(voted.roundEndsAt).toBe(11 * MINUTE);
+
+    const changed = castVote(voted, alice, { action: 'flag', index: second }, 2 * MINUTE)!;
+    expect(changed.roundEndsAt).toBe(11 * MINUTE);
+    expect(changed.ballots).toEqual({ t2_a: { action: 'flag', index: second, at: 2 * MINUTE } });
+  });
+
+  it("refuses moves that can't be played on the board as it is", () => {
+    expect(isPlayableMove(board, { action: 'reveal', index: 0 })).toBe(false);
+    expect(castVote(newCommunityGame('post', board, 10), alice, { action: 'reveal', index: board.cells.length })).toBeNull();
+  });
+
+  it('tallies the most votes first, with the earliest vote breaking ties', () => {
+    const tallies = tallyVotes({
+      t2_a: { action: 'reveal', index: first, at: 3 },
+      t2_b: { action: 'reveal', index: second, at: 1 },
+      t2_c: { action: 'reveal', index: first, at: 2 },
+      t2_d: { action: 'flag', index: first, at: 0 },
+    });
+    expect(tallies.map(({ action, index, votes }) => [action, index, votes])).toEqual([
+      ['reveal', first, 2],
+      ['flag', first, 1],
+      ['reveal', second, 1],
+    ]);
+  });
+
+  it('plays the winning move once the round is due, counting everyone who voted', () => {
+    const voted = [alice, bob].reduce(
+      (game, voter) => castVote(game, voter, { action: 'reveal', index: first }, 0)!,
+      castVote(newCommunityGame('post', board, 10, 0), carol, { action: 'reveal', index: mine }, 0)!
+    );
+    expect(closeRound(voted, 10 * MINUTE - 1)).toBeNull();
+
+    const closed = closeRound(voted, 10 * MINUTE)!;
+    expect(closed.board.cells[first].revealed).toBe(true);
+    expect(closed).toMatchObject({ round: 2, roundEndsAt: null, ballots: {}, participation: { t2_a: 1, t2_b: 1, t2_c: 1 } });
+    expect(closed.lastRound?.voters).toEqual(['t2_a', 't2_b']);
+    expect(communityOutcome(closed)).toBe('playing');
+  });
+
+  it('ends the game when the winning move hits a bomb', () => {
+    const voted = castVote(newCommunityGame('post', board, 10, 0), alice, { action: 'reveal', index: mine }, 0)!;
+    const closed = closeRound(voted, 10 * MINUTE)!;
+    expect(communityOutcome(closed)).toBe('lost');
+    expect(closed.finishedAt).toBe(10 * MINUTE);
+  });
+});
@@ -0,0 +1,122 @@
+// Community vote: the subreddit plays one board in a post together. Commenters vote for the next
+// move, and when a round closes the move with the most votes is played on the board.
+import { Board, Outcome, actOnCell, checkOutcome } from './engine.js';
+
+export const DEFAULT_VOTE_ROUND_MINUTES = 10;
+
+export type VoteAction = 'reveal' | 'flag';
+
+export const isVoteAction = (value: string): value is VoteAction => value === 'reveal' || value === 'flag';
+
+export type VoteMove = {
+  action: VoteAction;
+  index: number;
+};
+
+export type Voter = {
+  userId: string;
+  username: string;
+};
+
+// A voter's pick this round; the earliest vote for a move breaks ties between equal tallies
+export type Ballot = VoteMove & { at: number };
+
+// A move's share of a round's votes
+export type VoteTally = VoteMove & {
+  votes: number;
+  voters: string[];
+  firstAt: number;
+};
+
+export type CommunityGame = {
+  postId: string;
+  board: Board;
+  // The bot's pinned comment with the board, edited as votes come in and rounds close
+  commentId: string | null;
+  roundMinutes: number;
+  round: number;
+  // When the open round closes; rounds open with their first vote, so an idle board waits for one
+  roundEndsAt: number | null;
+  ballots: Record<string, Ballot>;
+  // Everyone who has voted: their username, and how many rounds they voted in
+  voters: Record<string, string>;
+  participation: Record<string, number>;
+  // The move the last round played, and who voted for it
+  lastRound: VoteTally | null;
+  startedAt: number;
+  finishedAt: number | null;
+};
+
+export const newCommunityGame = (postId: string, board: Board, roundMinutes: number, now = Date.now()): CommunityGame => ({
+  postId,
+  board,
+  commentId: null,
+  roundMinutes,
+  round: 1,
+  roundEndsAt: null,
+  ballots: {},
+  voters: {},
+  participation: {},
+  lastRound: null,
+  startedAt: now,
+  finishedAt: null,
+});
+
+// A community board is won or lost like anyone's, by the moves played on it
+export const communityOutcome = (game: CommunityGame): Outcome => checkOutcome(game.board);
+
+// Whether a move can be played on the board as it is: only covered cells can be revealed or flagged,
+// and flagged ones can't be revealed
+export const isPlayableMove = (board: Board, { action, index }: VoteMove) => {
+  const cell = board.cells[index];
+  if (!cell || cell.revealed || checkOutcome(board) !== 'playing') return false;
+  return action === 'flag' || !cell.flagged;
+};
+
+// Cast or change a vote in the open round, opening one if none is. Null when the move can't be played.
+export const castVote = (game: CommunityGame, voter: Voter, move: VoteMove, now = Date.now()): CommunityGame | null => {
+  if (!isPlayableMove(game.board, move)) return null;
+
+  return {
+    ...game,
+    roundEndsAt: game.roundEndsAt ?? now + game.roundMinutes * 60 * 1000,
+    ballots: { ...game.ballots, [voter.userId]: { ...move, at: now } },
+    voters: { ...game.voters, [voter.userId]: voter.username },
+  };
+};
+
+// The round's votes per move, most first
+export const tallyVotes = (ballots: Record<string, Ballot>): VoteTally[] => {
+  const tallies: Record<string, VoteTally> = {};
+  for (const [userId, { action, index, at }] of Object.entries(ballots)) {
+    const tally = (tallies[`${action}:${index}`] ??= { action, index, votes: 0, voters: [], firstAt: at });
+    tally.votes += 1;
+    tally.voters.push(userId);
+    tally.firstAt = Math.min(tally.firstAt, at);
+  }
+  return Object.values(tallies).sort((a, b) => b.votes - a.votes || a.firstAt - b.firstAt);
+};
+
+// Close the round once it's due: play the winning move, count everyone who voted, and start
+// the next round, which waits for its first vote. Null when the round isn't due or had no votes.
+export const closeRound = (game: CommunityGame, now = Date.now()): CommunityGame | null => {
+  if (game.roundEndsAt === null || game.roundEndsAt > now) return null;
+
+  const [winner] = tallyVotes(game.ballots);
+  if (!winner) return null;
+
+  const result = actOnCell(game.board, winner.action, winner.index);
+  const participation = { ...game.participation };
+  for (const userId of Object.keys(game.ballots)) participation[userId] = (participation[userId] ?? 0) + 1;
+
+  return {
+    ...game,
+    board: result.board,
+    round: game.round + 1,
+    roundEndsAt: null,
+    ballots: {},
+    participation,
+    lastRound: winner,
+    finishedAt: result.outcome === 'playing' ? null : now,
+  };
+};